@@ -1,236 +1,455 @@
 import crypto from 'crypto';
-import { AES_INV_S_BOX, AES_S_BOX } from './constants/encryptionConstants';
+import { Transform } from 'stream';
+import { BlockCipher } from './helpers/blockCipher';
 import {
-  deriveKey,
-  generateColumnPermutation,
-  generateInverseColumnPermutation,
-  inverseMixMatrix,
-  inversePermuteBits,
-  inverseShiftRows,
-  inverseSubstituteBytes,
-  mixMatrix,
-  pad,
-  permuteBits,
-  permuteColumns,
-  shiftRows,
-  substituteBytes,
-  unpad,
+  computeTag,
+  createTagger,
+  deriveSubkey,
+  toBuffer,
 } from './helpers/encryptionUtils';
+import { MTCv3AuthenticationError, MTCv3FormatError } from './helpers/errors';
+import { fieldAssociatedData, transformFields } from './helpers/fields';
+import {
+  createKdfSecret,
+  deriveKeyMaterial,
+  deriveKeyMaterialAsync,
+  KdfOptions,
+  KdfSecret,
+  resolveKdfParams,
+} from './helpers/kdf';
+import { validateRounds } from './helpers/keySchedule';
+import { CipherMode } from './helpers/modes';
+import {
+  CipherParams,
+  KeySet,
+  MTCv3Core,
+  SUBKEY_INFO,
+  TAG_LENGTH,
+} from './helpers/mtcv3Core';
+import { MTCv3Pool, PoolOptions } from './helpers/pool';
+import { createSBox, resolveSBoxParams, SBoxOptions } from './helpers/sBox';
+import {
+  DecryptTransform,
+  EncryptTransform,
+  ResolvedStreamHeader,
+  StreamParams,
+} from './helpers/streams';
+
+export {
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3Error,
+  MTCv3FormatError,
+  MTCv3UnknownKeyError,
+} from './helpers/errors';
+
+export type CiphertextEncoding = 'hex' | 'base64' | 'base64url';
+
+export interface DecodeOptions {
+  // Encoding of string ciphertexts (default: hex)
+  encoding?: CiphertextEncoding;
+}
+
+export interface EncryptOptions extends DecodeOptions {
+  // Explicit IV/nonce (matrixSize * matrixSize bytes), e.g. for deterministic
+  // tests. Reuse is only detected among the instance's last 1024 explicit IVs.
+  iv?: Buffer;
+}
+
+export interface StreamOptions {
+  // Produce or expect sealed (authenticated) data
+  authenticated?: boolean;
+  // Associated data bound to sealed streams
+  associatedData?: string | Uint8Array;
+}
+
+export interface FieldOptions extends DecodeOptions {
+  // Context bound to every field in addition to its path, e.g. a record ID,
+  // so that values cannot be moved between documents either
+  associatedData?: string | Uint8Array;
+}
+
+export interface EncryptStreamOptions extends StreamOptions {
+  // Explicit IV/nonce, see EncryptOptions
+  iv?: Buffer;
+}
+
+export interface MTCv3Options {
+  // Block cipher mode used for new ciphertexts (default: cbc)
+  mode?: CipherMode;
+  // Cipher version used for new ciphertexts (default: 2)
+  cipherVersion?: number;
+  // Key derivation function (default: PBKDF2-HMAC-SHA256, 100000 iterations)
+  kdf?: KdfOptions;
+  // S-box used for new ciphertexts (default: the AES S-box)
+  sBox?: SBoxOptions;
+  // Source of IVs (default: crypto.randomBytes). Inject a seeded generator
+  // together with a raw key for deterministic output in tests.
+  randomBytes?: (size: number) => Buffer;
+  // Key ID recorded in new ciphertexts (set by MTCv3Keyring)
+  keyId?: string;
+  // Decrypt ciphertexts whose header records other KDF parameters than
+  // kdf, deriving their keys with the recorded ones (default: false, which
+  // rejects them with MTCv3FormatError)
+  acceptHeaderKdf?: boolean;
+}
+
+export interface MTCv3CreateOptions extends MTCv3Options {
+  rounds?: number;
+  matrixSize?: number;
+}
+
+// Lets create() hand key material it derived asynchronously to the constructor
+const PRECOMPUTED_KEY_MATERIAL = Symbol('precomputedKeyMaterial');
+
+interface InternalOptions extends MTCv3Options {
+  [PRECOMPUTED_KEY_MATERIAL]?: Buffer;
+}
+
+// Node keys: Buffer outputs for the hashing in encryptionUtils
+interface NodeKeySet extends KeySet<BlockCipher> {
+  macKey: Buffer;
+}
 
 export class MTCv3 {
-  private keySchedule: Buffer[];
-  private rounds: number;
-  private matrixSize: number;
-  private iv: Buffer;
+  private secret: KdfSecret;
+  private core: MTCv3Core<NodeKeySet>;
+  private keys: NodeKeySet;
 
   constructor(
     password: string,
     salt: string,
     rounds: number = 10,
-    matrixSize: number = 4
+    matrixSize: number = 4,
+    options: MTCv3Options = {}
   ) {
-    this.rounds = rounds;
-    this.matrixSize = matrixSize;
+    this.secret = createKdfSecret(password, options.kdf);
+    this.core = new MTCv3Core(
+      {
+        rounds,
+        matrixSize,
+        mode: options.mode,
+        cipherVersion: options.cipherVersion,
+        kdf: resolveKdfParams(options.kdf),
+        sBox: resolveSBoxParams(options.sBox),
+        salt: Buffer.from(salt, 'utf-8'),
+        keyId: options.keyId,
+        acceptHeaderKdf: options.acceptHeaderKdf,
+        randomBytes: options.randomBytes ?? crypto.randomBytes,
+      },
+      (params) => this.deriveKeySet(params)
+    );
 
-    // Derive key schedule
-    const keyMaterial = deriveKey(
-      password,
-      salt,
-      100000,
-      this.rounds * this.matrixSize
-    );
-    this.keySchedule = [];
-    for (let r = 0; r < this.rounds; r++) {
-      const start = r * this.matrixSize;
-      const end = start + this.matrixSize;
-      this.keySchedule.push(keyMaterial.slice(start, end));
+    // Key material derived ahead of time by create()
+    const precomputed = (options as InternalOptions)[PRECOMPUTED_KEY_MATERIAL];
+    if (precomputed !== undefined) {
+      this.core.setKeys(
+        this.core.params,
+        this.buildKeySet(this.core.params, precomputed)
+      );
     }
 
-    // Initialize IV (for CBC mode)
-    this.iv = crypto.randomBytes(this.matrixSize * this.matrixSize);
+    this.keys = this.core.keysFor(this.core.params);
   }
 
-  // Encryption Function
-  encrypt(plaintext: string): string {
-    let data = Buffer.from(plaintext, 'utf-8');
-
-    // Pad data
-    const blockSize = this.matrixSize * this.matrixSize;
-    data = pad(data, blockSize);
-
-    // Divide into blocks
-    const blocks: Buffer[] = [];
-    for (let i = 0; i < data.length; i += blockSize) {
-      blocks.push(data.slice(i, i + blockSize));
-    }
-
-    // Encrypt each block using CBC mode
-    const ciphertextBlocks: Buffer[] = [];
-    let previousCipher: Buffer = this.iv;
-
-    for (const block of blocks) {
-      // XOR with previous cipher (CBC)
-      const xored = Buffer.alloc(block.length);
-      for (let i = 0; i < block.length; i++) {
-        xored[i] = block[i] ^ previousCipher[i];
-      }
-
-      // Encrypt block
-      const encrypted = this.encryptBlock(xored);
+  // Async factory: runs the KDF on the libuv thread pool instead of blocking
+  // the event loop, then builds an instance from the derived key material
+  static async create(
+    password: string,
+    salt: string,
+    options: MTCv3CreateOptions = {}
+  ): Promise<MTCv3> {
+    const { rounds = 10, matrixSize = 4, ...instanceOptions } = options;
+    validateRounds(rounds);
+    const keyMaterial = await deriveKeyMaterialAsync(
+      resolveKdfParams(options.kdf),
+      createKdfSecret(password, options.kdf),
+      Buffer.from(salt, 'utf-8'),
+      rounds * matrixSize
+    );
 
-      // Update previous cipher
-      previousCipher = encrypted;
-      ciphertextBlocks.push(encrypted);
-    }
+    const internalOptions: InternalOptions = {
+      ...instanceOptions,
+      [PRECOMPUTED_KEY_MATERIAL]: keyMaterial,
+    };
+    return new MTCv3(password, salt, rounds, matrixSize, internalOptions);
+  }
 
-    // Concatenate all ciphertext blocks with IV
-    const finalBuffer = Buffer.concat([this.iv, ...ciphertextBlocks]);
-    return finalBuffer.toString('hex');
+  // Encryption Function
+  encrypt(plaintext: string, options: EncryptOptions = {}): string {
+    const ciphertext = this.encryptBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      options
+    );
+    return Buffer.from(ciphertext).toString(options.encoding ?? 'hex');
   }
 
   // Decryption Function
-  decrypt(ciphertextHex: string): string {
-    const ciphertextWithIV = Buffer.from(ciphertextHex, 'hex');
-    const blockSize = this.matrixSize * this.matrixSize;
-
-    if (ciphertextWithIV.length < blockSize) {
-      throw new Error('Invalid ciphertext length');
-    }
-
-    const iv = ciphertextWithIV.slice(0, blockSize);
-    const ciphertext = ciphertextWithIV.slice(blockSize);
+  decrypt(ciphertext: string, options: DecodeOptions = {}): string {
+    const plaintext = this.decryptBytes(
+      Buffer.from(ciphertext, options.encoding ?? 'hex')
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
 
-    if (ciphertext.length % blockSize !== 0) {
-      throw new Error('Invalid ciphertext length');
-    }
+  // Binary encryption: returns envelope header || ciphertext
+  encryptBytes(data: Uint8Array, options: EncryptOptions = {}): Uint8Array {
+    // Fresh IV for every message
+    return toBuffer(
+      this.core.encryptEnvelope(this.keys.cipher, data, false, options.iv)
+    );
+  }
 
-    const blocks: Buffer[] = [];
-    for (let i = 0; i < ciphertext.length; i += blockSize) {
-      blocks.push(ciphertext.slice(i, i + blockSize));
-    }
+  // Binary decryption of an envelope, or of a legacy IV || CBC ciphertext
+  decryptBytes(data: Uint8Array): Uint8Array {
+    const unpacked = this.core.unpack(data);
+    return toBuffer(
+      this.core.decrypt(this.core.keysFor(unpacked.params), unpacked)
+    );
+  }
 
-    const plaintextBlocks: Buffer[] = [];
-    let previousCipher: Buffer = iv;
+  // Random-access decryption of plaintext bytes [start, end) from a CTR ciphertext
+  decryptRange(data: Uint8Array, start: number, end: number): Uint8Array {
+    const unpacked = this.core.unpack(data);
+    return toBuffer(
+      this.core.decryptRange(
+        this.core.keysFor(unpacked.params),
+        unpacked,
+        start,
+        end
+      )
+    );
+  }
 
-    for (const block of blocks) {
-      const decrypted = this.decryptBlock(block);
+  // Authenticated encryption: header || ciphertext || tag over (AD, header, ciphertext)
+  seal(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): string {
+    const sealed = this.sealBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      associatedData,
+      options
+    );
+    return Buffer.from(sealed).toString(options.encoding ?? 'hex');
+  }
 
-      const xored = Buffer.alloc(decrypted.length);
-      for (let i = 0; i < decrypted.length; i++) {
-        xored[i] = decrypted[i] ^ previousCipher[i];
-      }
+  // Authenticated decryption of a string produced by seal
+  open(
+    sealed: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const plaintext = this.openBytes(
+      Buffer.from(sealed, options.encoding ?? 'hex'),
+      associatedData
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
 
-      plaintextBlocks.push(xored);
-      previousCipher = block;
-    }
+  // Binary authenticated encryption
+  sealBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): Uint8Array {
+    const body = toBuffer(
+      this.core.encryptEnvelope(this.keys.aeadCipher, data, true, options.iv)
+    );
+    const tag = computeTag(this.keys.macKey, Buffer.from(associatedData), body);
 
-    const plaintext = Buffer.concat(plaintextBlocks);
+    return Buffer.concat([body, tag]);
+  }
 
+  // Binary authenticated decryption: the tag is verified before any unpadding happens
+  openBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Uint8Array {
+    const sealed = this.core.unpackSealed(data);
+    let keys: NodeKeySet;
     try {
-      const unpadded = unpad(plaintext, blockSize);
-      return unpadded.toString('utf-8');
+      keys = this.core.keysFor(sealed.params);
     } catch (error) {
-      throw new Error('Decryption failed: Invalid padding');
+      throw new MTCv3AuthenticationError();
     }
-  }
-
-  // Encrypt a single block
-  private encryptBlock(block: Buffer): Buffer {
-    let data = Array.from(block);
-
-    for (let r = 0; r < this.rounds; r++) {
-      const key = this.keySchedule[r];
-      const shiftAmounts = Array.from(key);
-
-      const matrix = this.fillMatrix(data, 'row');
-
-      // Row Shifting
-      const shiftedMatrix = shiftRows(matrix, shiftAmounts);
-
-      // Column Permutation
-      const permutation = generateColumnPermutation(key, r, this.matrixSize);
-      const permutedMatrix = permuteColumns(shiftedMatrix, permutation);
-
-      // S-Box Substitution
-      let flatData = permutedMatrix.flat();
-      flatData = substituteBytes(flatData, AES_S_BOX);
-
-      // Mixing Layer
-      const mixedMatrix = mixMatrix(this.reshape(flatData, this.matrixSize));
-
-      // Bit-level Permutation
-      flatData = mixedMatrix.flat();
-      flatData = permuteBits(flatData, key, r);
 
-      data = flatData;
-    }
-
-    return Buffer.from(data);
+    const expectedTag = computeTag(
+      keys.macKey,
+      Buffer.from(associatedData),
+      toBuffer(sealed.body)
+    );
+    return toBuffer(this.core.open(keys, sealed, expectedTag));
   }
 
-  // Decrypt a single block
-  private decryptBlock(block: Buffer): Buffer {
-    let data = Array.from(block);
-
-    for (let r = this.rounds - 1; r >= 0; r--) {
-      const key = this.keySchedule[r];
-      const shiftAmounts = Array.from(key);
-
-      // Inverse Bit-level Permutation
-      data = inversePermuteBits(data, key, r);
+  // Seal selected fields of a JSON-like document, returning a copy. Each
+  // value is JSON-encoded, so numbers, booleans, null and nested objects
+  // keep their type, and sealed with its concrete path (array indices
+  // included) as associated data.
+  encryptFields<T extends object = Record<string, unknown>>(
+    document: object,
+    paths: string[],
+    options: FieldOptions = {}
+  ): T {
+    return transformFields(document, paths, (value, path) =>
+      this.seal(
+        JSON.stringify(value),
+        fieldAssociatedData(path, options.associatedData),
+        { encoding: options.encoding }
+      )
+    ) as T;
+  }
 
-      let matrix = this.fillMatrix(data, 'row');
+  // Open the fields sealed by encryptFields, returning a copy. A value moved
+  // to another field, index or document fails with MTCv3AuthenticationError.
+  decryptFields<T extends object = Record<string, unknown>>(
+    document: object,
+    paths: string[],
+    options: FieldOptions = {}
+  ): T {
+    return transformFields(document, paths, (value, path) => {
+      if (typeof value !== 'string') {
+        throw new MTCv3FormatError(
+          `Field is not an encrypted value: ${path.join('.')}`
+        );
+      }
+      return JSON.parse(
+        this.open(value, fieldAssociatedData(path, options.associatedData), {
+          encoding: options.encoding,
+        })
+      );
+    }) as T;
+  }
 
-      // Inverse Mixing Layer
-      matrix = inverseMixMatrix(matrix);
+  // Streaming encryption with constant memory; produces the same bytes as
+  // encryptBytes (or sealBytes when authenticated) for the same IV
+  createEncryptStream(options: EncryptStreamOptions = {}): Transform {
+    const { params, header } = this.encryptionParams(
+      options.authenticated ?? false,
+      Buffer.from(options.associatedData ?? ''),
+      options.iv
+    );
+    return new EncryptTransform(params, header);
+  }
 
-      // Inverse S-Box Substitution
-      let flatData = matrix.flat();
-      flatData = inverseSubstituteBytes(flatData, AES_INV_S_BOX);
+  // Streaming decryption of anything produced by encryptBytes, sealBytes or
+  // createEncryptStream. Authenticated streams report a bad tag as an error
+  // at the end of the stream, after earlier plaintext has been released.
+  createDecryptStream(options: StreamOptions = {}): Transform {
+    const authenticated = options.authenticated ?? false;
+    const associatedData = Buffer.from(options.associatedData ?? '');
+
+    return new DecryptTransform(
+      (data) => this.resolveStreamHeader(data, authenticated, associatedData),
+      (data) =>
+        authenticated
+          ? new MTCv3AuthenticationError()
+          : this.incompleteHeaderError(data)
+    );
+  }
 
-      // Convert flat data back to matrix
-      matrix = this.reshape(flatData, this.matrixSize);
+  // Worker-thread pool with async counterparts of encryptBytes, decryptBytes,
+  // sealBytes and openBytes that produce the same bytes. Call close() when
+  // done with it.
+  createPool(options: PoolOptions = {}): MTCv3Pool {
+    return new MTCv3Pool(
+      {
+        encryption: (authenticated, associatedData, iv) =>
+          this.encryptionParams(authenticated, associatedData, iv),
+        resolveHeader: (data, authenticated, associatedData) =>
+          this.resolveStreamHeader(data, authenticated, associatedData),
+        incompleteHeaderError: (data) => this.incompleteHeaderError(data),
+      },
+      options
+    );
+  }
 
-      // Inverse Column Permutation
-      const permutation = generateColumnPermutation(key, r, this.matrixSize);
-      const inversePermutation = generateInverseColumnPermutation(permutation);
-      matrix = permuteColumns(matrix, inversePermutation);
+  // Parameters and header for a new ciphertext
+  private encryptionParams(
+    authenticated: boolean,
+    associatedData: Buffer,
+    iv?: Buffer
+  ): { params: StreamParams; header: Buffer } {
+    const resolvedIV = toBuffer(this.core.resolveIV(iv));
+    return {
+      params: {
+        cipher: authenticated ? this.keys.aeadCipher : this.keys.cipher,
+        mode: this.core.mode,
+        iv: resolvedIV,
+        tagger: authenticated
+          ? createTagger(this.keys.macKey, associatedData)
+          : undefined,
+      },
+      header: toBuffer(this.core.createHeader(resolvedIV, authenticated)),
+    };
+  }
 
-      // Inverse Row Shifting
-      matrix = inverseShiftRows(matrix, shiftAmounts);
+  // Error for unauthenticated data that ends before its header does
+  private incompleteHeaderError(data: Buffer): Error {
+    return this.core.incompleteHeaderError(data);
+  }
 
-      data = matrix.flat();
+  // Resolve stream parameters once the header has fully arrived
+  private resolveStreamHeader(
+    data: Buffer,
+    authenticated: boolean,
+    associatedData: Buffer
+  ): ResolvedStreamHeader | undefined {
+    const header = this.core.parseStreamHeader(data, authenticated);
+    if (header === undefined) {
+      return undefined;
     }
 
-    return Buffer.from(data);
+    const keys = this.core.keysFor(header.params);
+    return {
+      cipher: authenticated ? keys.aeadCipher : keys.cipher,
+      mode: header.mode,
+      iv: toBuffer(header.iv),
+      tagger: authenticated
+        ? createTagger(keys.macKey, associatedData)
+        : undefined,
+      headerLength: header.headerLength,
+    };
   }
 
-  // Helper function to fill matrix
-  private fillMatrix(data: number[], order: 'row' | 'column'): number[][] {
-    const N = this.matrixSize;
-    const matrix: number[][] = Array.from({ length: N }, () =>
-      Array(N).fill(0)
+  // Derive the block ciphers and MAC key for a set of algorithm parameters
+  private deriveKeySet(params: CipherParams): NodeKeySet {
+    // Derive key schedule
+    const keyMaterial = deriveKeyMaterial(
+      params.kdf,
+      this.secret,
+      toBuffer(params.salt),
+      params.rounds * params.matrixSize
     );
-
-    for (let i = 0; i < data.length; i++) {
-      const row = order === 'row' ? Math.floor(i / N) : i % N;
-      const col = order === 'row' ? i % N : Math.floor(i / N);
-      matrix[row][col] = data[i];
-    }
-
-    return matrix;
+    return this.buildKeySet(params, keyMaterial);
   }
 
-  // Helper function to reshape flat data into matrix
-  private reshape(data: number[], N: number): number[][] {
-    const matrix: number[][] = Array.from({ length: N }, () =>
-      Array(N).fill(0)
+  // Build the block ciphers and MAC key from derived key material
+  private buildKeySet(params: CipherParams, keyMaterial: Buffer): NodeKeySet {
+    const { rounds, matrixSize, cipherVersion } = params;
+    const keyLength = rounds * matrixSize;
+    const sBox = createSBox(
+      params.sBox,
+      deriveSubkey(keyMaterial, SUBKEY_INFO.sBox, 32)
     );
-    for (let i = 0; i < data.length; i++) {
-      const row = Math.floor(i / N);
-      const col = i % N;
-      matrix[row][col] = data[i];
-    }
-    return matrix;
+
+    return {
+      cipher: new BlockCipher(
+        keyMaterial,
+        rounds,
+        matrixSize,
+        cipherVersion,
+        sBox
+      ),
+      aeadCipher: new BlockCipher(
+        deriveSubkey(keyMaterial, SUBKEY_INFO.aeadEncryption, keyLength),
+        rounds,
+        matrixSize,
+        cipherVersion,
+        sBox
+      ),
+      macKey: deriveSubkey(keyMaterial, SUBKEY_INFO.aeadMac, TAG_LENGTH),
+    };
   }
 }
@@ -1,18 +1,41 @@
-import { MTCv3 } from '../MTCV3';
+import { MTCv3, MTCv3DecryptionError } from '../MTCV3';
 import {
+  getMixingMatrices,
   inverseMixMatrix,
   mixMatrix,
   pad,
   unpad,
 } from '../helpers/encryptionUtils';
+import { parseEnvelope, serializeHeader } from '../helpers/envelope';
 
 // Importing performance hooks from Node.js for high-resolution timing
 
+// Reference GF(2^8) multiplication (AES polynomial) for checking the mixing layer
+const gfMulRef = (a: number, b: number): number => {
+  let p = 0;
+  for (; b > 0; b >>= 1) {
+    if (b & 1) p ^= a;
+    a = (a << 1) ^ (a & 0x80 ? 0x11b : 0);
+  }
+  return p;
+};
+
 describe('MTCv3', () => {
   const password = 'strongpassword';
   const salt = 'somesalt';
   let mtc: MTCv3;
 
+  // Strip the envelope header from a cipher version 1 ciphertext, leaving
+  // the legacy IV || blocks layout
+  const toLegacy = (ciphertextHex: string): string => {
+    const { header, payload } = parseEnvelope(
+      Buffer.from(ciphertextHex, 'hex')
+    );
+    return Buffer.concat([header.iv, payload]).toString('hex');
+  };
+  const ivOf = (ciphertextHex: string): string =>
+    parseEnvelope(Buffer.from(ciphertextHex, 'hex')).header.iv.toString('hex');
+
   beforeEach(() => {
     mtc = new MTCv3(password, salt);
   });
@@ -76,6 +99,273 @@ describe('MTCv3', () => {
     });
   });
 
+  describe('initialization vectors', () => {
+    it('should use a fresh IV for every encryption', () => {
+      const plaintext = 'same prefix, same message';
+      const first = mtc.encrypt(plaintext);
+      const second = mtc.encrypt(plaintext);
+
+      expect(ivOf(first)).not.toBe(ivOf(second));
+      expect(first).not.toBe(second);
+      expect(mtc.decrypt(first)).toBe(plaintext);
+      expect(mtc.decrypt(second)).toBe(plaintext);
+    });
+
+    it('should use an explicit IV when provided', () => {
+      const iv = Buffer.alloc(16, 7);
+      const ciphertext = mtc.encrypt('HELLO WORLD', { iv });
+
+      expect(ivOf(ciphertext)).toBe(iv.toString('hex'));
+      expect(mtc.decrypt(ciphertext)).toBe('HELLO WORLD');
+    });
+
+    it('should produce the same ciphertext for the same explicit IV on different instances', () => {
+      const iv = Buffer.alloc(16, 1);
+      const other = new MTCv3(password, salt);
+
+      expect(mtc.encrypt('test', { iv })).toBe(other.encrypt('test', { iv }));
+    });
+
+    it('should reject reuse of an explicit IV', () => {
+      const iv = Buffer.alloc(16, 9);
+      mtc.encrypt('first', { iv });
+
+      expect(() => {
+        mtc.encrypt('second', { iv });
+      }).toThrow('IV reuse detected');
+    });
+
+    it('should remember only the most recent explicit IVs', () => {
+      const bounded = new MTCv3('', salt, 10, 4, {
+        kdf: { algorithm: 'raw', key: Buffer.alloc(32, 3) },
+      });
+      const ivOf = (i: number) => {
+        const iv = Buffer.alloc(16);
+        iv.writeUInt32BE(i);
+        return iv;
+      };
+      for (let i = 0; i <= 1024; i++) {
+        bounded.encryptBytes(Buffer.alloc(0), { iv: ivOf(i) });
+      }
+
+      expect(() =>
+        bounded.encryptBytes(Buffer.alloc(0), { iv: ivOf(1024) })
+      ).toThrow('IV reuse detected');
+      expect(() =>
+        bounded.encryptBytes(Buffer.alloc(0), { iv: ivOf(0) })
+      ).not.toThrow();
+    });
+
+    it('should reject an IV of the wrong length', () => {
+      expect(() => {
+        mtc.encrypt('test', { iv: Buffer.alloc(8) });
+      }).toThrow('Invalid IV length');
+    });
+  });
+
+  describe('authenticated encryption', () => {
+    it('should seal and open text with associated data', () => {
+      const plaintext = 'HELLO WORLD';
+      const sealed = mtc.seal(plaintext, 'record-42');
+
+      expect(mtc.open(sealed, 'record-42')).toBe(plaintext);
+    });
+
+    it('should seal and open without associated data', () => {
+      const sealed = mtc.seal('');
+
+      expect(mtc.open(sealed)).toBe('');
+    });
+
+    it('should not produce the same ciphertext as encrypt', () => {
+      const iv = Buffer.alloc(16, 3);
+      const other = new MTCv3(password, salt);
+      const encrypted = mtc.encrypt('test', { iv });
+      const sealed = other.seal('test', '', { iv });
+
+      expect(sealed.substring(0, encrypted.length)).not.toBe(encrypted);
+    });
+
+    it('should reject a flipped ciphertext bit', () => {
+      const sealed = Buffer.from(mtc.seal('transfer 100'), 'hex');
+      sealed[20] ^= 0x01;
+
+      expect(() => {
+        mtc.open(sealed.toString('hex'));
+      }).toThrow('Authentication failed');
+    });
+
+    it('should reject a modified tag', () => {
+      const sealed = Buffer.from(mtc.seal('transfer 100'), 'hex');
+      sealed[sealed.length - 1] ^= 0x80;
+
+      expect(() => {
+        mtc.open(sealed.toString('hex'));
+      }).toThrow('Authentication failed');
+    });
+
+    it('should reject mismatched associated data', () => {
+      const sealed = mtc.seal('transfer 100', 'account-a');
+
+      expect(() => {
+        mtc.open(sealed, 'account-b');
+      }).toThrow('Authentication failed');
+    });
+
+    it('should reject truncated input with the same error', () => {
+      const sealed = mtc.seal('transfer 100');
+
+      expect(() => {
+        mtc.open(sealed.substring(0, sealed.length - 2));
+      }).toThrow('Authentication failed');
+      expect(() => {
+        mtc.open('');
+      }).toThrow('Authentication failed');
+    });
+
+    it('should not open data sealed with a different password', () => {
+      const sealed = mtc.seal('test');
+      const mtc2 = new MTCv3('differentpassword', salt);
+
+      expect(() => {
+        mtc2.open(sealed);
+      }).toThrow('Authentication failed');
+    });
+  });
+
+  describe('binary API', () => {
+    it('should encrypt and decrypt raw bytes', () => {
+      const data = Uint8Array.from([...Array(256).keys()]);
+      const ciphertext = mtc.encryptBytes(data);
+      const decrypted = mtc.decryptBytes(ciphertext);
+
+      expect(ciphertext).toBeInstanceOf(Uint8Array);
+      expect(parseEnvelope(Buffer.from(ciphertext)).payload.length).toBe(272);
+      expect(Buffer.from(decrypted)).toEqual(Buffer.from(data));
+    });
+
+    it('should accept Uint8Array views with an offset', () => {
+      const backing = Uint8Array.from([0xff, 1, 2, 3, 0xff]);
+      const view = backing.subarray(1, 4);
+      const decrypted = mtc.decryptBytes(mtc.encryptBytes(view));
+
+      expect(Array.from(decrypted)).toEqual([1, 2, 3]);
+    });
+
+    it('should seal and open raw bytes', () => {
+      const data = Uint8Array.from([0, 1, 2, 250, 251, 252]);
+      const ad = Uint8Array.from([9, 9]);
+      const sealed = mtc.sealBytes(data, ad);
+
+      expect(Array.from(mtc.openBytes(sealed, ad))).toEqual(Array.from(data));
+    });
+
+    it.each(['hex', 'base64', 'base64url'] as const)(
+      'should round-trip string ciphertexts using %s encoding',
+      (encoding) => {
+        const plaintext = 'encoded 你好';
+        const ciphertext = mtc.encrypt(plaintext, { encoding });
+        const sealed = mtc.seal(plaintext, 'ad', { encoding });
+
+        expect(mtc.decrypt(ciphertext, { encoding })).toBe(plaintext);
+        expect(mtc.open(sealed, 'ad', { encoding })).toBe(plaintext);
+      }
+    );
+
+    it('should produce URL-safe base64url output', () => {
+      for (let i = 0; i < 10; i++) {
+        expect(mtc.encrypt('url safe?', { encoding: 'base64url' })).toMatch(
+          /^[A-Za-z0-9_-]+$/
+        );
+      }
+    });
+  });
+
+  describe('ciphertext envelope', () => {
+    it('should record the algorithm parameters in the header', () => {
+      const custom = new MTCv3(password, salt, 12);
+      const iv = Buffer.alloc(16, 5);
+      const { header } = parseEnvelope(
+        Buffer.from(custom.encrypt('test', { iv }), 'hex')
+      );
+
+      expect(header).toEqual({
+        version: 1,
+        mode: 'cbc',
+        cipherVersion: 2,
+        authenticated: false,
+        rounds: 12,
+        matrixSize: 4,
+        kdf: { algorithm: 'pbkdf2', hash: 'sha256', iterations: 100000 },
+        sBox: { type: 'aes' },
+        salt: Buffer.from(salt),
+        iv,
+      });
+    });
+
+    it('should mark sealed ciphertexts as authenticated', () => {
+      const { header } = parseEnvelope(Buffer.from(mtc.seal('test'), 'hex'));
+
+      expect(header.authenticated).toBe(true);
+    });
+
+    it('should decrypt ciphertexts from cipher version 1', () => {
+      const v1 = new MTCv3(password, salt, 10, 4, { cipherVersion: 1 });
+      const iv = Buffer.alloc(16, 6);
+      const ciphertext = v1.encrypt('version one', { iv });
+      const { header } = parseEnvelope(Buffer.from(ciphertext, 'hex'));
+
+      expect(header.cipherVersion).toBe(1);
+      expect(mtc.decrypt(ciphertext)).toBe('version one');
+      expect(mtc.encrypt('version one', { iv })).not.toBe(ciphertext);
+    });
+
+    it('should reject an unsupported cipher version', () => {
+      expect(
+        () => new MTCv3(password, salt, 10, 4, { cipherVersion: 3 })
+      ).toThrow('Unsupported cipher version: 3');
+    });
+
+    it('should still decrypt legacy ciphertexts without a header', () => {
+      const v1 = new MTCv3(password, salt, 10, 4, { cipherVersion: 1 });
+      const legacy = toLegacy(v1.encrypt('HELLO WORLD'));
+
+      expect(mtc.decrypt(legacy)).toBe('HELLO WORLD');
+    });
+
+    it('should refuse to decrypt sealed data without authentication', () => {
+      expect(() => {
+        mtc.decrypt(mtc.seal('test'));
+      }).toThrow('use open() instead');
+    });
+
+    it('should reject an unknown envelope version', () => {
+      const ciphertext = Buffer.from(mtc.encrypt('test'), 'hex');
+      ciphertext[4] = 99;
+
+      expect(() => {
+        mtc.decrypt(ciphertext.toString('hex'));
+      }).toThrow('Unsupported envelope version: 99');
+    });
+
+    it('should reject a truncated header', () => {
+      const ciphertext = mtc.encrypt('test');
+
+      expect(() => {
+        mtc.decrypt(ciphertext.substring(0, 30));
+      }).toThrow('Truncated envelope header');
+    });
+
+    it('should reject a tampered header when opening sealed data', () => {
+      const sealed = Buffer.from(mtc.seal('test'), 'hex');
+      sealed[8] = 11; // rounds
+
+      expect(() => {
+        mtc.open(sealed.toString('hex'));
+      }).toThrow('Authentication failed');
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error when decrypting invalid ciphertext', () => {
       expect(() => {
@@ -89,13 +379,13 @@ describe('MTCv3', () => {
 
       expect(() => {
         mtc.decrypt(truncated);
-      }).toThrow('Invalid ciphertext length');
+      }).toThrow(MTCv3DecryptionError);
     });
 
     it('should throw error when ciphertext is empty', () => {
       expect(() => {
         mtc.decrypt('');
-      }).toThrow('Invalid ciphertext length');
+      }).toThrow(MTCv3DecryptionError);
     });
   });
 
@@ -111,7 +401,54 @@ describe('MTCv3', () => {
       expect(decrypted).toBe(plaintext);
     });
 
-    // Removed the 'different matrix sizes' test as MTCv3 is designed for matrixSize=4
+    it.each([2, 4, 8, 16])(
+      'should encrypt and decrypt with matrix size %i',
+      (matrixSize) => {
+        const mtcCustom = new MTCv3(password, salt, 10, matrixSize);
+
+        for (const plaintext of ['', 'test', 'A'.repeat(300)]) {
+          const ciphertext = mtcCustom.encrypt(plaintext);
+          expect(mtcCustom.decrypt(ciphertext)).toBe(plaintext);
+        }
+      }
+    );
+
+    it.each([0, 1, 3, 5, 32])(
+      'should reject unsupported matrix size %i',
+      (matrixSize) => {
+        expect(() => new MTCv3(password, salt, 10, matrixSize)).toThrow(
+          `Unsupported matrix size: ${matrixSize}`
+        );
+      }
+    );
+
+    it('should round-trip with the most rounds the header can record', () => {
+      const maxRounds = new MTCv3('', salt, 255, 4, {
+        kdf: { algorithm: 'raw', key: Buffer.alloc(32, 1) },
+      });
+      const ciphertext = maxRounds.encrypt('many rounds');
+
+      expect(parseEnvelope(Buffer.from(ciphertext, 'hex')).header.rounds).toBe(
+        255
+      );
+      expect(maxRounds.decrypt(ciphertext)).toBe('many rounds');
+    });
+
+    it.each([0, 256, 2.5])('should reject %p rounds', async (rounds) => {
+      const raw = { kdf: { algorithm: 'raw' as const, key: Buffer.alloc(32) } };
+
+      expect(() => new MTCv3('', salt, rounds, 4, raw)).toThrow(
+        'Rounds must be an integer from 1 to 255'
+      );
+      await expect(MTCv3.create('', salt, { ...raw, rounds })).rejects.toThrow(
+        'Rounds must be an integer from 1 to 255'
+      );
+      const { header } = parseEnvelope(Buffer.from(mtc.encrypt('x'), 'hex'));
+      expect(() => serializeHeader({ ...header, rounds })).toThrow(
+        'Rounds must be an integer from 1 to 255'
+      );
+    });
+
     it('should default to matrix size 4 when not specified', () => {
       const plaintext = 'test message';
       const ciphertext = mtc.encrypt(plaintext);
@@ -130,18 +467,27 @@ describe('MTCv3', () => {
 
       expect(() => {
         mtc2.decrypt(ciphertext);
-      }).toThrow('Decryption failed: Invalid padding');
+      }).toThrow(MTCv3DecryptionError);
     });
 
-    it('should not decrypt text encrypted with different salt', () => {
+    it('should not decrypt legacy text encrypted with different salt', () => {
       const plaintext = 'test';
-      const ciphertext = mtc.encrypt(plaintext);
+      const iv = Buffer.alloc(16, 4);
+      const v1 = new MTCv3(password, salt, 10, 4, { cipherVersion: 1 });
+      const ciphertext = toLegacy(v1.encrypt(plaintext, { iv }));
 
       const mtc2 = new MTCv3(password, 'differentsalt');
 
       expect(() => {
         mtc2.decrypt(ciphertext);
-      }).toThrow('Decryption failed: Invalid padding');
+      }).toThrow(MTCv3DecryptionError);
+    });
+
+    it('should use the salt and parameters recorded in the envelope', () => {
+      const ciphertext = mtc.encrypt('test');
+      const mtc2 = new MTCv3(password, 'differentsalt', 12);
+
+      expect(mtc2.decrypt(ciphertext)).toBe('test');
     });
   });
 
@@ -159,6 +505,57 @@ describe('MTCv3', () => {
       expect(inverseMixedMatrix).toEqual(inputMatrix);
     });
 
+    it.each([2, 8, 16])(
+      'should correctly mix and inverse mix a %ix%i matrix',
+      (N) => {
+        const inputMatrix = Array.from({ length: N }, (_, r) =>
+          Array.from({ length: N }, (_, c) => (r * 31 + c * 17 + 5) % 256)
+        );
+        const mixedMatrix = mixMatrix(inputMatrix);
+
+        expect(mixedMatrix).not.toEqual(inputMatrix);
+        expect(inverseMixMatrix(mixedMatrix)).toEqual(inputMatrix);
+      }
+    );
+
+    it('should keep the AES MixColumns coefficients for a 4x4 matrix', () => {
+      // FIPS-197 MixColumns example column: db 13 53 45 -> 8e 4d a1 bc
+      const column = [[0xdb], [0x13], [0x53], [0x45]].map((row) => [
+        row[0],
+        0,
+        0,
+        0,
+      ]);
+
+      expect(mixMatrix(column).map((row) => row[0])).toEqual([
+        0x8e, 0x4d, 0xa1, 0xbc,
+      ]);
+    });
+
+    it.each([2, 4, 8, 16])(
+      'should use an MDS mixing matrix for size %i',
+      (N) => {
+        const { forward } = getMixingMatrices(N);
+
+        // A single non-zero input byte must reach every output byte, and two
+        // must reach at least N - 1 outputs (branch number N + 1)
+        for (let i = 0; i < N; i++) {
+          expect(forward.every((row) => row[i] !== 0)).toBe(true);
+          for (let j = i + 1; j < N; j++) {
+            const column = Array.from({ length: N }, (_, k) =>
+              k === i || k === j ? [1 + k] : [0]
+            );
+            const outputs = forward.map((row) =>
+              row.reduce((acc, _, k) => acc ^ gfMulRef(row[k], column[k][0]), 0)
+            );
+            expect(
+              outputs.filter((value) => value !== 0).length
+            ).toBeGreaterThanOrEqual(N - 1);
+          }
+        }
+      }
+    );
+
     it('should correctly pad and unpad data', () => {
       const data = Buffer.from('Hello World');
       const blockSize = 16; // matrixSize = 4
@@ -174,7 +571,7 @@ describe('MTCv3', () => {
 
       expect(() => {
         unpad(invalidPaddedData, blockSize);
-      }).toThrow('Invalid padding pattern');
+      }).toThrow(MTCv3DecryptionError);
     });
 
     it('should pad data to the next block size', () => {
@@ -0,0 +1,41 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+
+// Run the analyze script as `yarn analyze` does
+function analyze(args: string[]) {
+  const result = spawnSync(
+    process.execPath,
+    [
+      '--require',
+      'ts-node/register/transpile-only',
+      path.join(__dirname, '..', 'analyze.ts'),
+      ...args,
+    ],
+    { encoding: 'utf-8', timeout: 60000 }
+  );
+  return {
+    exitCode: result.status,
+    stdout: result.stdout,
+    stderr: result.stderr,
+  };
+}
+
+describe('analyze script', () => {
+  it.each([
+    [['--matrix-size', '3'], '--matrix-size must be one of 2, 4, 8, 16'],
+    [['--rounds', '300'], '--rounds must be at most 255'],
+    [['--cipher-version', '3'], '--cipher-version must be one of 1, 2'],
+  ])(
+    'should exit with a usage message for %j',
+    (args, message) => {
+      const { exitCode, stdout, stderr } = analyze(args);
+
+      expect(exitCode).toBe(2);
+      expect(stdout).toBe('');
+      expect(stderr).toContain(message);
+      expect(stderr).toContain('Usage: yarn analyze');
+      expect(stderr).not.toMatch(/\n\s+at /);
+    },
+    60000
+  );
+});
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { BlockCipher } from '../helpers/blockCipher';
+import { ReferenceBlockCipher } from '../helpers/referenceCipher';
+import { generateKeyDependentSBox } from '../helpers/sBox';
+
+describe('BlockCipher', () => {
+  describe.each([
+    [2, 1],
+    [2, 2],
+    [4, 1],
+    [4, 2],
+    [8, 1],
+    [8, 2],
+    [16, 1],
+    [16, 2],
+  ])('matrix size %i, cipher version %i', (matrixSize, cipherVersion) => {
+    const rounds = 10;
+    const blockSize = matrixSize * matrixSize;
+
+    it('should match the reference implementation byte for byte', () => {
+      for (let trial = 0; trial < 5; trial++) {
+        const keyMaterial = crypto.randomBytes(rounds * matrixSize);
+        const fast = new BlockCipher(
+          keyMaterial,
+          rounds,
+          matrixSize,
+          cipherVersion
+        );
+        const reference = new ReferenceBlockCipher(
+          keyMaterial,
+          rounds,
+          matrixSize,
+          cipherVersion
+        );
+
+        for (let i = 0; i < 5; i++) {
+          const block = crypto.randomBytes(blockSize);
+          const ciphertext = fast.encryptBlock(block);
+
+          expect(ciphertext).toEqual(reference.encryptBlock(block));
+          expect(fast.decryptBlock(ciphertext)).toEqual(block);
+          expect(reference.decryptBlock(ciphertext)).toEqual(block);
+        }
+      }
+    });
+  });
+
+  it('should match the reference implementation with a custom S-box', () => {
+    const sBox = generateKeyDependentSBox(crypto.randomBytes(32), {
+      maxDifferentialUniformity: 10,
+      minNonlinearity: 94,
+    });
+    const keyMaterial = crypto.randomBytes(40);
+    const fast = new BlockCipher(keyMaterial, 10, 4, 2, sBox);
+    const reference = new ReferenceBlockCipher(keyMaterial, 10, 4, 2, sBox);
+    const block = crypto.randomBytes(16);
+    const ciphertext = fast.encryptBlock(block);
+
+    expect(ciphertext).toEqual(reference.encryptBlock(block));
+    expect(ciphertext).not.toEqual(
+      new BlockCipher(keyMaterial, 10, 4, 2).encryptBlock(block)
+    );
+    expect(fast.decryptBlock(ciphertext)).toEqual(block);
+  });
+
+  it('should run reduced-round versions and trace every round', () => {
+    const cipher = new BlockCipher(crypto.randomBytes(40), 10, 4, 2);
+    const block = crypto.randomBytes(16);
+    const states = cipher.traceBlock(block);
+
+    expect(states).toHaveLength(10);
+    expect(states[9]).toEqual(cipher.encryptBlock(block));
+    states.forEach((state, r) => {
+      expect(cipher.encryptBlock(block, r + 1)).toEqual(state);
+    });
+    expect(() => cipher.encryptBlock(block, 11)).toThrow(
+      'Invalid round count: 11'
+    );
+  });
+
+  it('should encrypt in place without touching other blocks', () => {
+    const cipher = new BlockCipher(crypto.randomBytes(40), 10, 4, 2);
+    const block = crypto.randomBytes(16);
+    const state = Uint8Array.from(block);
+
+    cipher.encryptInPlace(state);
+    expect(Buffer.from(state)).toEqual(cipher.encryptBlock(block));
+
+    cipher.decryptInPlace(state);
+    expect(Buffer.from(state)).toEqual(block);
+  });
+});
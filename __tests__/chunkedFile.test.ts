@@ -0,0 +1,305 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { CHUNKED_HEADER_LENGTH, MTCv3ChunkedFile } from '../chunkedFile';
+import { MTCv3AuthenticationError, MTCv3FormatError } from '../MTCV3';
+
+const CHUNK_SIZE = 100;
+const STRIDE = CHUNK_SIZE + 32;
+
+const rawKey = (fill: number) => ({
+  kdf: { algorithm: 'raw' as const, key: Buffer.alloc(32, fill) },
+  chunkSize: CHUNK_SIZE,
+});
+
+// Function to cut a container into its header and chunks
+const split = (container: Buffer): [Buffer, Buffer[]] => {
+  const chunks: Buffer[] = [];
+  for (let i = CHUNKED_HEADER_LENGTH; i < container.length; i += STRIDE) {
+    chunks.push(container.subarray(i, i + STRIDE));
+  }
+  return [container.subarray(0, CHUNKED_HEADER_LENGTH), chunks];
+};
+
+describe('MTCv3ChunkedFile', () => {
+  const file = new MTCv3ChunkedFile('', 'salt', 10, 4, rawKey(1));
+  const plaintext = crypto.randomBytes(1050);
+  const container = file.encryptBytes(plaintext);
+
+  it('should round-trip data of every length around chunk boundaries', () => {
+    for (const length of [0, 1, 99, 100, 101, 200, 1050]) {
+      const data = plaintext.subarray(0, length);
+      const encrypted = file.encryptBytes(data);
+      const chunkCount = Math.max(1, Math.ceil(length / CHUNK_SIZE));
+
+      expect(encrypted.length).toBe(
+        CHUNKED_HEADER_LENGTH + length + 32 * chunkCount
+      );
+      expect(file.plaintextLength(encrypted)).toBe(length);
+      expect(file.decryptBytes(encrypted).equals(data)).toBe(true);
+    }
+  });
+
+  it('should use a fresh nonce for every container', () => {
+    const other = file.encryptBytes(plaintext);
+
+    expect(other.equals(container)).toBe(false);
+    expect(file.decryptBytes(other).equals(plaintext)).toBe(true);
+  });
+
+  it.each([
+    [0, 0],
+    [0, 1],
+    [99, 2],
+    [100, 100],
+    [150, 500],
+    [1000, 50],
+    [1049, 1],
+    [0, 1050],
+    [500, 0],
+  ])('should read the range at %d of length %d', (offset, length) => {
+    expect(
+      file
+        .readRange(container, offset, length)
+        .equals(plaintext.subarray(offset, offset + length))
+    ).toBe(true);
+  });
+
+  it('should only authenticate the chunks a range touches', () => {
+    const [, chunks] = split(container);
+    const modified = Buffer.from(container);
+    // Corrupt chunk 2; chunks 0, 1 and the final chunk stay readable
+    modified[CHUNKED_HEADER_LENGTH + 2 * STRIDE + 5] ^= 1;
+
+    expect(chunks).toHaveLength(11);
+    expect(
+      file.readRange(modified, 10, 150).equals(plaintext.subarray(10, 160))
+    ).toBe(true);
+    expect(() => file.readRange(modified, 150, 100)).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() => file.decryptBytes(modified)).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should detect reordered, duplicated and dropped chunks', () => {
+    const [header, chunks] = split(container);
+    const swapped = [chunks[1], chunks[0], ...chunks.slice(2)];
+    const duplicated = [chunks[0], chunks[0], ...chunks.slice(2)];
+    const dropped = [chunks[0], ...chunks.slice(2)];
+
+    for (const rearranged of [swapped, duplicated, dropped]) {
+      const modified = Buffer.concat([header, ...rearranged]);
+      expect(() => file.decryptBytes(modified)).toThrow(
+        MTCv3AuthenticationError
+      );
+      // Position 1 now holds a chunk sealed under another index
+      expect(() => file.readRange(modified, 100, 10)).toThrow(
+        MTCv3AuthenticationError
+      );
+    }
+    // Dropping a chunk also moves the final chunk to another index
+    expect(() =>
+      file.readRange(Buffer.concat([header, ...dropped]), 0, 10)
+    ).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should detect truncation, even at a chunk boundary', () => {
+    const atBoundary = container.subarray(
+      0,
+      container.length - ((container.length - CHUNKED_HEADER_LENGTH) % STRIDE)
+    );
+    const [, chunks] = split(atBoundary);
+
+    expect(chunks).toHaveLength(10);
+    expect(() => file.readRange(atBoundary, 0, 10)).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() => file.decryptBytes(container.subarray(0, -1))).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() =>
+      file.decryptBytes(container.subarray(0, CHUNKED_HEADER_LENGTH + 10))
+    ).toThrow(MTCv3AuthenticationError);
+    expect(() =>
+      file.decryptBytes(container.subarray(0, CHUNKED_HEADER_LENGTH))
+    ).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should detect chunks spliced from another container', () => {
+    const [header, chunks] = split(container);
+    const [, otherChunks] = split(file.encryptBytes(plaintext));
+    const spliced = Buffer.concat([header, otherChunks[0], ...chunks.slice(1)]);
+
+    expect(() => file.readRange(spliced, 0, 10)).toThrow(
+      MTCv3AuthenticationError
+    );
+  });
+
+  it('should fail with the wrong key or a modified header', () => {
+    const other = new MTCv3ChunkedFile('', 'salt', 10, 4, rawKey(2));
+    const modified = Buffer.from(container);
+    modified[CHUNKED_HEADER_LENGTH - 1] ^= 1;
+
+    expect(() => other.decryptBytes(container)).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() => file.decryptBytes(modified)).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should read containers written with another chunk size', () => {
+    const larger = new MTCv3ChunkedFile('', 'salt', 10, 4, {
+      ...rawKey(1),
+      chunkSize: 4096,
+    });
+    const encrypted = larger.encryptBytes(plaintext);
+
+    expect(encrypted.length).toBe(CHUNKED_HEADER_LENGTH + 1050 + 32);
+    expect(
+      file.readRange(encrypted, 300, 20).equals(plaintext.subarray(300, 320))
+    ).toBe(true);
+  });
+
+  it('should reject malformed headers and invalid ranges', () => {
+    const badMagic = Buffer.from(container);
+    badMagic[0] ^= 1;
+    const badVersion = Buffer.from(container);
+    badVersion[4] = 9;
+    const badChunkSize = Buffer.from(container);
+    badChunkSize.writeUInt32BE(0, 5);
+
+    expect(() => file.decryptBytes(container.subarray(0, 10))).toThrow(
+      MTCv3FormatError
+    );
+    expect(() => file.decryptBytes(badMagic)).toThrow(
+      'Invalid chunked file: missing magic header'
+    );
+    expect(() => file.decryptBytes(badVersion)).toThrow(
+      'Unsupported chunked file version: 9'
+    );
+    expect(() => file.decryptBytes(badChunkSize)).toThrow(
+      'Unsupported chunk size: 0'
+    );
+    expect(() => file.readRange(container, 1000, 51)).toThrow(
+      'Invalid plaintext range'
+    );
+    expect(() => file.readRange(container, -1, 1)).toThrow(
+      'Invalid plaintext range'
+    );
+  });
+
+  it('should reject invalid options', () => {
+    expect(
+      () =>
+        new MTCv3ChunkedFile('', 'salt', 10, 4, { ...rawKey(1), chunkSize: 0 })
+    ).toThrow('Chunk size must be an integer from 1 to 16777216');
+    expect(() => new MTCv3ChunkedFile('', 'salt', 10, 3, rawKey(1))).toThrow(
+      'Unsupported matrix size: 3'
+    );
+    expect(() => new MTCv3ChunkedFile('', 'salt', 0, 4, rawKey(1))).toThrow(
+      'Rounds must be an integer from 1 to 255'
+    );
+  });
+
+  it.each([2, 8])('should round-trip with matrix size %d', (matrixSize) => {
+    const small = new MTCv3ChunkedFile('', 'salt', 6, matrixSize, rawKey(1));
+    const encrypted = small.encryptBytes(plaintext);
+
+    expect(
+      small.readRange(encrypted, 250, 300).equals(plaintext.subarray(250, 550))
+    ).toBe(true);
+  });
+
+  describe('streams and files', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-chunked-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    // Function to collect a stream's output
+    const encryptStreamed = async (pieces: Buffer[]): Promise<Buffer> => {
+      const output: Buffer[] = [];
+      await pipeline(
+        Readable.from(pieces),
+        file.createEncryptStream(),
+        new Writable({
+          write(chunk, _encoding, callback) {
+            output.push(chunk);
+            callback();
+          },
+        })
+      );
+      return Buffer.concat(output);
+    };
+
+    it.each([
+      ['empty input', []],
+      ['one write', [plaintext]],
+      [
+        'uneven writes',
+        [
+          plaintext.subarray(0, 7),
+          plaintext.subarray(7, 333),
+          plaintext.subarray(333),
+        ],
+      ],
+      ['a whole number of chunks', [plaintext.subarray(0, 200)]],
+    ] as [string, Buffer[]][])(
+      'should stream-encrypt %s like encryptBytes',
+      async (_, pieces) => {
+        const expected = Buffer.concat(pieces);
+        const encrypted = await encryptStreamed(pieces);
+
+        expect(encrypted.length).toBe(file.encryptBytes(expected).length);
+        expect(file.decryptBytes(encrypted).equals(expected)).toBe(true);
+      }
+    );
+
+    it('should read ranges from a file', async () => {
+      const filePath = path.join(directory, 'data.mtcf');
+      await pipeline(
+        Readable.from([plaintext]),
+        file.createEncryptStream(),
+        fs.createWriteStream(filePath)
+      );
+
+      expect(await file.filePlaintextLength(filePath)).toBe(1050);
+      expect(
+        (await file.readFileRange(filePath, 420, 300)).equals(
+          plaintext.subarray(420, 720)
+        )
+      ).toBe(true);
+      expect(
+        (await file.readFileRange(filePath, 0, 1050)).equals(plaintext)
+      ).toBe(true);
+    });
+
+    it('should detect a truncated or tampered file', async () => {
+      const truncatedPath = path.join(directory, 'truncated.mtcf');
+      fs.writeFileSync(truncatedPath, container.subarray(0, -STRIDE + 32));
+      const tamperedPath = path.join(directory, 'tampered.mtcf');
+      const tampered = Buffer.from(container);
+      tampered[CHUNKED_HEADER_LENGTH + 3 * STRIDE] ^= 1;
+      fs.writeFileSync(tamperedPath, tampered);
+
+      await expect(file.readFileRange(truncatedPath, 0, 10)).rejects.toThrow(
+        MTCv3AuthenticationError
+      );
+      await expect(file.readFileRange(tamperedPath, 300, 10)).rejects.toThrow(
+        MTCv3AuthenticationError
+      );
+      expect(
+        (await file.readFileRange(tamperedPath, 0, 300)).equals(
+          plaintext.subarray(0, 300)
+        )
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import {
+  EXIT_CORRUPT_INPUT,
+  EXIT_SUCCESS,
+  EXIT_USAGE,
+  EXIT_WRONG_PASSWORD,
+  runCli,
+} from '../cli';
+
+interface RunOptions {
+  stdin?: Buffer | string;
+  env?: NodeJS.ProcessEnv;
+  passwords?: string[];
+}
+
+// Fast KDF settings so the tests do not spend their time in PBKDF2
+const FAST_KDF = ['--iterations', '1000'];
+
+async function run(args: string[], options: RunOptions = {}) {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const out: Buffer[] = [];
+  const err: Buffer[] = [];
+  stdout.on('data', (chunk) => out.push(chunk));
+  stderr.on('data', (chunk) => err.push(chunk));
+  const prompts: string[] = [];
+  const passwords = [...(options.passwords ?? [])];
+
+  const exitCode = await runCli(args, {
+    stdin: Readable.from(
+      options.stdin === undefined ? [] : [Buffer.from(options.stdin)]
+    ),
+    stdout,
+    stderr,
+    env: options.env ?? { MTCV3_PASSWORD: 'correct horse' },
+    promptPassword: async (prompt) => {
+      prompts.push(prompt);
+      return passwords.shift() ?? '';
+    },
+  });
+
+  return {
+    exitCode,
+    stdout: Buffer.concat(out),
+    stderr: Buffer.concat(err).toString('utf-8'),
+    prompts,
+  };
+}
+
+describe('mtcv3 CLI', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip stdin to stdout with the password from the environment', async () => {
+    const plaintext = Buffer.from('Confidential data for the ops team');
+
+    const encrypted = await run(['encrypt', ...FAST_KDF], { stdin: plaintext });
+    expect(encrypted.exitCode).toBe(EXIT_SUCCESS);
+    expect(encrypted.stdout.slice(0, 4).toString()).toBe('MTC3');
+
+    const decrypted = await run(['decrypt'], { stdin: encrypted.stdout });
+    expect(decrypted.exitCode).toBe(EXIT_SUCCESS);
+    expect(decrypted.stdout).toEqual(plaintext);
+  });
+
+  it('should round-trip files with a key file and custom parameters', async () => {
+    const input = path.join(dir, 'plain.bin');
+    const encryptedFile = path.join(dir, 'plain.bin.mtc');
+    const output = path.join(dir, 'plain.out');
+    const keyFile = path.join(dir, 'key.txt');
+    const plaintext = Buffer.alloc(100000, 'abc');
+    fs.writeFileSync(input, plaintext);
+    fs.writeFileSync(keyFile, 'file password\n');
+
+    const encrypted = await run(
+      [
+        'encrypt',
+        input,
+        '-o',
+        encryptedFile,
+        '--key-file',
+        keyFile,
+        '--rounds',
+        '12',
+        '--matrix-size',
+        '8',
+        '--mode',
+        'ctr',
+        ...FAST_KDF,
+      ],
+      { env: {} }
+    );
+    expect(encrypted.exitCode).toBe(EXIT_SUCCESS);
+
+    const decrypted = await run(
+      ['decrypt', encryptedFile, '-o', output, '--key-file', keyFile],
+      { env: {} }
+    );
+    expect(decrypted.exitCode).toBe(EXIT_SUCCESS);
+    expect(fs.readFileSync(output)).toEqual(plaintext);
+  });
+
+  it('should read the password from a named environment variable', async () => {
+    const env = { SECRET: 'from env' };
+    const encrypted = await run(
+      ['encrypt', '--password-env', 'SECRET', ...FAST_KDF],
+      { stdin: 'hello', env }
+    );
+    const decrypted = await run(['decrypt', '--password-env', 'SECRET'], {
+      stdin: encrypted.stdout,
+      env,
+    });
+
+    expect(decrypted.stdout.toString()).toBe('hello');
+  });
+
+  it('should warn when decrypting data without authentication', async () => {
+    const encrypted = await run(
+      ['encrypt', '--unauthenticated', '--mode', 'ctr', ...FAST_KDF],
+      { stdin: 'no tag' }
+    );
+    const wrongPassword = await run(['decrypt'], {
+      stdin: encrypted.stdout,
+      env: { MTCV3_PASSWORD: 'wrong' },
+    });
+    expect(wrongPassword.exitCode).toBe(EXIT_SUCCESS);
+    expect(wrongPassword.stdout.toString()).not.toBe('no tag');
+    expect(wrongPassword.stderr).toContain('the input is not authenticated');
+
+    const sealed = await run(['encrypt', ...FAST_KDF], { stdin: 'tagged' });
+    const decrypted = await run(['decrypt'], { stdin: sealed.stdout });
+    expect(decrypted.stdout.toString()).toBe('tagged');
+    expect(decrypted.stderr).toBe('');
+  });
+
+  it('should prompt for the password and confirm it when encrypting', async () => {
+    const encrypted = await run(['encrypt', ...FAST_KDF], {
+      stdin: 'prompted',
+      env: {},
+      passwords: ['typed', 'typed'],
+    });
+    expect(encrypted.exitCode).toBe(EXIT_SUCCESS);
+    expect(encrypted.prompts).toEqual(['Password: ', 'Confirm password: ']);
+
+    const decrypted = await run(['decrypt'], {
+      stdin: encrypted.stdout,
+      env: {},
+      passwords: ['typed'],
+    });
+    expect(decrypted.prompts).toEqual(['Password: ']);
+    expect(decrypted.stdout.toString()).toBe('prompted');
+
+    const mismatch = await run(['encrypt', ...FAST_KDF], {
+      stdin: 'prompted',
+      env: {},
+      passwords: ['typed', 'other'],
+    });
+    expect(mismatch.exitCode).toBe(EXIT_USAGE);
+    expect(mismatch.stderr).toContain('Passwords do not match');
+  });
+
+  it('should refuse passwords on the command line', async () => {
+    for (const args of [
+      ['encrypt', '--password', 'secret'],
+      ['encrypt', '--password=secret'],
+    ]) {
+      const result = await run(args, { stdin: 'data' });
+      expect(result.exitCode).toBe(EXIT_USAGE);
+      expect(result.stderr).toContain('not accepted on the command line');
+    }
+  });
+
+  it.each(['hex', 'base64', 'base64url'])(
+    'should write and read %s-encoded ciphertexts',
+    async (encoding) => {
+      const encrypted = await run(['encrypt', '-e', encoding, ...FAST_KDF], {
+        stdin: 'encoded',
+      });
+      const text = encrypted.stdout.toString();
+      expect(text.endsWith('\n')).toBe(true);
+      expect(
+        Buffer.from(text.trim(), encoding as BufferEncoding)
+          .slice(0, 4)
+          .toString()
+      ).toBe('MTC3');
+
+      const decrypted = await run(['decrypt', '-e', encoding], {
+        stdin: encrypted.stdout,
+      });
+      expect(decrypted.stdout.toString()).toBe('encoded');
+    }
+  );
+
+  it('should exit with the wrong-password code for a wrong password', async () => {
+    const encrypted = await run(['encrypt', ...FAST_KDF], { stdin: 'secret' });
+    const decrypted = await run(['decrypt'], {
+      stdin: encrypted.stdout,
+      env: { MTCV3_PASSWORD: 'wrong password' },
+    });
+
+    expect(decrypted.exitCode).toBe(EXIT_WRONG_PASSWORD);
+    expect(decrypted.stderr).toContain('wrong password');
+  });
+
+  it('should exit with the corrupt-input code for malformed ciphertexts', async () => {
+    const encrypted = await run(['encrypt', ...FAST_KDF], { stdin: 'secret' });
+    const badVersion = Buffer.from(encrypted.stdout);
+    badVersion[4] = 99;
+
+    for (const stdin of [
+      Buffer.from('definitely not a ciphertext'),
+      encrypted.stdout.slice(0, 10),
+      badVersion,
+    ]) {
+      const result = await run(['decrypt'], { stdin });
+      expect(result.exitCode).toBe(EXIT_CORRUPT_INPUT);
+    }
+  });
+
+  it('should not leave a partial output file behind on failure', async () => {
+    const encrypted = await run(['encrypt', ...FAST_KDF], { stdin: 'secret' });
+    const output = path.join(dir, 'out.txt');
+
+    const result = await run(['decrypt', '-o', output], {
+      stdin: encrypted.stdout,
+      env: { MTCV3_PASSWORD: 'wrong password' },
+    });
+    expect(result.exitCode).toBe(EXIT_WRONG_PASSWORD);
+    expect(fs.existsSync(output)).toBe(false);
+  });
+
+  it('should describe the envelope header with inspect', async () => {
+    const encrypted = await run(
+      ['encrypt', '-m', '2', '-r', '6', '--mode', 'ofb', ...FAST_KDF],
+      { stdin: 'inspect me' }
+    );
+    const inspected = await run(['inspect'], {
+      stdin: encrypted.stdout,
+      env: {},
+    });
+
+    expect(inspected.exitCode).toBe(EXIT_SUCCESS);
+    expect(inspected.prompts).toEqual([]);
+    const header = JSON.parse(inspected.stdout.toString());
+    expect(header).toMatchObject({
+      version: 1,
+      mode: 'ofb',
+      cipherVersion: 2,
+      authenticated: true,
+      rounds: 6,
+      matrixSize: 2,
+      blockSize: 4,
+      kdf: { algorithm: 'pbkdf2', hash: 'sha256', iterations: 1000 },
+    });
+    expect(header.iv).toHaveLength(8);
+  });
+
+  it('should encrypt with a key-dependent S-box', async () => {
+    const encrypted = await run(
+      ['encrypt', '--key-dependent-sbox', ...FAST_KDF],
+      { stdin: 'substituted' }
+    );
+    const inspected = await run(['inspect'], { stdin: encrypted.stdout });
+    const decrypted = await run(['decrypt'], { stdin: encrypted.stdout });
+
+    expect(JSON.parse(inspected.stdout.toString()).sBox).toEqual({
+      type: 'key-dependent',
+      maxDifferentialUniformity: 10,
+      minNonlinearity: 94,
+    });
+    expect(decrypted.stdout.toString()).toBe('substituted');
+  });
+
+  it('should reject invalid options with the usage code', async () => {
+    for (const args of [
+      [],
+      ['frobnicate'],
+      ['encrypt', '--matrix-size', '3'],
+      ['encrypt', '--rounds', 'ten'],
+      ['encrypt', '--rounds', '300'],
+      ['encrypt', '--kdf', 'bcrypt'],
+      ['encrypt', '--iterations', '0'],
+      ['encrypt', '--encoding', 'utf-16'],
+      ['encrypt', '--unknown'],
+    ]) {
+      const result = await run(args, { stdin: 'data' });
+      expect(result.exitCode).toBe(EXIT_USAGE);
+    }
+  });
+
+  it('should limit --rounds to what the header can record', async () => {
+    const result = await run(['encrypt', '--rounds', '256'], {
+      stdin: 'data',
+    });
+
+    expect(result.exitCode).toBe(EXIT_USAGE);
+    expect(result.stderr).toContain('--rounds must be at most 255');
+    expect(result.stdout.length).toBe(0);
+  });
+});
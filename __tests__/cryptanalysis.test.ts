@@ -0,0 +1,131 @@
+import {
+  analyzeCipher,
+  AnalysisOptions,
+  chiSquareUpperTail,
+} from '../helpers/cryptanalysis';
+
+// Small sample counts keep the suite fast; the seed makes every number fixed
+const options: AnalysisOptions = {
+  rounds: 6,
+  matrixSize: 4,
+  seed: 'test vectors',
+  avalancheSamples: 16,
+  differentialSamples: 256,
+  linearSamples: 4096,
+  frequencyBlocks: 512,
+};
+
+describe('cryptanalysis toolkit', () => {
+  const report = analyzeCipher(options);
+
+  it('should be reproducible from its seed', () => {
+    expect(analyzeCipher(options)).toEqual(report);
+    expect(analyzeCipher({ ...options, seed: 'other' })).not.toEqual(report);
+  });
+
+  it('should record the configuration it measured', () => {
+    expect(report.config).toEqual({
+      rounds: 6,
+      matrixSize: 4,
+      blockBits: 128,
+      cipherVersion: 2,
+      sBox: { type: 'aes' },
+      seed: 'test vectors',
+      avalancheSamples: 16,
+      differentialSamples: 256,
+      linearSamples: 4096,
+      frequencyBlocks: 512,
+    });
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it('should report a random seed when none is given', () => {
+    const { config } = analyzeCipher({
+      ...options,
+      seed: undefined,
+      rounds: 1,
+    });
+
+    expect(config.seed).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should show diffusion building up over the rounds', () => {
+    const [first, second, third] = report.diffusion;
+
+    expect(report.diffusion.map((round) => round.round)).toEqual([
+      1, 2, 3, 4, 5, 6,
+    ]);
+    expect(first.dependence).toBeLessThan(1);
+    expect(first.avalanche).toBeLessThan(second.avalanche);
+    expect(second.avalanche).toBeLessThan(third.avalanche);
+
+    // Full diffusion: every output bit depends on every input bit and flips
+    // about half the time
+    const last = report.diffusion[report.diffusion.length - 1];
+    expect(last.dependence).toBe(1);
+    expect(Math.abs(last.avalanche - 0.5)).toBeLessThan(0.01);
+    expect(last.sacMeanDeviation).toBeLessThan(report.noise.avalanche * 1.5);
+  });
+
+  it('should measure bit independence of the full cipher', () => {
+    const { bitIndependence } = report;
+
+    expect(bitIndependence.inputBits).toBe(128);
+    expect(bitIndependence.outputBits).toBe(64);
+    expect(bitIndependence.pairs).toBeGreaterThan(0);
+    expect(bitIndependence.meanCorrelation).toBeLessThan(0.3);
+    expect(bitIndependence.maxCorrelation).toBeLessThanOrEqual(1);
+  });
+
+  it('should find strong differentials in one round but not in the full cipher', () => {
+    for (const result of report.differential.results) {
+      const { rounds } = result;
+      expect(rounds).toHaveLength(6);
+      expect(rounds[0].maxProbability).toBe(1);
+      expect(rounds[5].maxProbability).toBeLessThan(0.05);
+    }
+  });
+
+  it('should keep single-bit linear biases at the sampling noise level', () => {
+    // The mixing layer already combines several S-box outputs in round one,
+    // so no single plaintext bit predicts a single output bit
+    expect(report.linear).toHaveLength(6);
+    for (const { maxBias } of report.linear) {
+      expect(maxBias).toBeLessThan(report.noise.linear * 5);
+    }
+  });
+
+  it('should report uniform byte frequencies for the full cipher', () => {
+    const { byteFrequency } = report;
+
+    expect(byteFrequency.bytes).toBe(512 * 16);
+    expect(byteFrequency.degreesOfFreedom).toBe(255);
+    expect(byteFrequency.entropy).toBeGreaterThan(7.9);
+    expect(byteFrequency.pValue).toBeGreaterThan(0.001);
+  });
+
+  it('should flag a single round as badly diffused', () => {
+    const weak = analyzeCipher({ ...options, rounds: 1 });
+
+    expect(weak.diffusion[0].avalanche).toBeLessThan(0.2);
+    expect(weak.byteFrequency.pValue).toBeLessThan(0.001);
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() => analyzeCipher({ matrixSize: 3 })).toThrow(
+      'Unsupported matrix size: 3'
+    );
+    expect(() => analyzeCipher({ rounds: 0 })).toThrow(
+      'rounds must be a positive integer'
+    );
+    expect(() => analyzeCipher({ cipherVersion: 7 })).toThrow(
+      'Unsupported cipher version: 7'
+    );
+  });
+
+  it('should approximate chi-square tail probabilities', () => {
+    expect(chiSquareUpperTail(255, 255)).toBeCloseTo(0.49, 1);
+    expect(chiSquareUpperTail(310.457, 255)).toBeCloseTo(0.01, 3);
+    expect(chiSquareUpperTail(1000, 255)).toBeLessThan(1e-6);
+  });
+});
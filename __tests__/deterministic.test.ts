@@ -0,0 +1,132 @@
+import {
+  MTCv3,
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+} from '../MTCV3';
+import { MTCv3Deterministic } from '../deterministic';
+
+const rawKey = (fill: number) => ({
+  kdf: { algorithm: 'raw' as const, key: Buffer.alloc(32, fill) },
+});
+
+describe('MTCv3Deterministic', () => {
+  const siv = new MTCv3Deterministic('', 'salt', 10, 4, rawKey(1));
+
+  it('should match the known-answer vector', () => {
+    expect(siv.encrypt('alice@example.com', 'users.email')).toBe(
+      '4d544344014d7386c7ea90c6b30d44aa342e73191f431ee01cd6ee0f9520eeebc0ffb0844b59d56aefb335505d64332121cc677fc34e'
+    );
+  });
+
+  it('should give equal ciphertexts for equal inputs', () => {
+    const other = new MTCv3Deterministic('', 'salt', 10, 4, rawKey(1));
+    const ciphertext = siv.encrypt('alice@example.com', 'users.email');
+
+    expect(siv.encrypt('alice@example.com', 'users.email')).toBe(ciphertext);
+    expect(other.encrypt('alice@example.com', 'users.email')).toBe(ciphertext);
+    expect(other.decrypt(ciphertext, 'users.email')).toBe('alice@example.com');
+  });
+
+  it('should give different ciphertexts for different inputs', () => {
+    const ciphertexts = new Set([
+      siv.encrypt('alice@example.com', 'users.email'),
+      siv.encrypt('alice@example.con', 'users.email'),
+      siv.encrypt('alice@example.com', 'users.backup_email'),
+      siv.encrypt('alice@example.com'),
+      new MTCv3Deterministic('', 'salt', 10, 4, rawKey(2)).encrypt(
+        'alice@example.com',
+        'users.email'
+      ),
+      new MTCv3Deterministic('', 'other salt', 10, 4, rawKey(1)).encrypt(
+        'alice@example.com',
+        'users.email'
+      ),
+    ]);
+    expect(ciphertexts.size).toBe(6);
+  });
+
+  it('should add a fixed 37-byte overhead', () => {
+    for (const length of [0, 1, 15, 16, 17, 100]) {
+      const data = Buffer.alloc(length, 0x61);
+      const ciphertext = siv.encryptBytes(data);
+      expect(ciphertext.length).toBe(37 + length);
+      expect(Buffer.from(siv.decryptBytes(ciphertext))).toEqual(data);
+    }
+  });
+
+  it.each([2, 4, 8, 16])('should round-trip with matrix size %i', (size) => {
+    const cipher = new MTCv3Deterministic('', 'salt', 6, size, rawKey(3));
+    const data = Buffer.from('x'.repeat(300));
+    expect(
+      Buffer.from(cipher.decryptBytes(cipher.encryptBytes(data, 'ad'), 'ad'))
+    ).toEqual(data);
+  });
+
+  it('should derive keys from a password', () => {
+    const kdf = { kdf: { algorithm: 'pbkdf2' as const, iterations: 1000 } };
+    const a = new MTCv3Deterministic('password', 'salt', 10, 4, kdf);
+    const b = new MTCv3Deterministic('password', 'salt', 10, 4, kdf);
+    expect(b.decrypt(a.encrypt('id-42'))).toBe('id-42');
+  });
+
+  it('should reject modified ciphertexts and the wrong associated data', () => {
+    const ciphertext = Buffer.from(
+      siv.encryptBytes(Buffer.from('id-42'), 'ad')
+    );
+
+    for (let i = 0; i < ciphertext.length; i++) {
+      const modified = Buffer.from(ciphertext);
+      modified[i] ^= 0x80;
+      expect(() => siv.decryptBytes(modified, 'ad')).toThrow(
+        MTCv3AuthenticationError
+      );
+    }
+    expect(() => siv.decryptBytes(ciphertext, 'other')).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() => siv.decryptBytes(ciphertext.subarray(0, 36), 'ad')).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() =>
+      new MTCv3Deterministic('', 'salt', 10, 4, rawKey(2)).decryptBytes(
+        ciphertext,
+        'ad'
+      )
+    ).toThrow(MTCv3AuthenticationError);
+    expect(() =>
+      new MTCv3Deterministic('', 'salt', 12, 4, rawKey(1)).decryptBytes(
+        ciphertext,
+        'ad'
+      )
+    ).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should not share keys or formats with the randomized API', () => {
+    const randomized = new MTCv3('', 'salt', 10, 4, rawKey(1));
+    const deterministic = siv.encrypt('hello');
+
+    expect(() => randomized.decrypt(deterministic)).toThrow(
+      MTCv3DecryptionError
+    );
+    expect(() => siv.decrypt(randomized.seal('hello'))).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(randomized.encrypt('hello')).not.toBe(randomized.encrypt('hello'));
+  });
+
+  it('should validate its parameters', () => {
+    expect(() => new MTCv3Deterministic('', 'salt', 10, 3, rawKey(1))).toThrow(
+      'Unsupported matrix size: 3'
+    );
+    expect(
+      () =>
+        new MTCv3Deterministic('', 'salt', 10, 4, {
+          ...rawKey(1),
+          cipherVersion: 7,
+        })
+    ).toThrow('Unsupported cipher version: 7');
+    expect(() => new MTCv3Deterministic('', 'salt', 256, 4, rawKey(1))).toThrow(
+      'Rounds must be an integer from 1 to 255'
+    );
+  });
+});
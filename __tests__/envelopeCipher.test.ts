@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MTCv3AuthenticationError,
+  MTCv3FormatError,
+  MTCv3UnknownKeyError,
+} from '../MTCV3';
+import {
+  MTCv3EnvelopeCipher,
+  parseDataKeyEnvelope,
+  serializeDataKeyEnvelope,
+} from '../envelopeCipher';
+import { BlockCipher } from '../helpers/blockCipher';
+import { parseEnvelope } from '../helpers/envelope';
+import {
+  KekProvider,
+  LocalKekProvider,
+  WrappedKey,
+} from '../helpers/kekProvider';
+import { unwrapKey, WrappingCipher, wrapKey } from '../helpers/keyWrap';
+
+// AES-128 as a WrappingCipher, to check the construction against RFC 3394
+function aesCipher(key: Buffer): WrappingCipher {
+  const run = (decipher: boolean, block: Uint8Array): Buffer => {
+    const cipher = decipher
+      ? crypto.createDecipheriv('aes-128-ecb', key, null)
+      : crypto.createCipheriv('aes-128-ecb', key, null);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(block), cipher.final()]);
+  };
+  return {
+    blockSize: 16,
+    encryptBlock: (block) => run(false, block),
+    decryptBlock: (block) => run(true, block),
+  };
+}
+
+describe('key wrap', () => {
+  const kek = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it('should match the RFC 3394 test vector when built on AES', () => {
+    const key = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+    const wrapped = wrapKey(aesCipher(kek), key);
+    expect(wrapped.toString('hex')).toBe(
+      '1fa68b0a8112b447aef34bd8fb5a7b829d3e862371d2cfe5'
+    );
+    expect(unwrapKey(aesCipher(kek), wrapped)).toEqual(key);
+  });
+
+  it.each([
+    [2, 32],
+    [4, 32],
+    [8, 64],
+    [16, 256],
+  ])(
+    'should round-trip with a %i-wide MTCv3 block cipher and a %i-byte key',
+    (matrixSize, keyLength) => {
+      const cipher = new BlockCipher(
+        crypto.randomBytes(10 * matrixSize),
+        10,
+        matrixSize,
+        2
+      );
+      const key = crypto.randomBytes(keyLength);
+      const wrapped = wrapKey(cipher, key);
+
+      expect(wrapped.length).toBe(keyLength + cipher.blockSize / 2);
+      expect(unwrapKey(cipher, wrapped)).toEqual(key);
+    }
+  );
+
+  it('should detect modification and the wrong KEK', () => {
+    const cipher = new BlockCipher(Buffer.alloc(40, 1), 10, 4, 2);
+    const wrapped = wrapKey(cipher, Buffer.alloc(32, 7));
+
+    for (let i = 0; i < wrapped.length; i++) {
+      const modified = Buffer.from(wrapped);
+      modified[i] ^= 0x01;
+      expect(() => unwrapKey(cipher, modified)).toThrow(
+        MTCv3AuthenticationError
+      );
+    }
+    const other = new BlockCipher(Buffer.alloc(40, 2), 10, 4, 2);
+    expect(() => unwrapKey(other, wrapped)).toThrow(MTCv3AuthenticationError);
+    expect(() => unwrapKey(cipher, wrapped.subarray(0, 16))).toThrow(
+      MTCv3AuthenticationError
+    );
+  });
+
+  it('should reject keys that are not whole semiblocks', () => {
+    const cipher = new BlockCipher(Buffer.alloc(40, 1), 10, 4, 2);
+    expect(() => wrapKey(cipher, Buffer.alloc(8))).toThrow(
+      'Invalid key length'
+    );
+    expect(() => wrapKey(cipher, Buffer.alloc(20))).toThrow(
+      'Invalid key length'
+    );
+  });
+});
+
+describe('LocalKekProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-kek-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should wrap with the active KEK and unwrap with any KEK', async () => {
+    const provider = new LocalKekProvider();
+    provider.addKek('kek-1', Buffer.alloc(32, 1));
+    provider.addKek('kek-2', Buffer.alloc(32, 2));
+    const dataKey = crypto.randomBytes(32);
+
+    const first = await provider.wrapKey(dataKey);
+    provider.setActive('kek-2');
+    const second = await provider.wrapKey(dataKey);
+
+    expect([first.kekId, second.kekId]).toEqual(['kek-1', 'kek-2']);
+    expect(await provider.unwrapKey(first)).toEqual(dataKey);
+    expect(await provider.unwrapKey(second)).toEqual(dataKey);
+    await expect(
+      provider.unwrapKey({ ...first, kekId: 'kek-2' })
+    ).rejects.toThrow(MTCv3AuthenticationError);
+    await expect(
+      provider.unwrapKey({ ...first, kekId: 'kek-3' })
+    ).rejects.toThrow(MTCv3UnknownKeyError);
+  });
+
+  it('should validate KEKs', async () => {
+    const provider = new LocalKekProvider();
+    await expect(provider.wrapKey(Buffer.alloc(32))).rejects.toThrow(
+      'KEK provider has no active KEK'
+    );
+    expect(() => provider.addKek('short', Buffer.alloc(8))).toThrow(
+      'KEK must be at least 16 bytes'
+    );
+    provider.generateKek('kek');
+    expect(() => provider.generateKek('kek')).toThrow('KEK already exists');
+    expect(() => provider.setActive('missing')).toThrow('Unknown KEK ID');
+  });
+
+  it('should persist KEKs to a file', async () => {
+    const provider = new LocalKekProvider();
+    provider.generateKek('kek-1');
+    provider.generateKek('kek-2');
+    provider.setActive('kek-2');
+    const wrapped = await provider.wrapKey(Buffer.alloc(32, 9));
+
+    const file = path.join(dir, 'kek.json');
+    await provider.save(file);
+    const loaded = await LocalKekProvider.load(file);
+
+    expect(loaded.kekIds()).toEqual(['kek-1', 'kek-2']);
+    expect(loaded.activeKekId).toBe('kek-2');
+    expect(await loaded.unwrapKey(wrapped)).toEqual(Buffer.alloc(32, 9));
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should reject malformed KEK files', async () => {
+    const cases = [
+      'not json',
+      JSON.stringify({ format: 'mtcv3-keystore', version: 1 }),
+      JSON.stringify({ format: 'mtcv3-kek', version: 9, keks: [] }),
+      JSON.stringify({ format: 'mtcv3-kek', version: 1, keks: [{ id: 'a' }] }),
+      JSON.stringify({
+        format: 'mtcv3-kek',
+        version: 1,
+        active: 'b',
+        keks: [{ id: 'a', key: '00'.repeat(32) }],
+      }),
+    ];
+    for (const [i, json] of cases.entries()) {
+      const file = path.join(dir, `kek-${i}.json`);
+      fs.writeFileSync(file, json);
+      await expect(LocalKekProvider.load(file)).rejects.toThrow(
+        MTCv3FormatError
+      );
+    }
+  });
+});
+
+describe('MTCv3EnvelopeCipher', () => {
+  let provider: LocalKekProvider;
+  let cipher: MTCv3EnvelopeCipher;
+
+  beforeEach(() => {
+    provider = new LocalKekProvider();
+    provider.addKek('kek-1', Buffer.alloc(32, 1));
+    cipher = new MTCv3EnvelopeCipher(provider);
+  });
+
+  it('should round-trip strings and bytes', async () => {
+    const ciphertext = await cipher.encrypt('hello', 'ad', {
+      encoding: 'base64',
+    });
+    expect(await cipher.decrypt(ciphertext, 'ad', { encoding: 'base64' })).toBe(
+      'hello'
+    );
+
+    const data = crypto.randomBytes(1000);
+    expect(
+      Buffer.from(await cipher.decryptBytes(await cipher.encryptBytes(data)))
+    ).toEqual(data);
+  });
+
+  it('should use a fresh data key for every object', async () => {
+    const a = parseDataKeyEnvelope(
+      Buffer.from(await cipher.encryptBytes(Buffer.from('same')))
+    );
+    const b = parseDataKeyEnvelope(
+      Buffer.from(await cipher.encryptBytes(Buffer.from('same')))
+    );
+    expect(a.kekId).toBe('kek-1');
+    expect(a.wrappedKey).not.toEqual(b.wrappedKey);
+    expect(parseEnvelope(a.payload).header).toMatchObject({
+      authenticated: true,
+      kdf: { algorithm: 'raw' },
+    });
+  });
+
+  it('should pass the MTCv3 options to the payload', async () => {
+    const custom = new MTCv3EnvelopeCipher(provider, {
+      rounds: 6,
+      matrixSize: 8,
+      mode: 'ctr',
+    });
+    const { payload } = parseDataKeyEnvelope(
+      Buffer.from(await custom.encryptBytes(Buffer.from('hello')))
+    );
+    expect(parseEnvelope(payload).header).toMatchObject({
+      rounds: 6,
+      matrixSize: 8,
+      mode: 'ctr',
+    });
+    expect(await custom.decrypt(await custom.encrypt('x'))).toBe('x');
+    expect(() => new MTCv3EnvelopeCipher(provider, { rounds: 0 })).toThrow(
+      'Rounds must be an integer from 1 to 255'
+    );
+  });
+
+  it('should reject modified objects and the wrong associated data', async () => {
+    const sealed = Buffer.from(
+      await cipher.encryptBytes(Buffer.from('hello'), 'ad')
+    );
+    const envelope = parseDataKeyEnvelope(sealed);
+
+    await expect(cipher.decryptBytes(sealed, 'other')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+
+    const badKey = Buffer.from(envelope.wrappedKey);
+    badKey[0] ^= 1;
+    await expect(
+      cipher.decryptBytes(
+        serializeDataKeyEnvelope({ ...envelope, wrappedKey: badKey }),
+        'ad'
+      )
+    ).rejects.toThrow(MTCv3AuthenticationError);
+
+    const badPayload = Buffer.from(sealed);
+    badPayload[badPayload.length - 1] ^= 1;
+    await expect(cipher.decryptBytes(badPayload, 'ad')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+  });
+
+  it('should reject malformed envelopes', async () => {
+    const sealed = Buffer.from(await cipher.encryptBytes(Buffer.from('x')));
+    for (const data of [
+      Buffer.from('MTC3'),
+      Buffer.concat([Buffer.from('MTCK'), Buffer.from([2])]),
+      sealed.subarray(0, 8),
+    ]) {
+      await expect(cipher.decryptBytes(data)).rejects.toThrow(MTCv3FormatError);
+    }
+  });
+
+  it('should rewrap data keys under a rotated KEK', async () => {
+    const sealed = await cipher.encryptBytes(Buffer.from('record'), 'ad');
+    provider.addKek('kek-2', Buffer.alloc(32, 2));
+    provider.setActive('kek-2');
+
+    const rewrapped = Buffer.from(await cipher.rewrap(sealed));
+    const before = parseDataKeyEnvelope(Buffer.from(sealed));
+    const after = parseDataKeyEnvelope(rewrapped);
+    expect(after.kekId).toBe('kek-2');
+    expect(after.payload).toEqual(before.payload);
+
+    const onlyNewKek = new LocalKekProvider();
+    onlyNewKek.addKek('kek-2', Buffer.alloc(32, 2));
+    const rotated = new MTCv3EnvelopeCipher(onlyNewKek);
+    expect(
+      Buffer.from(await rotated.decryptBytes(rewrapped, 'ad')).toString()
+    ).toBe('record');
+    await expect(rotated.decryptBytes(sealed, 'ad')).rejects.toThrow(
+      MTCv3UnknownKeyError
+    );
+  });
+
+  it('should work with any KekProvider implementation', async () => {
+    // A stand-in for a remote KMS that hands out wrapped keys asynchronously
+    const kms = new LocalKekProvider();
+    kms.addKek('remote', Buffer.alloc(32, 5));
+    const calls: string[] = [];
+    const remote: KekProvider = {
+      wrapKey: async (dataKey: Buffer) => {
+        calls.push('wrap');
+        return kms.wrapKey(dataKey);
+      },
+      unwrapKey: async (wrapped: WrappedKey) => {
+        calls.push(`unwrap ${wrapped.kekId}`);
+        return kms.unwrapKey(wrapped);
+      },
+    };
+
+    const remoteCipher = new MTCv3EnvelopeCipher(remote);
+    const ciphertext = await remoteCipher.encrypt('hello');
+    expect(await remoteCipher.decrypt(ciphertext)).toBe('hello');
+    expect(calls).toEqual(['wrap', 'unwrap remote']);
+  });
+});
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  MTCv3,
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3Error,
+  MTCv3FormatError,
+} from '../MTCV3';
+import { pad, paddingLength, unpad } from '../helpers/encryptionUtils';
+import { parseEnvelope } from '../helpers/envelope';
+
+// Straightforward PKCS#7 check the constant-time version must agree with
+function referencePaddingLength(data: Buffer, blockSize: number): number {
+  if (data.length === 0) {
+    return 0;
+  }
+  const lastByte = data[data.length - 1];
+  const padding = lastByte === 0 && blockSize === 256 ? 256 : lastByte;
+  if (padding === 0 || padding > data.length || padding > blockSize) {
+    return 0;
+  }
+  for (let i = data.length - padding; i < data.length; i++) {
+    if (data[i] !== lastByte) {
+      return 0;
+    }
+  }
+  return padding;
+}
+
+// Random data whose last bytes are often, but not always, valid padding
+function randomPaddedData(blockSize: number): Buffer {
+  const data = crypto.randomBytes(blockSize * (1 + crypto.randomInt(3)));
+  const padding = 1 + crypto.randomInt(blockSize);
+  data.fill(padding & 0xff, data.length - padding);
+  if (crypto.randomInt(2) === 0) {
+    data[data.length - 1 - crypto.randomInt(padding)] ^=
+      1 + crypto.randomInt(255);
+  }
+  return data;
+}
+
+// Collect the error thrown by a function
+function errorOf(fn: () => unknown): Error | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error as Error;
+  }
+  return undefined;
+}
+
+async function streamErrorOf(
+  mtc: MTCv3,
+  data: Buffer,
+  authenticated: boolean
+): Promise<Error | undefined> {
+  try {
+    await pipeline(
+      Readable.from([data]),
+      mtc.createDecryptStream({ authenticated }),
+      new Writable({ write: (_chunk, _encoding, callback) => callback() })
+    );
+  } catch (error) {
+    return error as Error;
+  }
+  return undefined;
+}
+
+// Properties paddingLength reads from data, in order
+function readsOf(data: Uint8Array, blockSize: number): PropertyKey[] {
+  const reads: PropertyKey[] = [];
+  const tracked = new Proxy(data, {
+    get(target, key) {
+      reads.push(key);
+      return Reflect.get(target, key);
+    },
+  });
+  paddingLength(tracked, blockSize);
+  return reads;
+}
+
+describe('error hierarchy', () => {
+  it('should derive every error from MTCv3Error', () => {
+    expect(new MTCv3AuthenticationError()).toBeInstanceOf(MTCv3DecryptionError);
+    expect(new MTCv3DecryptionError()).toBeInstanceOf(MTCv3Error);
+    expect(new MTCv3FormatError('bad')).toBeInstanceOf(MTCv3Error);
+    expect(new MTCv3Error('x')).toBeInstanceOf(Error);
+  });
+
+  it('should name errors after their class', () => {
+    expect(new MTCv3DecryptionError().name).toBe('MTCv3DecryptionError');
+    expect(new MTCv3AuthenticationError().name).toBe(
+      'MTCv3AuthenticationError'
+    );
+    expect(new MTCv3DecryptionError().message).toBe('Decryption failed');
+    expect(new MTCv3AuthenticationError().message).toBe(
+      'Authentication failed'
+    );
+  });
+
+  it('should report malformed envelope headers as format errors', () => {
+    const mtc = new MTCv3('password', 'salt', 10, 4, {
+      kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+    });
+    const ciphertext = Buffer.from(mtc.encryptBytes(Buffer.from('data')));
+    ciphertext[4] = 99;
+
+    expect(() => parseEnvelope(ciphertext)).toThrow(MTCv3FormatError);
+    expect(() => mtc.decryptBytes(ciphertext)).toThrow(MTCv3FormatError);
+  });
+});
+
+describe('constant-time padding validation', () => {
+  it.each([4, 16, 64, 256])(
+    'should agree with a reference check for %i-byte blocks',
+    (blockSize) => {
+      for (let i = 0; i < 2000; i++) {
+        const data = randomPaddedData(blockSize);
+        expect(paddingLength(data, blockSize)).toBe(
+          referencePaddingLength(data, blockSize)
+        );
+      }
+    }
+  );
+
+  it('should accept every valid padding length', () => {
+    for (const blockSize of [4, 16, 64, 256]) {
+      for (let length = 0; length < blockSize; length++) {
+        const data = crypto.randomBytes(length);
+        expect(unpad(pad(data, blockSize), blockSize)).toEqual(data);
+      }
+    }
+  });
+
+  it('should reject empty and over-long padding', () => {
+    expect(paddingLength(Buffer.alloc(0), 16)).toBe(0);
+    expect(paddingLength(Buffer.from([0]), 16)).toBe(0);
+    expect(paddingLength(Buffer.from([17]), 16)).toBe(0);
+    expect(paddingLength(Buffer.from([3, 3]), 16)).toBe(0);
+    expect(paddingLength(Buffer.alloc(255, 0), 256)).toBe(0);
+  });
+
+  it('should raise the same error for every kind of invalid padding', () => {
+    const invalid = [
+      Buffer.alloc(0),
+      Buffer.from('data\x00'),
+      Buffer.from('data\x11'),
+      Buffer.from('data\x04\x03\x04\x04'),
+      Buffer.from('\x05\x05\x05\x05'),
+    ];
+
+    for (const data of invalid) {
+      const error = errorOf(() => unpad(data, 16));
+      expect(error).toBeInstanceOf(MTCv3DecryptionError);
+      expect(error?.message).toBe('Decryption failed');
+    }
+  });
+
+  it('should read the same bytes whatever the padding contains', () => {
+    const blockSize = 256;
+    const valid = pad(crypto.randomBytes(10), blockSize);
+    const fullPadding = Buffer.alloc(blockSize, 0);
+    const zeroValue = Buffer.from(crypto.randomBytes(blockSize));
+    zeroValue[blockSize - 1] = 0;
+    zeroValue[blockSize - 2] = 1;
+    // A forward scan stops at the first padding byte, or near the last one
+    const earlyMismatch = Buffer.alloc(blockSize, 200);
+    earlyMismatch[blockSize - 200] = 199;
+    const lateMismatch = Buffer.alloc(blockSize, 200);
+    lateMismatch[blockSize - 2] = 199;
+    const expected = readsOf(valid, blockSize);
+
+    // An early-exit check would stop reading at the first mismatch
+    expect(expected).toHaveLength(blockSize + 2);
+    for (const data of [fullPadding, zeroValue, earlyMismatch, lateMismatch]) {
+      expect(readsOf(data, blockSize)).toEqual(expected);
+    }
+  });
+});
+
+describe('uniform decryption errors', () => {
+  const fastKdf = { algorithm: 'pbkdf2' as const, iterations: 1000 };
+  const mtc = new MTCv3('password', 'salt', 10, 4, { kdf: fastKdf });
+  const other = new MTCv3('other password', 'salt', 10, 4, { kdf: fastKdf });
+  const header = Buffer.from(mtc.encryptBytes(Buffer.alloc(0))).slice(0, -16);
+  const sealedHeader = Buffer.from(mtc.sealBytes(Buffer.alloc(0))).slice(
+    0,
+    -48
+  );
+
+  it('should raise the same error for random ciphertexts', () => {
+    let failures = 0;
+    for (let i = 0; i < 300; i++) {
+      const payload = crypto.randomBytes(crypto.randomInt(80));
+      const envelope = Buffer.concat([header, payload]);
+
+      for (const data of [envelope, payload]) {
+        const error = errorOf(() => mtc.decryptBytes(data));
+        if (error !== undefined) {
+          failures++;
+          expect(error).toBeInstanceOf(MTCv3DecryptionError);
+          expect(error.message).toBe('Decryption failed');
+        }
+      }
+    }
+    expect(failures).toBeGreaterThan(500);
+  });
+
+  it('should raise the same error for a wrong key and a bad length', () => {
+    const ciphertext = Buffer.from(mtc.encryptBytes(Buffer.from('secret')));
+    const wrongKey = errorOf(() => other.decryptBytes(ciphertext));
+    const truncated = errorOf(() => mtc.decryptBytes(ciphertext.slice(0, -1)));
+
+    // A wrong key yields valid padding about once in 256 tries
+    if (wrongKey !== undefined) {
+      expect(wrongKey).toEqual(truncated);
+    }
+    expect(truncated).toBeInstanceOf(MTCv3DecryptionError);
+  });
+
+  it('should raise the same error for random sealed data', () => {
+    for (let i = 0; i < 300; i++) {
+      const payload = crypto.randomBytes(crypto.randomInt(100));
+
+      for (const data of [Buffer.concat([sealedHeader, payload]), payload]) {
+        const error = errorOf(() => mtc.openBytes(data));
+        expect(error).toBeInstanceOf(MTCv3AuthenticationError);
+        expect(error?.message).toBe('Authentication failed');
+      }
+    }
+  });
+
+  it('should raise the same errors from decryption streams', async () => {
+    for (let i = 0; i < 50; i++) {
+      const payload = crypto.randomBytes(16 + crypto.randomInt(64));
+
+      const error = await streamErrorOf(
+        mtc,
+        Buffer.concat([header, payload]),
+        false
+      );
+      if (error !== undefined) {
+        expect(error).toBeInstanceOf(MTCv3DecryptionError);
+        expect(error.message).toBe('Decryption failed');
+      }
+
+      const sealedError = await streamErrorOf(
+        mtc,
+        Buffer.concat([sealedHeader, payload]),
+        true
+      );
+      expect(sealedError).toBeInstanceOf(MTCv3AuthenticationError);
+    }
+  });
+});
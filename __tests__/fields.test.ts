@@ -0,0 +1,187 @@
+import { MTCv3, MTCv3AuthenticationError, MTCv3FormatError } from '../MTCV3';
+import { parseFieldPath, transformFields } from '../helpers/fields';
+
+describe('field-level encryption', () => {
+  const mtc = new MTCv3('', 'salt', 10, 4, {
+    kdf: { algorithm: 'raw', key: Buffer.alloc(32, 1) },
+  });
+
+  const document = () => ({
+    id: 42,
+    user: { name: 'Alice', ssn: '123-45-6789', age: 37, verified: true },
+    payment: {
+      card: { number: '4111111111111111', expiry: { month: 12, year: 2030 } },
+    },
+    contacts: [
+      { type: 'email', value: 'alice@example.com' },
+      { type: 'phone', value: '+1 555 0100' },
+    ],
+    tags: ['a', 'b'],
+    notes: null,
+  });
+
+  it('should encrypt only the selected fields', () => {
+    const encrypted = mtc.encryptFields(document(), [
+      'user.ssn',
+      'payment.card.number',
+    ]);
+
+    expect(encrypted).toMatchObject({
+      id: 42,
+      user: { name: 'Alice', age: 37, verified: true },
+      payment: { card: { expiry: { month: 12, year: 2030 } } },
+    });
+    const { user, payment } = encrypted as any;
+    expect(user.ssn).toMatch(/^[0-9a-f]+$/);
+    expect(payment.card.number).toMatch(/^[0-9a-f]+$/);
+    expect(
+      mtc.decryptFields(encrypted, ['user.ssn', 'payment.card.number'])
+    ).toEqual(document());
+  });
+
+  it('should preserve the type of every JSON value', () => {
+    const paths = [
+      'id',
+      'user.age',
+      'user.verified',
+      'payment.card.expiry',
+      'tags',
+      'notes',
+    ];
+    const encrypted = mtc.encryptFields(document(), paths);
+
+    for (const value of [
+      encrypted.id,
+      (encrypted as any).user.age,
+      (encrypted as any).user.verified,
+      (encrypted as any).payment.card.expiry,
+      encrypted.tags,
+      encrypted.notes,
+    ]) {
+      expect(typeof value).toBe('string');
+    }
+    expect(mtc.decryptFields(encrypted, paths)).toEqual(document());
+  });
+
+  it('should expand wildcards over arrays', () => {
+    const encrypted = mtc.encryptFields(document(), ['contacts.*.value']);
+    const contacts = encrypted.contacts as { type: string; value: string }[];
+
+    expect(contacts.map((contact) => contact.type)).toEqual(['email', 'phone']);
+    expect(contacts[0].value).not.toBe('alice@example.com');
+    expect(mtc.decryptFields(encrypted, ['contacts.*.value'])).toEqual(
+      document()
+    );
+  });
+
+  it('should support wildcards over arrays at the root', () => {
+    const rows = [{ ssn: '1' }, { ssn: '2' }, { other: true }];
+    const encrypted = mtc.encryptFields<typeof rows>(rows, ['*.ssn']);
+
+    expect(Array.isArray(encrypted)).toBe(true);
+    expect(encrypted[2]).toEqual({ other: true });
+    expect(mtc.decryptFields(encrypted, ['*.ssn'])).toEqual(rows);
+  });
+
+  it('should not mutate the input', () => {
+    const input = document();
+    const encrypted = mtc.encryptFields(input, [
+      'user.ssn',
+      'contacts.*.value',
+    ]);
+    expect(input).toEqual(document());
+
+    const decrypted = mtc.decryptFields<ReturnType<typeof document>>(
+      encrypted,
+      ['user.ssn', 'contacts.*.value']
+    );
+    expect(encrypted.user).not.toBe(decrypted.user);
+    expect((encrypted as any).user.ssn).not.toBe('123-45-6789');
+
+    // The output shares no objects with the input
+    expect(encrypted.payment).not.toBe(input.payment);
+  });
+
+  it('should skip missing fields', () => {
+    const encrypted = mtc.encryptFields(document(), [
+      'user.passport',
+      'payment.bank.iban',
+      'user.name.first',
+      'missing.*.value',
+    ]);
+    expect(encrypted).toEqual(document());
+  });
+
+  it('should bind each value to its field path', () => {
+    const encrypted = mtc.encryptFields(document(), [
+      'user.ssn',
+      'user.name',
+      'contacts.*.value',
+    ]) as any;
+
+    const swapped = structuredClone(encrypted);
+    [swapped.user.ssn, swapped.user.name] = [
+      encrypted.user.name,
+      encrypted.user.ssn,
+    ];
+    expect(() => mtc.decryptFields(swapped, ['user.ssn'])).toThrow(
+      MTCv3AuthenticationError
+    );
+
+    const reordered = structuredClone(encrypted);
+    reordered.contacts.reverse();
+    expect(() => mtc.decryptFields(reordered, ['contacts.*.value'])).toThrow(
+      MTCv3AuthenticationError
+    );
+  });
+
+  it('should bind values to the caller-supplied context', () => {
+    const encrypted = mtc.encryptFields(document(), ['user.ssn'], {
+      associatedData: 'record 42',
+      encoding: 'base64',
+    });
+
+    expect(
+      mtc.decryptFields(encrypted, ['user.ssn'], {
+        associatedData: 'record 42',
+        encoding: 'base64',
+      })
+    ).toEqual(document());
+    expect(() =>
+      mtc.decryptFields(encrypted, ['user.ssn'], {
+        associatedData: 'record 43',
+        encoding: 'base64',
+      })
+    ).toThrow(MTCv3AuthenticationError);
+  });
+
+  it('should reject fields that do not hold encrypted values', () => {
+    expect(() => mtc.decryptFields(document(), ['user.age'])).toThrow(
+      new MTCv3FormatError('Field is not an encrypted value: user.age')
+    );
+    expect(() => mtc.decryptFields(document(), ['user.ssn'])).toThrow(
+      MTCv3AuthenticationError
+    );
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => mtc.encryptFields(document(), ['user..ssn'])).toThrow(
+      'Invalid field path: user..ssn'
+    );
+    expect(() => parseFieldPath('')).toThrow('Invalid field path');
+    expect(parseFieldPath('a.*.b')).toEqual(['a', '*', 'b']);
+  });
+
+  it('should report the concrete path of every match', () => {
+    const seen: string[] = [];
+    transformFields(
+      document(),
+      ['contacts.*.type', 'user.age'],
+      (value, path) => {
+        seen.push(path.join('.'));
+        return value;
+      }
+    );
+    expect(seen).toEqual(['contacts.0.type', 'contacts.1.type', 'user.age']);
+  });
+});
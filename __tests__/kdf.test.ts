@@ -0,0 +1,179 @@
+import { MTCv3, MTCv3AuthenticationError, MTCv3FormatError } from '../MTCV3';
+import { parseEnvelope } from '../helpers/envelope';
+import { KdfOptions } from '../helpers/kdf';
+
+describe('key derivation', () => {
+  const password = 'strongpassword';
+  const salt = 'somesalt';
+  const rawKey = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  const headerOf = (ciphertextHex: string) =>
+    parseEnvelope(Buffer.from(ciphertextHex, 'hex')).header;
+
+  describe.each([
+    [
+      'PBKDF2-SHA512',
+      { algorithm: 'pbkdf2', hash: 'sha512', iterations: 1000 },
+      { algorithm: 'pbkdf2', hash: 'sha512', iterations: 1000 },
+    ],
+    [
+      'scrypt',
+      { algorithm: 'scrypt', N: 1024, r: 8, p: 1 },
+      { algorithm: 'scrypt', N: 1024, r: 8, p: 1 },
+    ],
+    ['a raw key', { algorithm: 'raw', key: rawKey }, { algorithm: 'raw' }],
+  ] as [string, KdfOptions, object][])('%s', (_name, kdf, recorded) => {
+    it('should round-trip and record its parameters', () => {
+      const mtc = new MTCv3(password, salt, 10, 4, { kdf });
+      const ciphertext = mtc.encrypt('HELLO WORLD');
+
+      expect(headerOf(ciphertext).kdf).toEqual(recorded);
+      expect(mtc.decrypt(ciphertext)).toBe('HELLO WORLD');
+      expect(mtc.open(mtc.seal('sealed'))).toBe('sealed');
+    });
+
+    it('should derive the same keys asynchronously with create()', async () => {
+      const iv = Buffer.alloc(16, 1);
+      const created = await MTCv3.create(password, salt, { kdf });
+      const constructed = new MTCv3(password, salt, 10, 4, { kdf });
+
+      expect(created.encrypt('same', { iv })).toBe(
+        constructed.encrypt('same', { iv })
+      );
+    });
+  });
+
+  it('should default to PBKDF2-SHA256 with 100000 iterations', async () => {
+    const mtc = await MTCv3.create(password, salt);
+
+    expect(headerOf(mtc.encrypt('test')).kdf).toEqual({
+      algorithm: 'pbkdf2',
+      hash: 'sha256',
+      iterations: 100000,
+    });
+  });
+
+  it('should pass rounds, matrix size and mode through create()', async () => {
+    const mtc = await MTCv3.create(password, salt, {
+      rounds: 6,
+      matrixSize: 8,
+      mode: 'ctr',
+      kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+    });
+    const header = headerOf(mtc.encrypt('test'));
+
+    expect([header.rounds, header.matrixSize, header.mode]).toEqual([
+      6,
+      8,
+      'ctr',
+    ]);
+  });
+
+  it('should reproduce the recorded KDF when decrypting', () => {
+    const scrypt = new MTCv3(password, salt, 10, 4, {
+      kdf: { algorithm: 'scrypt', N: 1024 },
+    });
+    const ciphertext = scrypt.encrypt('derived from the header');
+    const pbkdf2 = new MTCv3(password, salt, 10, 4, {
+      kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+      acceptHeaderKdf: true,
+    });
+
+    expect(pbkdf2.decrypt(ciphertext)).toBe('derived from the header');
+  });
+
+  it('should reject a recorded KDF other than its own by default', () => {
+    const options = { kdf: { algorithm: 'pbkdf2', iterations: 1000 } } as const;
+    const pbkdf2 = new MTCv3(password, salt, 10, 4, options);
+    const stronger = new MTCv3(password, salt, 10, 4, {
+      kdf: { algorithm: 'pbkdf2', iterations: 2000 },
+    });
+
+    expect(() => pbkdf2.decrypt(stronger.encrypt('test'))).toThrow(
+      MTCv3FormatError
+    );
+    expect(() => pbkdf2.open(stronger.seal('test'))).toThrow(
+      MTCv3AuthenticationError
+    );
+    expect(() =>
+      pbkdf2.decrypt(
+        new MTCv3(password, 'othersalt', 10, 4, options).encrypt('test')
+      )
+    ).not.toThrow();
+  });
+
+  it('should give different keys for different raw keys and salts', () => {
+    const iv = Buffer.alloc(16, 2);
+    const encryptWith = (key: Buffer, keySalt: string) =>
+      new MTCv3('', keySalt, 10, 4, {
+        kdf: { algorithm: 'raw', key },
+      }).encrypt('test', { iv });
+
+    const reference = encryptWith(rawKey, salt);
+    expect(encryptWith(Buffer.alloc(16, 0xff), salt)).not.toBe(reference);
+    expect(encryptWith(rawKey, 'othersalt')).not.toBe(reference);
+  });
+
+  it('should require the matching kind of secret', () => {
+    const raw = new MTCv3('', salt, 10, 4, {
+      kdf: { algorithm: 'raw', key: rawKey },
+      acceptHeaderKdf: true,
+    });
+    const passwordBased = new MTCv3(password, salt, 10, 4, {
+      kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+      acceptHeaderKdf: true,
+    });
+
+    expect(() => passwordBased.decrypt(raw.encrypt('test'))).toThrow(
+      'A raw key is required'
+    );
+    expect(() => raw.decrypt(passwordBased.encrypt('test'))).toThrow(
+      'A password is required'
+    );
+    expect(() =>
+      raw.decryptBytes(passwordBased.encryptBytes(Buffer.from(salt)))
+    ).toThrow(MTCv3FormatError);
+    expect(() => passwordBased.decrypt(raw.encrypt('test'))).toThrow(
+      MTCv3FormatError
+    );
+  });
+
+  it.each([
+    [{ algorithm: 'pbkdf2', iterations: 0 }, 'Unsupported KDF iteration count'],
+    [
+      { algorithm: 'pbkdf2', iterations: 1000001 },
+      'Unsupported KDF iteration count',
+    ],
+    [{ algorithm: 'scrypt', N: 262144 }, 'Unsupported scrypt parameters'],
+    [{ algorithm: 'pbkdf2', hash: 'md5' }, 'Unsupported PBKDF2 hash'],
+    [{ algorithm: 'scrypt', N: 1000 }, 'Unsupported scrypt parameters'],
+    [{ algorithm: 'raw', key: Buffer.alloc(8) }, 'at least 16 bytes'],
+    [{ algorithm: 'argon2' }, 'Unsupported key derivation function'],
+  ])('should reject invalid options %j', (kdf, message) => {
+    expect(
+      () => new MTCv3(password, salt, 10, 4, { kdf: kdf as KdfOptions })
+    ).toThrow(message);
+  });
+
+  it('should reject excessive costs recorded in a header', () => {
+    const mtc = new MTCv3(password, salt, 10, 4, {
+      kdf: { algorithm: 'scrypt', N: 1024 },
+    });
+    const ciphertext = Buffer.from(mtc.encrypt('test'), 'hex');
+
+    // kdf params follow magic, version, mode, cipher, flags, rounds, matrixSize, id, length:
+    // log2(N), r, p
+    for (const [offset, value] of [
+      [12, 30],
+      [12, 18],
+      [13, 16],
+      [14, 5],
+    ]) {
+      const modified = Buffer.from(ciphertext);
+      modified[offset] = value;
+      expect(() => mtc.decrypt(modified.toString('hex'))).toThrow(
+        'Unsupported scrypt parameters'
+      );
+    }
+  });
+});
@@ -0,0 +1,354 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MTCv3,
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3FormatError,
+  MTCv3UnknownKeyError,
+} from '../MTCV3';
+import { parseEnvelope, serializeHeader } from '../helpers/envelope';
+import { MTCv3Keyring } from '../keyring';
+
+const FAST_KDF = { algorithm: 'pbkdf2', iterations: 1000 } as const;
+const MASTER_PASSWORD = 'master password';
+
+const rawKey = (fill: number) => ({
+  type: 'raw' as const,
+  key: Buffer.alloc(32, fill),
+});
+
+describe('MTCv3Keyring', () => {
+  let keyring: MTCv3Keyring;
+
+  beforeEach(() => {
+    keyring = new MTCv3Keyring();
+    keyring.addKey('2024', rawKey(1));
+    keyring.addKey('2025', {
+      type: 'password',
+      password: 'password',
+      salt: 'salt',
+      kdf: FAST_KDF,
+    });
+  });
+
+  describe('keys', () => {
+    it('should make the first key added active', () => {
+      expect(keyring.activeKeyId).toBe('2024');
+      expect(keyring.keyIds()).toEqual(['2024', '2025']);
+      expect(keyring.hasKey('2025')).toBe(true);
+    });
+
+    it('should switch the active key', () => {
+      keyring.setActive('2025');
+      expect(keyring.activeKeyId).toBe('2025');
+      expect(keyring.keyIdOf(keyring.encryptBytes(Buffer.from('x')))).toBe(
+        '2025'
+      );
+    });
+
+    it('should reject duplicate, unknown and invalid key IDs', () => {
+      expect(() => keyring.addKey('2024', rawKey(2))).toThrow(
+        'Key already exists: 2024'
+      );
+      expect(() => keyring.setActive('1999')).toThrow('Unknown key ID: 1999');
+      expect(() => keyring.addKey('', rawKey(2))).toThrow('Invalid key ID');
+      expect(() => keyring.addKey('x'.repeat(256), rawKey(2))).toThrow(
+        'Invalid key ID'
+      );
+    });
+
+    it('should not remove the active key', () => {
+      expect(() => keyring.removeKey('2024')).toThrow(
+        'Cannot remove the active key: 2024'
+      );
+      keyring.removeKey('2025');
+      expect(keyring.keyIds()).toEqual(['2024']);
+    });
+
+    it('should refuse to encrypt without keys', () => {
+      expect(() => new MTCv3Keyring().encrypt('hello')).toThrow(
+        'Keyring has no active key'
+      );
+    });
+
+    it('should generate random raw keys', () => {
+      keyring.generateKey('generated');
+      keyring.setActive('generated');
+      expect(keyring.decrypt(keyring.encrypt('hello'))).toBe('hello');
+    });
+  });
+
+  describe('encryption', () => {
+    it('should embed the active key ID in every ciphertext', () => {
+      const ciphertext = Buffer.from(keyring.encrypt('hello'), 'hex');
+      expect(parseEnvelope(ciphertext).header.keyId).toBe('2024');
+      expect(
+        keyring.keyIdOf(keyring.sealBytes(Buffer.from('hello'), 'ad'))
+      ).toBe('2024');
+    });
+
+    it('should decrypt with the key named in the ciphertext', () => {
+      const old = keyring.encrypt('old record');
+      const oldSealed = keyring.seal('old sealed', 'ad');
+      keyring.setActive('2025');
+      const current = keyring.encrypt('new record');
+
+      expect(keyring.decrypt(old)).toBe('old record');
+      expect(keyring.open(oldSealed, 'ad')).toBe('old sealed');
+      expect(keyring.decrypt(current)).toBe('new record');
+    });
+
+    it('should support every encoding and the binary API', () => {
+      const ciphertext = keyring.encrypt('hello', { encoding: 'base64url' });
+      expect(keyring.decrypt(ciphertext, { encoding: 'base64url' })).toBe(
+        'hello'
+      );
+      const data = Buffer.from([0, 1, 2, 255]);
+      expect(
+        Buffer.from(keyring.decryptBytes(keyring.encryptBytes(data)))
+      ).toEqual(data);
+      expect(
+        Buffer.from(keyring.openBytes(keyring.sealBytes(data, 'ad'), 'ad'))
+      ).toEqual(data);
+    });
+
+    it('should raise MTCv3UnknownKeyError for keys it does not hold', () => {
+      const other = new MTCv3Keyring();
+      other.addKey('elsewhere', rawKey(9));
+      const ciphertext = other.encrypt('hello');
+
+      let error: unknown;
+      try {
+        keyring.decrypt(ciphertext);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(MTCv3UnknownKeyError);
+      expect(error).toBeInstanceOf(MTCv3DecryptionError);
+      expect((error as MTCv3UnknownKeyError).keyId).toBe('elsewhere');
+      expect(() => keyring.open(other.seal('hello'))).toThrow(
+        MTCv3UnknownKeyError
+      );
+    });
+
+    it('should not decrypt under a different key with the same ID', () => {
+      const other = new MTCv3Keyring();
+      other.addKey('2024', rawKey(9));
+      expect(() => keyring.open(other.seal('hello'))).toThrow(
+        MTCv3AuthenticationError
+      );
+    });
+
+    it('should authenticate the key ID of sealed ciphertexts', () => {
+      const sealed = Buffer.from(keyring.sealBytes(Buffer.from('hello')));
+      const { header, headerBytes } = parseEnvelope(sealed);
+      const relabelled = Buffer.concat([
+        serializeHeader({ ...header, keyId: '2025' }),
+        sealed.slice(headerBytes.length),
+      ]);
+      expect(() => keyring.openBytes(relabelled)).toThrow(
+        MTCv3AuthenticationError
+      );
+      expect(() => keyring.openBytes(sealed.slice(0, 12))).toThrow(
+        MTCv3AuthenticationError
+      );
+    });
+
+    it('should use the fallback key for ciphertexts without a key ID', () => {
+      const legacy = new MTCv3('password', 'salt', 10, 4, { kdf: FAST_KDF });
+      const ciphertext = legacy.encrypt('before the keyring');
+
+      expect(keyring.keyIdOf(Buffer.from(ciphertext, 'hex'))).toBeUndefined();
+      expect(() => keyring.decrypt(ciphertext)).toThrow(
+        'Ciphertext has no key ID'
+      );
+
+      const withFallback = new MTCv3Keyring({ fallbackKeyId: 'legacy' });
+      withFallback.addKey('legacy', {
+        type: 'password',
+        password: 'password',
+        salt: 'salt',
+        kdf: FAST_KDF,
+      });
+      expect(withFallback.decrypt(ciphertext)).toBe('before the keyring');
+    });
+  });
+
+  describe('reencrypt', () => {
+    it('should move ciphertexts to the active key', () => {
+      const old = keyring.encrypt('record');
+      keyring.setActive('2025');
+
+      const moved = keyring.reencrypt(old);
+      expect(keyring.keyIdOf(Buffer.from(moved, 'hex'))).toBe('2025');
+      keyring.removeKey('2024');
+      expect(keyring.decrypt(moved)).toBe('record');
+    });
+
+    it('should keep sealed ciphertexts sealed under the same associated data', () => {
+      const old = keyring.seal('record', 'row 7', { encoding: 'base64' });
+      keyring.setActive('2025');
+
+      const moved = keyring.reencrypt(old, {
+        associatedData: 'row 7',
+        encoding: 'base64',
+      });
+      expect(keyring.keyIdOf(Buffer.from(moved, 'base64'))).toBe('2025');
+      expect(keyring.open(moved, 'row 7', { encoding: 'base64' })).toBe(
+        'record'
+      );
+      expect(() =>
+        keyring.open(moved, 'row 8', { encoding: 'base64' })
+      ).toThrow(MTCv3AuthenticationError);
+      expect(() => keyring.reencrypt(old, { encoding: 'base64' })).toThrow(
+        MTCv3AuthenticationError
+      );
+    });
+
+    it('should re-encrypt legacy ciphertexts through the fallback key', () => {
+      const legacy = new MTCv3('', 'MTCv3 keyring', 10, 4, {
+        kdf: { algorithm: 'raw', key: Buffer.alloc(32, 1) },
+      });
+      const withFallback = new MTCv3Keyring({ fallbackKeyId: 'legacy' });
+      withFallback.addKey('legacy', rawKey(1));
+      withFallback.addKey('current', rawKey(2));
+      withFallback.setActive('current');
+
+      const moved = withFallback.reencrypt(legacy.encrypt('record'));
+      expect(withFallback.keyIdOf(Buffer.from(moved, 'hex'))).toBe('current');
+      expect(withFallback.decrypt(moved)).toBe('record');
+    });
+  });
+
+  describe('keystore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-keyring-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip keys through a keystore file', async () => {
+      keyring.setActive('2025');
+      const ciphertexts = [keyring.encrypt('new')];
+      keyring.setActive('2024');
+      ciphertexts.push(keyring.encrypt('old'));
+
+      const file = path.join(dir, 'keys.json');
+      await keyring.save(file, MASTER_PASSWORD, { kdf: FAST_KDF });
+      const loaded = await MTCv3Keyring.load(file, MASTER_PASSWORD);
+
+      expect(loaded.keyIds()).toEqual(['2024', '2025']);
+      expect(loaded.activeKeyId).toBe('2024');
+      expect(ciphertexts.map((c) => loaded.decrypt(c))).toEqual(['new', 'old']);
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should not store key material in the clear', async () => {
+      const json = await keyring.exportKeystore(MASTER_PASSWORD, {
+        kdf: FAST_KDF,
+      });
+      expect(json).not.toContain(Buffer.alloc(32, 1).toString('hex'));
+      expect(json).not.toContain('"password"');
+      expect(JSON.parse(json)).toMatchObject({
+        format: 'mtcv3-keystore',
+        version: 1,
+        active: '2024',
+      });
+    });
+
+    it('should reject a wrong master password', async () => {
+      const json = await keyring.exportKeystore(MASTER_PASSWORD, {
+        kdf: FAST_KDF,
+      });
+      await expect(
+        MTCv3Keyring.importKeystore(json, 'wrong password')
+      ).rejects.toThrow(MTCv3AuthenticationError);
+    });
+
+    it('should detect changed entries and a changed active key', async () => {
+      const keystore = JSON.parse(
+        await keyring.exportKeystore(MASTER_PASSWORD, { kdf: FAST_KDF })
+      );
+
+      const swapped = structuredClone(keystore);
+      [swapped.keys[0].id, swapped.keys[1].id] = [
+        swapped.keys[1].id,
+        swapped.keys[0].id,
+      ];
+      await expect(
+        MTCv3Keyring.importKeystore(JSON.stringify(swapped), MASTER_PASSWORD)
+      ).rejects.toThrow(MTCv3AuthenticationError);
+
+      const inactive = keystore.keys.findIndex(
+        ({ id }: { id: string }) => id !== keystore.active
+      );
+      const removed = {
+        ...keystore,
+        keys: keystore.keys.filter((_: unknown, i: number) => i !== inactive),
+      };
+      const reordered = { ...keystore, keys: [...keystore.keys].reverse() };
+      for (const modified of [removed, reordered]) {
+        await expect(
+          MTCv3Keyring.importKeystore(JSON.stringify(modified), MASTER_PASSWORD)
+        ).rejects.toThrow(MTCv3AuthenticationError);
+      }
+
+      const reactivated = { ...keystore, active: '2025' };
+      await expect(
+        MTCv3Keyring.importKeystore(
+          JSON.stringify(reactivated),
+          MASTER_PASSWORD
+        )
+      ).rejects.toThrow(MTCv3AuthenticationError);
+    });
+
+    it('should reject malformed keystores', async () => {
+      const cases = [
+        'not json',
+        JSON.stringify({ format: 'other' }),
+        JSON.stringify({ format: 'mtcv3-keystore', version: 2 }),
+        JSON.stringify({ format: 'mtcv3-keystore', version: 1, keys: [] }),
+        JSON.stringify({
+          format: 'mtcv3-keystore',
+          version: 1,
+          salt: 'salt',
+          active: 'missing',
+          keys: [],
+        }),
+      ];
+      for (const json of cases) {
+        await expect(
+          MTCv3Keyring.importKeystore(json, MASTER_PASSWORD)
+        ).rejects.toThrow(MTCv3FormatError);
+      }
+    });
+
+    it('should apply the keyring options to loaded keys', async () => {
+      const json = await keyring.exportKeystore(MASTER_PASSWORD, {
+        kdf: FAST_KDF,
+      });
+      const loaded = await MTCv3Keyring.importKeystore(json, MASTER_PASSWORD, {
+        rounds: 6,
+        matrixSize: 8,
+        mode: 'ctr',
+      });
+      const { header } = parseEnvelope(
+        Buffer.from(loaded.encryptBytes(Buffer.from('hello')))
+      );
+      expect(header).toMatchObject({
+        rounds: 6,
+        matrixSize: 8,
+        mode: 'ctr',
+        keyId: '2024',
+      });
+    });
+  });
+});
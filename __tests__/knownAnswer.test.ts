@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import { MTCv3 } from '../MTCV3';
+import { BlockCipher } from '../helpers/blockCipher';
+import {
+  generateColumnPermutation,
+  mixMatrix,
+  pad,
+  permuteBits,
+  permuteColumns,
+  seededRandomBytes,
+  shiftRows,
+} from '../helpers/encryptionUtils';
+import { KdfOptions } from '../helpers/kdf';
+import { CipherMode } from '../helpers/modes';
+import { createSBox, resolveSBoxParams, SBoxOptions } from '../helpers/sBox';
+
+// Regenerate with `yarn vectors` (generateVectors.ts) only when the output is
+// meant to change
+const vectors = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'vectors', 'knownAnswer.json'), 'utf-8')
+);
+
+interface BlockVector {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  sBox: SBoxOptions;
+  key: string;
+  sBoxSeed: string;
+  plaintext: string;
+  roundStates: string[];
+  ciphertext: string;
+}
+
+interface MessageVector {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  mode: CipherMode;
+  kdf: 'raw' | 'pbkdf2' | 'scrypt';
+  sBox: SBoxOptions;
+  sealed: boolean;
+  associatedData: string;
+  plaintext: string;
+  iv?: string;
+  password?: string;
+  key?: string;
+  salt: string;
+  randomSeed: string;
+  ciphertext: string;
+}
+
+const describeVector = (vector: {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  sBox: SBoxOptions;
+}) =>
+  `${vector.rounds} rounds, ${vector.matrixSize}x${vector.matrixSize}, v${vector.cipherVersion}, ${vector.sBox.type} S-box`;
+
+const kdfOptions = (vector: MessageVector): KdfOptions => {
+  switch (vector.kdf) {
+    case 'raw':
+      return { algorithm: 'raw', key: Buffer.from(vector.key!, 'hex') };
+    case 'pbkdf2':
+      return { algorithm: 'pbkdf2', iterations: 1000 };
+    case 'scrypt':
+      return { algorithm: 'scrypt', N: 1024, r: 8, p: 1 };
+  }
+};
+
+describe('known-answer vectors', () => {
+  describe('primitives', () => {
+    const { primitives } = vectors;
+
+    it('should match shiftRows', () => {
+      for (const { matrix, shifts, expected } of primitives.shiftRows) {
+        expect(shiftRows(matrix, shifts)).toEqual(expected);
+      }
+    });
+
+    it('should match generateColumnPermutation', () => {
+      for (const {
+        key,
+        round,
+        matrixSize,
+        expected,
+      } of primitives.generateColumnPermutation) {
+        expect(
+          generateColumnPermutation(Buffer.from(key, 'hex'), round, matrixSize)
+        ).toEqual(expected);
+      }
+    });
+
+    it('should match permuteColumns', () => {
+      for (const {
+        matrix,
+        permutation,
+        expected,
+      } of primitives.permuteColumns) {
+        expect(permuteColumns(matrix, permutation)).toEqual(expected);
+      }
+    });
+
+    it('should match permuteBits', () => {
+      for (const { data, key, round, expected } of primitives.permuteBits) {
+        expect(permuteBits(data, Buffer.from(key, 'hex'), round)).toEqual(
+          expected
+        );
+      }
+    });
+
+    it('should match mixMatrix for every matrix size', () => {
+      expect(primitives.mixMatrix).toHaveLength(4);
+      for (const { matrix, expected } of primitives.mixMatrix) {
+        expect(mixMatrix(matrix)).toEqual(expected);
+      }
+    });
+
+    it('should match pad', () => {
+      for (const { data, blockSize, expected } of primitives.pad) {
+        expect(pad(Buffer.from(data, 'hex'), blockSize).toString('hex')).toBe(
+          expected
+        );
+      }
+    });
+
+    it('should match the key-dependent S-box', () => {
+      for (const { seed, params, expected } of primitives.keyDependentSBox) {
+        const sBox = createSBox(params, Buffer.from(seed, 'hex'));
+        expect(Buffer.from(sBox.forward).toString('hex')).toBe(expected);
+      }
+    });
+  });
+
+  describe('blocks', () => {
+    it.each(
+      (vectors.blocks as BlockVector[]).map(
+        (vector) => [describeVector(vector), vector] as const
+      )
+    )('should match %s', (_, vector) => {
+      const cipher = new BlockCipher(
+        Buffer.from(vector.key, 'hex'),
+        vector.rounds,
+        vector.matrixSize,
+        vector.cipherVersion,
+        createSBox(
+          resolveSBoxParams(vector.sBox),
+          Buffer.from(vector.sBoxSeed, 'hex')
+        )
+      );
+      const plaintext = Buffer.from(vector.plaintext, 'hex');
+
+      expect(cipher.encryptBlock(plaintext).toString('hex')).toBe(
+        vector.ciphertext
+      );
+      expect(
+        cipher.traceBlock(plaintext).map((state) => state.toString('hex'))
+      ).toEqual(vector.roundStates);
+      expect(
+        cipher
+          .decryptBlock(Buffer.from(vector.ciphertext, 'hex'))
+          .toString('hex')
+      ).toBe(vector.plaintext);
+    });
+  });
+
+  describe('messages', () => {
+    const createCipher = (vector: MessageVector): MTCv3 =>
+      new MTCv3(
+        vector.password ?? '',
+        vector.salt,
+        vector.rounds,
+        vector.matrixSize,
+        {
+          mode: vector.mode,
+          cipherVersion: vector.cipherVersion,
+          kdf: kdfOptions(vector),
+          sBox: vector.sBox,
+          randomBytes: seededRandomBytes(vector.randomSeed),
+        }
+      );
+
+    it.each(
+      (vectors.messages as MessageVector[]).map(
+        (vector, i) =>
+          [
+            `#${i} (${vector.mode}, ${vector.kdf}${
+              vector.sealed ? ', sealed' : ''
+            }, ${describeVector(vector)})`,
+            vector,
+          ] as const
+      )
+    )('should match %s', (_, vector) => {
+      const mtc = createCipher(vector);
+      const plaintext = Buffer.from(vector.plaintext, 'utf-8');
+      const options = vector.iv ? { iv: Buffer.from(vector.iv, 'hex') } : {};
+      const ciphertext = vector.sealed
+        ? mtc.sealBytes(plaintext, vector.associatedData, options)
+        : mtc.encryptBytes(plaintext, options);
+
+      expect(Buffer.from(ciphertext).toString('hex')).toBe(vector.ciphertext);
+
+      const recorded = Buffer.from(vector.ciphertext, 'hex');
+      const decrypted = vector.sealed
+        ? mtc.openBytes(recorded, vector.associatedData)
+        : mtc.decryptBytes(recorded);
+      expect(Buffer.from(decrypted).toString('utf-8')).toBe(vector.plaintext);
+    });
+
+    it('should draw successive IVs from the injected generator', () => {
+      const vector = (vectors.messages as MessageVector[])[0];
+      const first = createCipher(vector);
+      const second = createCipher(vector);
+      const plaintext = Buffer.from(vector.plaintext, 'utf-8');
+
+      const a1 = first.encryptBytes(plaintext);
+      const a2 = first.encryptBytes(plaintext);
+      expect(Buffer.from(a1).toString('hex')).not.toBe(
+        Buffer.from(a2).toString('hex')
+      );
+      expect(second.encryptBytes(plaintext)).toEqual(a1);
+      expect(second.encryptBytes(plaintext)).toEqual(a2);
+    });
+  });
+
+  it('should reject an injected generator that returns the wrong length', () => {
+    const mtc = new MTCv3('', 'salt', 10, 4, {
+      kdf: { algorithm: 'raw', key: Buffer.alloc(32, 1) },
+      randomBytes: () => Buffer.alloc(8),
+    });
+    expect(() => mtc.encrypt('hello')).toThrow();
+  });
+});
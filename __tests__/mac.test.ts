@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { MTCv3Hash } from '../hash';
+import { MacCipher, MTCv3Mac } from '../mac';
+
+// RFC 4493 section 4
+const RFC_KEY = Buffer.from('2b7e151628aed2a6abf7158809cf4f3c', 'hex');
+const RFC_MESSAGE = Buffer.from(
+  '6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e51' +
+    '30c81c46a35ce411e5fbc1191a0a52eff69f2445df4f9b17ad2b417be66c3710',
+  'hex'
+);
+
+const aes128: MacCipher = {
+  blockSize: 16,
+  encryptBlock: (block: Buffer) => {
+    const cipher = crypto.createCipheriv('aes-128-ecb', RFC_KEY, null);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(block), cipher.final()]);
+  },
+};
+
+const key = Buffer.alloc(32, 1);
+
+describe('MTCv3Mac', () => {
+  it.each([
+    [0, 'bb1d6929e95937287fa37d129b756746'],
+    [16, '070a16b46b4d4144f79bdd9dd04a287c'],
+    [40, 'dfa66747de9ae63030ca32611497c827'],
+    [64, '51f0bebf7e3b9d92fc49741779363cfe'],
+  ])('should match the AES-CMAC vector for %i bytes', (length, tag) => {
+    const mac = new MTCv3Mac(aes128).update(RFC_MESSAGE.subarray(0, length));
+    expect(mac.digest().toString('hex')).toBe(tag);
+  });
+
+  it.each([
+    [0, 'b60c583a85b202206ec33bd8088908b9'],
+    [16, '799a7402ccbdcc647d440ac253180bc5'],
+    [40, '3e96a5647cf02ff77352882781c7b2f1'],
+    [64, '75f8dd3865a20b34a37c138ded1d39c4'],
+  ])(
+    'should match the MTCv3 known-answer vector for %i bytes',
+    (length, tag) => {
+      const mac = new MTCv3Mac(key).update(RFC_MESSAGE.subarray(0, length));
+      expect(mac.digest().toString('hex')).toBe(tag);
+    }
+  );
+
+  it('should give the same tag however the input is split', () => {
+    const data = crypto.randomBytes(100);
+    const expected = new MTCv3Mac(key).update(data).digest();
+
+    for (const chunkSize of [1, 3, 15, 16, 17, 64]) {
+      const mac = new MTCv3Mac(key);
+      for (let i = 0; i < data.length; i += chunkSize) {
+        mac.update(data.subarray(i, i + chunkSize));
+      }
+      expect(mac.digest()).toEqual(expected);
+    }
+    expect(new MTCv3Mac(key).update('').update(data).digest()).toEqual(
+      expected
+    );
+  });
+
+  it('should depend on the key, the options and every message bit', () => {
+    const tags = new Set(
+      [
+        new MTCv3Mac(key).update('message'),
+        new MTCv3Mac(key).update('messagf'),
+        new MTCv3Mac(key).update('message\0'),
+        new MTCv3Mac(Buffer.alloc(32, 2)).update('message'),
+        new MTCv3Mac(key, { rounds: 12 }).update('message'),
+        new MTCv3Mac(key, { cipherVersion: 1 }).update('message'),
+      ].map((mac) => mac.digest().toString('hex'))
+    );
+    expect(tags.size).toBe(6);
+  });
+
+  it('should verify tags in constant time', () => {
+    const tag = new MTCv3Mac(key).update('message').digest();
+    const spy = jest.spyOn(crypto, 'timingSafeEqual');
+
+    expect(new MTCv3Mac(key).update('message').verify(tag)).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+
+    const tampered = Buffer.from(tag);
+    tampered[15] ^= 1;
+    expect(new MTCv3Mac(key).update('message').verify(tampered)).toBe(false);
+    expect(new MTCv3Mac(key).update('message').verify(tag.subarray(0, 8))).toBe(
+      false
+    );
+    expect(new MTCv3Mac(key).update('messagf').verify(tag)).toBe(false);
+  });
+
+  it('should refuse to be reused after digest', () => {
+    const mac = new MTCv3Mac(key).update('message');
+    mac.digest();
+    expect(() => mac.update('more')).toThrow('Digest already called');
+    expect(() => mac.digest()).toThrow('Digest already called');
+  });
+
+  it('should validate its key', () => {
+    expect(() => new MTCv3Mac(Buffer.alloc(15))).toThrow(
+      'MAC keys must be at least 16 bytes'
+    );
+    expect(
+      () =>
+        new MTCv3Mac({ blockSize: 64, encryptBlock: (block: Buffer) => block })
+    ).toThrow('CMAC requires a 16-byte block cipher');
+    expect(() => new MTCv3Mac(Buffer.alloc(16), { rounds: 256 })).toThrow(
+      'Rounds must be an integer from 1 to 255'
+    );
+  });
+});
+
+describe('MTCv3Hash', () => {
+  it.each([
+    ['miyaguchi-preneel', '', 'a4aaf8ca049ef3cb15c31d3ca2665eaa'],
+    ['miyaguchi-preneel', 'abc', '98871663926138576b619ebc04db87fb'],
+    ['miyaguchi-preneel', 'x'.repeat(100), '1aa8f679e48b7de1567982e1b3530387'],
+    ['davies-meyer', '', 'b5fd24c5461baf3e0558c43bed6229a8'],
+    ['davies-meyer', 'abc', '6f511c746c858c5818ca41fb8d33172c'],
+    ['davies-meyer', 'x'.repeat(100), '9aa91d53fd1ddd1a71701e63d38ea6f6'],
+  ] as const)(
+    'should match the %s vector #%#',
+    (construction, data, digest) => {
+      const hash = new MTCv3Hash({ construction }).update(data);
+      expect(hash.digest().toString('hex')).toBe(digest);
+    }
+  );
+
+  it('should default to Miyaguchi–Preneel', () => {
+    expect(new MTCv3Hash().update('abc').digest()).toEqual(
+      new MTCv3Hash({ construction: 'miyaguchi-preneel' })
+        .update('abc')
+        .digest()
+    );
+  });
+
+  it('should give the same digest however the input is split', () => {
+    const data = crypto.randomBytes(70);
+    const expected = new MTCv3Hash().update(data).digest();
+
+    for (const chunkSize of [1, 7, 16, 33]) {
+      const hash = new MTCv3Hash();
+      for (let i = 0; i < data.length; i += chunkSize) {
+        hash.update(data.subarray(i, i + chunkSize));
+      }
+      expect(hash.digest()).toEqual(expected);
+    }
+  });
+
+  it('should distinguish messages that differ only in padding', () => {
+    // Lengths around the padding boundary, and a message equal to another's
+    // padded form
+    const digests = new Set(
+      [
+        Buffer.alloc(0),
+        Buffer.alloc(1),
+        Buffer.alloc(7),
+        Buffer.alloc(8),
+        Buffer.alloc(16),
+        Buffer.from([0x80]),
+      ].map((data) => new MTCv3Hash().update(data).digest().toString('hex'))
+    );
+    expect(digests.size).toBe(6);
+  });
+
+  it('should change about half the output bits for a one-bit change', () => {
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog');
+    const digest = new MTCv3Hash().update(data).digest();
+
+    let total = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      const flipped = Buffer.from(data);
+      flipped[bit >> 3] ^= 1 << (bit & 7);
+      const other = new MTCv3Hash().update(flipped).digest();
+      for (let i = 0; i < digest.length; i++) {
+        total += (digest[i] ^ other[i]).toString(2).replace(/0/g, '').length;
+      }
+    }
+    const average = total / 32;
+    expect(average).toBeGreaterThan(54);
+    expect(average).toBeLessThan(74);
+  });
+
+  it('should verify digests in constant time', () => {
+    const digest = new MTCv3Hash().update('abc').digest();
+    expect(new MTCv3Hash().update('abc').verify(digest)).toBe(true);
+    expect(new MTCv3Hash().update('abd').verify(digest)).toBe(false);
+    expect(new MTCv3Hash().update('abc').verify(digest.subarray(1))).toBe(
+      false
+    );
+  });
+
+  it('should reject unknown constructions', () => {
+    expect(
+      () => new MTCv3Hash({ construction: 'sponge' as 'davies-meyer' })
+    ).toThrow('Unsupported hash construction: sponge');
+  });
+
+  it('should reject unsupported round counts', () => {
+    expect(() => new MTCv3Hash({ rounds: 2.5 })).toThrow(
+      'Rounds must be an integer from 1 to 255'
+    );
+  });
+
+  it('should reject unsupported cipher versions when constructed', () => {
+    expect(() => new MTCv3Hash({ cipherVersion: 7 })).toThrow(
+      'Unsupported cipher version: 7'
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { MTCv3 } from '../MTCV3';
+import { BlockCipher } from '../helpers/blockCipher';
+import {
+  CIPHER_MODES,
+  CipherMode,
+  createBlockMode,
+  incrementCounter,
+  processBlocks,
+  xorBytes,
+} from '../helpers/modes';
+
+describe('block cipher modes', () => {
+  const key = Buffer.from(Array.from({ length: 40 }, (_, i) => i));
+  const cipher = new BlockCipher(key, 10, 4, 1);
+  const iv = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+  const plaintext = Buffer.from('The quick brown fox jumps over the lazy dog');
+
+  const encrypt = (mode: CipherMode, data: Buffer): Buffer => {
+    const blockMode = createBlockMode(mode, cipher, iv);
+    return Buffer.from(
+      processBlocks(data, 16, (block) => blockMode.encrypt(block))
+    );
+  };
+  const decrypt = (mode: CipherMode, data: Buffer): Buffer => {
+    const blockMode = createBlockMode(mode, cipher, iv);
+    return Buffer.from(
+      processBlocks(data, 16, (block) => blockMode.decrypt(block))
+    );
+  };
+
+  describe('known-answer tests', () => {
+    it('should encrypt a single block', () => {
+      expect(cipher.encryptBlock(iv).toString('hex')).toBe(
+        'eb421bc18d029a10a9102a54d28cca49'
+      );
+    });
+
+    it('should encrypt a single block with cipher version 2', () => {
+      const cipherV2 = new BlockCipher(key, 10, 4, 2);
+
+      expect(cipherV2.encryptBlock(iv).toString('hex')).toBe(
+        '41e5bd1a23096b3526b34a3a3a1d4dbb'
+      );
+      expect(cipherV2.decryptBlock(cipherV2.encryptBlock(iv))).toEqual(iv);
+    });
+
+    it.each([
+      [
+        'cbc',
+        'bdec9614a298dbd4f44c65979587900cda7ea023c22ee3b05fe524bacc026a84',
+      ],
+      [
+        'ctr',
+        'bf2a7ee1fc77f373c2304826bdfba469b994d308ec3d1ac00cb118362d54e0852da030ce9d82aada386ff0',
+      ],
+      [
+        'cfb',
+        'bf2a7ee1fc77f373c2304826bdfba46944437c671b11095b2f832799c6aa2bdfff368e9e549355287fecfc',
+      ],
+      [
+        'ofb',
+        'bf2a7ee1fc77f373c2304826bdfba4697673fd34e86e236c0474be6087a467682207f68e033cbc7dc9d92d',
+      ],
+    ] as [CipherMode, string][])('should match the %s vector', (mode, hex) => {
+      const data = mode === 'cbc' ? plaintext.slice(0, 32) : plaintext;
+
+      expect(encrypt(mode, data).toString('hex')).toBe(hex);
+      expect(decrypt(mode, Buffer.from(hex, 'hex'))).toEqual(data);
+    });
+
+    it('should follow the mode definitions', () => {
+      const [p0, p1] = [plaintext.slice(0, 16), plaintext.slice(16, 32)];
+      const e = (block: Uint8Array) => cipher.encryptBlock(block);
+      const xor = (a: Uint8Array, b: Uint8Array) => Buffer.from(xorBytes(a, b));
+
+      const cbc = encrypt('cbc', plaintext.slice(0, 32));
+      expect(cbc.slice(0, 16)).toEqual(e(xorBytes(p0, iv)));
+      expect(cbc.slice(16)).toEqual(e(xorBytes(p1, cbc.slice(0, 16))));
+
+      const ctr = encrypt('ctr', plaintext.slice(0, 32));
+      expect(ctr.slice(0, 16)).toEqual(xor(p0, e(iv)));
+      expect(ctr.slice(16)).toEqual(xor(p1, e(incrementCounter(iv, 1))));
+
+      const cfb = encrypt('cfb', plaintext.slice(0, 32));
+      expect(cfb.slice(16)).toEqual(xor(p1, e(cfb.slice(0, 16))));
+
+      const ofb = encrypt('ofb', plaintext.slice(0, 32));
+      expect(ofb.slice(16)).toEqual(xor(p1, e(e(iv))));
+    });
+  });
+
+  describe('counter arithmetic', () => {
+    it('should carry across bytes and wrap around', () => {
+      expect(
+        Buffer.from(incrementCounter(Buffer.from('00ff', 'hex'), 1)).toString(
+          'hex'
+        )
+      ).toBe('0100');
+      expect(
+        Buffer.from(incrementCounter(Buffer.from('ffff', 'hex'), 2)).toString(
+          'hex'
+        )
+      ).toBe('0001');
+      expect(
+        Buffer.from(
+          incrementCounter(Buffer.from('0000', 'hex'), 0x1234)
+        ).toString('hex')
+      ).toBe('1234');
+    });
+  });
+
+  describe('MTCv3 integration', () => {
+    const password = 'strongpassword';
+    const salt = 'somesalt';
+    const instances = Object.fromEntries(
+      CIPHER_MODES.map((mode) => [
+        mode,
+        new MTCv3(password, salt, 10, 4, { mode }),
+      ])
+    ) as Record<CipherMode, MTCv3>;
+
+    it.each(CIPHER_MODES)('should round-trip text in %s mode', (mode) => {
+      const mtc = instances[mode];
+      for (const text of [
+        '',
+        'A',
+        'A'.repeat(16),
+        'HELLO WORLD 你好'.repeat(9),
+      ]) {
+        expect(mtc.decrypt(mtc.encrypt(text))).toBe(text);
+        expect(mtc.open(mtc.seal(text, 'ad'), 'ad')).toBe(text);
+      }
+    });
+
+    it.each(['ctr', 'cfb', 'ofb'] as CipherMode[])(
+      'should not pad in %s mode',
+      (mode) => {
+        const mtc = instances[mode];
+        const plain = instances.cbc;
+        const data = Buffer.from('byte exact');
+
+        expect(mtc.encryptBytes(data).length).toBe(
+          plain.encryptBytes(data).length - 16 + data.length
+        );
+      }
+    );
+
+    it('should decrypt data from any mode with a default instance', () => {
+      const ciphertext = instances.ofb.encrypt('recorded mode');
+
+      expect(instances.cbc.decrypt(ciphertext)).toBe('recorded mode');
+    });
+
+    it('should decrypt an arbitrary slice of a CTR ciphertext', () => {
+      const records = Array.from({ length: 20 }, (_, i) => `record-${i};`).join(
+        ''
+      );
+      const ciphertext = instances.ctr.encryptBytes(Buffer.from(records));
+
+      for (const [start, end] of [
+        [0, 5],
+        [17, 40],
+        [32, 48],
+        [100, records.length],
+        [7, 7],
+      ]) {
+        expect(
+          Buffer.from(
+            instances.ctr.decryptRange(ciphertext, start, end)
+          ).toString()
+        ).toBe(records.slice(start, end));
+      }
+    });
+
+    it('should reject random access outside CTR mode', () => {
+      const ciphertext = instances.cbc.encryptBytes(Buffer.from('test'));
+
+      expect(() => {
+        instances.cbc.decryptRange(ciphertext, 0, 1);
+      }).toThrow('Random access requires an unauthenticated CTR ciphertext');
+    });
+
+    it('should reject an unknown mode', () => {
+      expect(() => {
+        new MTCv3(password, salt, 10, 4, { mode: 'ecb' as CipherMode });
+      }).toThrow('Unsupported cipher mode: ecb');
+    });
+  });
+});
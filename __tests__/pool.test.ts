@@ -0,0 +1,197 @@
+import {
+  MTCv3,
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3FormatError,
+  MTCv3Options,
+} from '../MTCV3';
+import { seededRandomBytes } from '../helpers/encryptionUtils';
+import { parseEnvelope } from '../helpers/envelope';
+import { CIPHER_MODES } from '../helpers/modes';
+import { MTCv3Pool } from '../helpers/pool';
+
+const options = (extra: MTCv3Options = {}): MTCv3Options => ({
+  kdf: { algorithm: 'raw', key: Buffer.alloc(32, 1) },
+  randomBytes: seededRandomBytes('pool'),
+  ...extra,
+});
+
+// Payload lengths around block and segment boundaries
+const LENGTHS = [0, 1, 16, 1023, 1024, 1025, 20000];
+const payload = (length: number) =>
+  Buffer.from(Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff));
+
+describe('MTCv3Pool', () => {
+  const pools: MTCv3Pool[] = [];
+  // Small segments, so that even short payloads are split into many jobs
+  const createPool = (mtc: MTCv3, workers: number = 1) => {
+    const pool = mtc.createPool({ workers, segmentSize: 1024 });
+    pools.push(pool);
+    return pool;
+  };
+
+  afterAll(async () => {
+    await Promise.all(pools.map((pool) => pool.close()));
+  });
+
+  describe.each(CIPHER_MODES)('%s mode', (mode) => {
+    const sync = new MTCv3('', 'salt', 10, 4, options({ mode }));
+    const pool = createPool(new MTCv3('', 'salt', 10, 4, options({ mode })), 2);
+
+    it('should encrypt and seal byte for byte like the synchronous path', async () => {
+      for (const length of LENGTHS) {
+        const data = payload(length);
+        expect(Buffer.from(await pool.encryptBytes(data))).toEqual(
+          Buffer.from(sync.encryptBytes(data))
+        );
+        expect(Buffer.from(await pool.sealBytes(data, 'ad'))).toEqual(
+          Buffer.from(sync.sealBytes(data, 'ad'))
+        );
+      }
+    });
+
+    it('should decrypt and open what the synchronous path produced', async () => {
+      for (const length of LENGTHS) {
+        const data = payload(length);
+        expect(
+          Buffer.from(await pool.decryptBytes(sync.encryptBytes(data)))
+        ).toEqual(data);
+        expect(
+          Buffer.from(await pool.openBytes(sync.sealBytes(data, 'ad'), 'ad'))
+        ).toEqual(data);
+      }
+    });
+  });
+
+  it.each([2, 8, 16])(
+    'should match the synchronous path with matrix size %i',
+    async (size) => {
+      for (const mode of ['ctr', 'cbc'] as const) {
+        const sync = new MTCv3('', 'salt', 6, size, options({ mode }));
+        const pool = createPool(
+          new MTCv3('', 'salt', 6, size, options({ mode }))
+        );
+        const data = payload(5000);
+        const ciphertext = await pool.encryptBytes(data);
+
+        expect(Buffer.from(ciphertext)).toEqual(
+          Buffer.from(sync.encryptBytes(data))
+        );
+        expect(Buffer.from(await pool.decryptBytes(ciphertext))).toEqual(data);
+      }
+    }
+  );
+
+  it('should handle strings, key-dependent S-boxes and concurrent calls', async () => {
+    const mtc = new MTCv3(
+      '',
+      'salt',
+      10,
+      4,
+      options({ mode: 'ctr', sBox: { type: 'key-dependent' } })
+    );
+    const pool = createPool(mtc);
+
+    const results = await Promise.all(
+      ['first', 'second', 'third'.repeat(500)].map(async (text) => {
+        const ciphertext = await pool.seal(text, 'ad', { encoding: 'base64' });
+        expect(mtc.open(ciphertext, 'ad', { encoding: 'base64' })).toBe(text);
+        return pool.open(ciphertext, 'ad', { encoding: 'base64' });
+      })
+    );
+    expect(results).toEqual(['first', 'second', 'third'.repeat(500)]);
+    expect(await pool.decrypt(await pool.encrypt('hello'))).toBe('hello');
+  });
+
+  it('should decrypt ciphertexts with other parameters and legacy ones', async () => {
+    const mtc = new MTCv3('', 'salt', 10, 4, options());
+    const pool = createPool(mtc);
+    const other = new MTCv3('', 'salt', 12, 4, options({ mode: 'cfb' }));
+    const data = payload(3000);
+
+    expect(
+      Buffer.from(await pool.decryptBytes(other.encryptBytes(data)))
+    ).toEqual(data);
+
+    // Legacy layout: IV || CBC blocks under the version 1 cipher
+    const legacy = new MTCv3('', 'salt', 10, 4, options({ cipherVersion: 1 }));
+    const envelope = parseEnvelope(Buffer.from(legacy.encryptBytes(data)));
+    expect(
+      Buffer.from(
+        await pool.decryptBytes(
+          Buffer.concat([envelope.header.iv, envelope.payload])
+        )
+      )
+    ).toEqual(data);
+  });
+
+  it('should raise the same errors as the synchronous path', async () => {
+    const mtc = new MTCv3('', 'salt', 10, 4, options());
+    const pool = createPool(mtc);
+    const sealed = Buffer.from(mtc.sealBytes(payload(100), 'ad'));
+    const encrypted = Buffer.from(mtc.encryptBytes(payload(100)));
+
+    const tampered = Buffer.from(sealed);
+    tampered[tampered.length - 40] ^= 1;
+    await expect(pool.openBytes(tampered, 'ad')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+    await expect(pool.openBytes(sealed, 'other')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+    await expect(pool.openBytes(sealed.subarray(0, 20), 'ad')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+    await expect(pool.openBytes(encrypted, 'ad')).rejects.toThrow(
+      MTCv3AuthenticationError
+    );
+    await expect(pool.decryptBytes(sealed)).rejects.toThrow(
+      'Ciphertext is authenticated: use open() instead'
+    );
+    await expect(
+      pool.decryptBytes(encrypted.subarray(0, encrypted.length - 1))
+    ).rejects.toThrow(MTCv3DecryptionError);
+    await expect(pool.decryptBytes(encrypted.subarray(0, 10))).rejects.toThrow(
+      new MTCv3FormatError('Truncated envelope header')
+    );
+    await expect(pool.decryptBytes(Buffer.alloc(5))).rejects.toThrow(
+      MTCv3DecryptionError
+    );
+  });
+
+  it('should reject IV reuse like the instance it belongs to', async () => {
+    const mtc = new MTCv3('', 'salt', 10, 4, options());
+    const pool = createPool(mtc);
+    const iv = Buffer.alloc(16, 5);
+
+    await pool.encryptBytes(payload(10), { iv });
+    expect(() => mtc.encryptBytes(payload(10), { iv })).toThrow(
+      'IV reuse detected'
+    );
+  });
+
+  it('should refuse work once closed', async () => {
+    const pool = new MTCv3('', 'salt', 10, 4, options()).createPool({
+      workers: 1,
+    });
+    const pending = expect(pool.encryptBytes(payload(100))).rejects.toThrow(
+      'Pool is closed'
+    );
+    await pool.close();
+
+    await pending;
+    await expect(pool.encryptBytes(payload(100))).rejects.toThrow(
+      'Pool is closed'
+    );
+  });
+
+  it('should validate its options', () => {
+    const mtc = new MTCv3('', 'salt', 10, 4, options());
+    expect(() => mtc.createPool({ workers: 0 })).toThrow(
+      'Worker count must be a positive integer'
+    );
+    expect(() => mtc.createPool({ segmentSize: 0.5 })).toThrow(
+      'Segment size must be a positive integer'
+    );
+  });
+});
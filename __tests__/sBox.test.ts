@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { MTCv3, MTCv3FormatError } from '../MTCV3';
+import { AES_S_BOX } from '../constants/encryptionConstants';
+import { parseEnvelope } from '../helpers/envelope';
+import {
+  analyzeSBox,
+  generateKeyDependentSBox,
+  resolveSBoxParams,
+} from '../helpers/sBox';
+
+describe('S-box analysis', () => {
+  it('should report the known metrics of the AES S-box', () => {
+    expect(analyzeSBox(AES_S_BOX)).toEqual({
+      bijective: true,
+      differentialUniformity: 4,
+      nonlinearity: 112,
+      fixedPoints: 0,
+    });
+  });
+
+  it('should report the identity as linear and fully fixed', () => {
+    const identity = Array.from({ length: 256 }, (_, i) => i);
+
+    expect(analyzeSBox(identity)).toEqual({
+      bijective: true,
+      differentialUniformity: 256,
+      nonlinearity: 0,
+      fixedPoints: 256,
+    });
+  });
+
+  it('should detect non-bijective tables', () => {
+    const table = Array.from(AES_S_BOX);
+    table[1] = table[0];
+
+    expect(analyzeSBox(table).bijective).toBe(false);
+  });
+
+  it('should reject tables of the wrong size', () => {
+    expect(() => analyzeSBox([1, 2, 3])).toThrow(
+      'An S-box must have 256 entries'
+    );
+  });
+});
+
+describe('key-dependent S-box generation', () => {
+  const thresholds = resolveSBoxParams({ type: 'key-dependent' }) as {
+    maxDifferentialUniformity: number;
+    minNonlinearity: number;
+  };
+
+  it('should generate bijective boxes that meet the default thresholds', () => {
+    for (let i = 0; i < 5; i++) {
+      const { forward, inverse } = generateKeyDependentSBox(
+        crypto.randomBytes(32),
+        thresholds
+      );
+      const metrics = analyzeSBox(forward);
+
+      expect(metrics.bijective).toBe(true);
+      expect(metrics.differentialUniformity).toBeLessThanOrEqual(10);
+      expect(metrics.nonlinearity).toBeGreaterThanOrEqual(94);
+      forward.forEach((value, index) => {
+        expect(inverse[value]).toBe(index);
+      });
+    }
+  });
+
+  it('should meet the strictest accepted thresholds', () => {
+    const { forward } = generateKeyDependentSBox(crypto.randomBytes(32), {
+      maxDifferentialUniformity: 10,
+      minNonlinearity: 96,
+    });
+    const metrics = analyzeSBox(forward);
+
+    expect(metrics.differentialUniformity).toBeLessThanOrEqual(10);
+    expect(metrics.nonlinearity).toBeGreaterThanOrEqual(96);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const seed = Buffer.alloc(32, 7);
+
+    expect(generateKeyDependentSBox(seed, thresholds)).toEqual(
+      generateKeyDependentSBox(seed, thresholds)
+    );
+    expect(generateKeyDependentSBox(seed, thresholds).forward).not.toEqual(
+      generateKeyDependentSBox(Buffer.alloc(32, 8), thresholds).forward
+    );
+  });
+
+  it('should fill in default thresholds', () => {
+    expect(resolveSBoxParams()).toEqual({ type: 'aes' });
+    expect(
+      resolveSBoxParams({ type: 'key-dependent', minNonlinearity: 90 })
+    ).toEqual({
+      type: 'key-dependent',
+      maxDifferentialUniformity: 10,
+      minNonlinearity: 90,
+    });
+  });
+
+  it('should reject thresholds that are too strict or malformed', () => {
+    expect(() =>
+      resolveSBoxParams({ type: 'key-dependent', maxDifferentialUniformity: 8 })
+    ).toThrow('Unsupported S-box differential uniformity threshold: 8');
+    expect(() =>
+      resolveSBoxParams({ type: 'key-dependent', minNonlinearity: 100 })
+    ).toThrow('Unsupported S-box nonlinearity threshold: 100');
+    expect(() =>
+      resolveSBoxParams({ type: 'key-dependent', minNonlinearity: 1.5 })
+    ).toThrow('Unsupported S-box nonlinearity threshold');
+    expect(() => resolveSBoxParams({ type: 'des' } as any)).toThrow(
+      'Unsupported S-box type: des'
+    );
+  });
+});
+
+describe('MTCv3 with a key-dependent S-box', () => {
+  const kdf = { algorithm: 'pbkdf2' as const, iterations: 1000 };
+  const iv = Buffer.alloc(16, 3);
+  const mtc = new MTCv3('password', 'salt', 10, 4, {
+    kdf,
+    sBox: { type: 'key-dependent' },
+  });
+
+  it('should round-trip data', () => {
+    const plaintext = 'Key-dependent substitution';
+
+    expect(mtc.decrypt(mtc.encrypt(plaintext))).toBe(plaintext);
+    expect(mtc.open(mtc.seal(plaintext, 'ad'), 'ad')).toBe(plaintext);
+  });
+
+  it('should produce different ciphertexts from the AES S-box', () => {
+    const aes = new MTCv3('password', 'salt', 10, 4, { kdf });
+
+    expect(mtc.encrypt('same input', { iv })).not.toBe(
+      aes.encrypt('same input', { iv })
+    );
+  });
+
+  it('should record the S-box and thresholds in the envelope', () => {
+    const custom = new MTCv3('password', 'salt', 10, 4, {
+      kdf,
+      sBox: { type: 'key-dependent', minNonlinearity: 92 },
+    });
+    const ciphertext = Buffer.from(custom.encrypt('data'), 'hex');
+
+    expect(parseEnvelope(ciphertext).header.sBox).toEqual({
+      type: 'key-dependent',
+      maxDifferentialUniformity: 10,
+      minNonlinearity: 92,
+    });
+    expect(
+      parseEnvelope(Buffer.from(new MTCv3('p', 's').encrypt('data'), 'hex'))
+        .header.sBox
+    ).toEqual({ type: 'aes' });
+
+    // An instance with other defaults decrypts using the recorded variant
+    const aes = new MTCv3('password', 'salt', 10, 4, { kdf });
+    expect(aes.decrypt(ciphertext.toString('hex'))).toBe('data');
+  });
+
+  it('should reject headers demanding unreachable thresholds', () => {
+    const ciphertext = Buffer.from(mtc.encrypt('data'), 'hex');
+    // Flags, then the S-box params directly after the 4-byte PBKDF2 params
+    const offset = 4 + 8 + 4;
+    expect(ciphertext[7]).toBe(0x02);
+    ciphertext[offset + 1] = 120;
+
+    expect(() => mtc.decrypt(ciphertext.toString('hex'))).toThrow(
+      MTCv3FormatError
+    );
+  });
+});
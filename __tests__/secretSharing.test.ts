@@ -0,0 +1,257 @@
+import { MTCv3 } from '../MTCV3';
+import { MTCv3Keyring } from '../keyring';
+import {
+  combineKey,
+  combinePassword,
+  combineShares,
+  parseShare,
+  serializeShare,
+  splitKey,
+  splitPassword,
+  splitSecret,
+} from '../secretSharing';
+import { seededRandomBytes } from '../helpers/encryptionUtils';
+import { MTCv3Error, MTCv3FormatError } from '../helpers/errors';
+import {
+  GF_EXP,
+  GF_LOG,
+  gfDiv,
+  gfInterpolate,
+  gfInverse,
+  gfMul,
+  gfPolyEval,
+} from '../helpers/gf256';
+
+// Reference multiplication modulo the AES polynomial
+const gfMulRef = (a: number, b: number): number => {
+  let p = 0;
+  for (let i = 0; i < 8; i++) {
+    if (b & (1 << i)) {
+      p ^= a << i;
+    }
+  }
+  for (let bit = 15; bit >= 8; bit--) {
+    if (p & (1 << bit)) {
+      p ^= 0x11b << (bit - 8);
+    }
+  }
+  return p;
+};
+
+// Every subset of the indices 0..n-1
+const subsets = (n: number): number[][] =>
+  Array.from({ length: 1 << n }, (_, mask) =>
+    Array.from({ length: n }, (_, i) => i).filter((i) => mask & (1 << i))
+  );
+
+describe('GF(2^8)', () => {
+  it('should multiply like the reference implementation', () => {
+    for (let a = 0; a < 256; a++) {
+      for (let b = 0; b < 256; b++) {
+        if (gfMul(a, b) !== gfMulRef(a, b)) {
+          throw new Error(`gfMul(${a}, ${b}) is wrong`);
+        }
+      }
+    }
+    expect(gfMul(0x57, 0x83)).toBe(0xc1); // FIPS-197 section 4.2
+  });
+
+  it('should have consistent log and antilog tables', () => {
+    expect(new Set(GF_EXP.subarray(0, 255)).size).toBe(255);
+    for (let x = 1; x < 256; x++) {
+      expect(GF_EXP[GF_LOG[x]]).toBe(x);
+    }
+  });
+
+  it('should invert and divide', () => {
+    expect(gfInverse(0)).toBe(0);
+    expect(gfInverse(0x53)).toBe(0xca); // FIPS-197 section 4.2
+    for (let a = 1; a < 256; a++) {
+      expect(gfMul(a, gfInverse(a))).toBe(1);
+      expect(gfDiv(gfMul(a, 0x1f), 0x1f)).toBe(a);
+    }
+    expect(gfDiv(0, 7)).toBe(0);
+    expect(() => gfDiv(1, 0)).toThrow('Division by zero in GF(2^8)');
+  });
+
+  it('should evaluate and interpolate polynomials', () => {
+    // p(x) = 7 + 3x + 2x^2
+    const coefficients = [7, 3, 2];
+    const expected = (x: number) => 7 ^ gfMul(3, x) ^ gfMul(2, gfMul(x, x));
+    for (let x = 0; x < 256; x++) {
+      expect(gfPolyEval(coefficients, x)).toBe(expected(x));
+    }
+    expect(gfPolyEval([], 5)).toBe(0);
+
+    const points = [1, 2, 3].map((x) => [x, expected(x)] as const);
+    for (const x of [0, 4, 200]) {
+      expect(gfInterpolate(points, x)).toBe(expected(x));
+    }
+  });
+});
+
+describe('Shamir secret sharing', () => {
+  const secret = Buffer.from('correct horse battery staple');
+
+  for (let n = 2; n <= 5; n++) {
+    for (let k = 2; k <= n; k++) {
+      it(`should reconstruct ${k}-of-${n} from exactly the subsets of at least ${k} shares`, () => {
+        const shares = splitSecret(secret, n, k);
+        expect(shares).toHaveLength(n);
+
+        for (const subset of subsets(n)) {
+          const chosen = subset.map((i) => shares[i]);
+          if (subset.length >= k) {
+            expect(combineShares(chosen)).toEqual(secret);
+          } else if (subset.length > 0) {
+            expect(() => combineShares(chosen)).toThrow(
+              new MTCv3Error(
+                `Not enough shares: ${k} required, ${subset.length} given`
+              )
+            );
+          }
+        }
+      });
+    }
+  }
+
+  it('should not recover the secret by interpolating fewer than k shares', () => {
+    const shares = splitSecret(secret, 5, 3).map((share) =>
+      parseShare(Buffer.from(share, 'hex'))
+    );
+
+    for (const pair of subsets(5).filter((subset) => subset.length === 2)) {
+      const guess = Buffer.from(
+        secret.map((_, i) =>
+          gfInterpolate(
+            pair.map((j) => [shares[j].index, shares[j].data[i]] as const),
+            0
+          )
+        )
+      );
+      expect(guess).not.toEqual(secret);
+    }
+  });
+
+  it('should encode the index, threshold and checksum in every share', () => {
+    const shares = splitSecret('secret', 3, 2, {
+      randomBytes: seededRandomBytes('shares'),
+    });
+    expect(shares).toEqual(
+      splitSecret('secret', 3, 2, { randomBytes: seededRandomBytes('shares') })
+    );
+
+    const parsed = shares.map((share) => parseShare(Buffer.from(share, 'hex')));
+    expect(parsed.map((share) => share.index)).toEqual([1, 2, 3]);
+    expect(parsed.every((share) => share.threshold === 2)).toBe(true);
+    expect(parsed.every((share) => share.type === 'bytes')).toBe(true);
+    expect(Buffer.from(shares[0], 'hex').length).toBe(4 + 4 + 4 + 6 + 4);
+    expect(serializeShare(parsed[1]).toString('hex')).toBe(shares[1]);
+  });
+
+  it('should accept shares in any order, with duplicates', () => {
+    const shares = splitSecret(secret, 5, 3, { encoding: 'base64' });
+    expect(
+      combineShares([shares[4], shares[0], shares[4], shares[2]], {
+        encoding: 'base64',
+      })
+    ).toEqual(secret);
+    expect(() =>
+      combineShares([shares[0], shares[0], shares[0]], { encoding: 'base64' })
+    ).toThrow('Not enough shares: 3 required, 1 given');
+  });
+
+  it('should detect corrupted shares', () => {
+    const shares = splitSecret(secret, 3, 2);
+    const share = Buffer.from(shares[0], 'hex');
+
+    for (let i = 0; i < share.length; i++) {
+      const corrupted = Buffer.from(share);
+      corrupted[i] ^= 0x01;
+      expect(() =>
+        combineShares([corrupted.toString('hex'), shares[1]])
+      ).toThrow(MTCv3FormatError);
+    }
+    expect(() => combineShares([shares[0].slice(0, 20), shares[1]])).toThrow(
+      new MTCv3FormatError('Truncated share')
+    );
+  });
+
+  it('should refuse to mix shares of different secrets', () => {
+    const a = splitSecret(secret, 3, 2);
+    const b = splitSecret(secret, 3, 2);
+    expect(() => combineShares([a[0], b[1]])).toThrow(
+      new MTCv3FormatError('Shares belong to different secrets')
+    );
+
+    const forged = parseShare(Buffer.from(a[1], 'hex'));
+    forged.data[0] ^= 1;
+    expect(() =>
+      combineShares([a[0], a[1], serializeShare(forged).toString('hex')])
+    ).toThrow(new MTCv3FormatError('Conflicting shares for index 2'));
+  });
+
+  it('should validate its parameters', () => {
+    expect(() => splitSecret(secret, 1, 1)).toThrow(
+      'Share count must be between 2 and 255'
+    );
+    expect(() => splitSecret(secret, 256, 2)).toThrow(
+      'Share count must be between 2 and 255'
+    );
+    expect(() => splitSecret(secret, 3, 1)).toThrow(
+      'Threshold must be between 2 and the share count'
+    );
+    expect(() => splitSecret(secret, 3, 4)).toThrow(
+      'Threshold must be between 2 and the share count'
+    );
+    expect(() => splitSecret('', 3, 2)).toThrow('Cannot split an empty secret');
+    expect(() => combineShares([])).toThrow(new MTCv3Error('No shares given'));
+  });
+
+  it('should split up to 255 shares', () => {
+    const shares = splitSecret(secret, 255, 2);
+    expect(combineShares([shares[254], shares[100]])).toEqual(secret);
+  });
+
+  it('should split and combine a keystore master password', async () => {
+    const keyring = new MTCv3Keyring();
+    keyring.addKey('main', { type: 'raw', key: Buffer.alloc(32, 7) });
+    const shares = splitPassword('master pässword', 3, 2);
+    const keystore = await keyring.exportKeystore('master pässword', {
+      kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+    });
+
+    const password = combinePassword([shares[2], shares[0]]);
+    expect(password).toBe('master pässword');
+    const restored = await MTCv3Keyring.importKeystore(keystore, password);
+    expect(restored.keyIds()).toEqual(['main']);
+  });
+
+  it('should split and combine an MTCv3 key', () => {
+    const key = Buffer.alloc(32, 9);
+    const mtc = new MTCv3('', 'salt', 10, 4, {
+      kdf: { algorithm: 'raw', key },
+    });
+    const ciphertext = mtc.encrypt('hello');
+
+    const shares = splitKey(key, 4, 3);
+    const restored = new MTCv3('', 'salt', 10, 4, {
+      kdf: combineKey(shares.slice(1)),
+    });
+    expect(restored.decrypt(ciphertext)).toBe('hello');
+    expect(() => splitKey(Buffer.alloc(15), 3, 2)).toThrow(
+      'Raw keys must be at least 16 bytes'
+    );
+  });
+
+  it('should not mix up secret types', () => {
+    const passwordShares = splitPassword('a password', 3, 2);
+    expect(combineShares(passwordShares).toString()).toBe('a password');
+    expect(() => combineKey(passwordShares)).toThrow(
+      new MTCv3FormatError('Shares hold a password secret, not a key')
+    );
+    expect(() => combinePassword(splitKey(Buffer.alloc(16), 2, 2))).toThrow(
+      new MTCv3FormatError('Shares hold a key secret, not a password')
+    );
+  });
+});
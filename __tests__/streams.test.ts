@@ -0,0 +1,206 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { MTCv3, MTCv3DecryptionError } from '../MTCV3';
+import { parseEnvelope } from '../helpers/envelope';
+import { CIPHER_MODES, CipherMode } from '../helpers/modes';
+
+// Run chunks through a transform and collect the output
+const runStream = async (
+  transform: Transform,
+  chunks: Buffer[]
+): Promise<Buffer> => {
+  const output: Buffer[] = [];
+  await pipeline(
+    Readable.from(chunks),
+    transform,
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        output.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(output);
+};
+
+// Split data into chunks whose sizes cycle through awkward values
+const splitAwkwardly = (data: Buffer): Buffer[] => {
+  const sizes = [1, 3, 15, 16, 17, 31, 100];
+  const chunks: Buffer[] = [];
+  for (let offset = 0, i = 0; offset < data.length; i++) {
+    const size = sizes[i % sizes.length];
+    chunks.push(data.slice(offset, offset + size));
+    offset += size;
+  }
+  return chunks;
+};
+
+describe('MTCv3 streams', () => {
+  const password = 'strongpassword';
+  const salt = 'somesalt';
+  const data = Buffer.from(
+    Array.from({ length: 1000 }, (_, i) => (i * 7) % 256)
+  );
+  const instances = Object.fromEntries(
+    CIPHER_MODES.map((mode) => [
+      mode,
+      new MTCv3(password, salt, 10, 4, { mode }),
+    ])
+  ) as Record<CipherMode, MTCv3>;
+  const reference = new MTCv3(password, salt);
+
+  it('should produce the same bytes as encryptBytes', async () => {
+    const iv = Buffer.alloc(16, 1);
+    const streamed = await runStream(
+      instances.cbc.createEncryptStream({ iv }),
+      splitAwkwardly(data)
+    );
+
+    expect(streamed).toEqual(Buffer.from(reference.encryptBytes(data, { iv })));
+  });
+
+  it('should produce the same bytes as sealBytes when authenticated', async () => {
+    const iv = Buffer.alloc(16, 2);
+    const streamed = await runStream(
+      instances.cbc.createEncryptStream({
+        iv,
+        authenticated: true,
+        associatedData: 'ad',
+      }),
+      splitAwkwardly(data)
+    );
+
+    expect(streamed).toEqual(
+      Buffer.from(reference.sealBytes(data, 'ad', { iv }))
+    );
+    expect(Buffer.from(reference.openBytes(streamed, 'ad'))).toEqual(data);
+  });
+
+  it('should decrypt legacy ciphertexts without a header', async () => {
+    const v1 = new MTCv3(password, salt, 10, 4, { cipherVersion: 1 });
+    const { header, payload } = parseEnvelope(
+      Buffer.from(v1.encryptBytes(data))
+    );
+    const legacy = Buffer.concat([header.iv, payload]);
+
+    const plaintext = await runStream(
+      reference.createDecryptStream(),
+      splitAwkwardly(legacy)
+    );
+    expect(plaintext).toEqual(data);
+  });
+
+  describe.each(CIPHER_MODES)('%s mode', (mode) => {
+    it.each([0, 1, 15, 16, 17, 1000])(
+      'should round-trip %i bytes across chunk boundaries',
+      async (length) => {
+        const input = data.slice(0, length);
+        const ciphertext = await runStream(
+          instances[mode].createEncryptStream(),
+          splitAwkwardly(input)
+        );
+        const plaintext = await runStream(
+          instances[mode].createDecryptStream(),
+          splitAwkwardly(ciphertext)
+        );
+
+        expect(plaintext).toEqual(input);
+        expect(Buffer.from(reference.decryptBytes(ciphertext))).toEqual(input);
+      }
+    );
+
+    it('should round-trip authenticated streams', async () => {
+      const options = { authenticated: true, associatedData: 'file.log' };
+      const ciphertext = await runStream(
+        instances[mode].createEncryptStream(options),
+        splitAwkwardly(data)
+      );
+      const plaintext = await runStream(
+        instances[mode].createDecryptStream(options),
+        splitAwkwardly(ciphertext)
+      );
+
+      expect(plaintext).toEqual(data);
+    });
+  });
+
+  describe('errors', () => {
+    it('should fail a tampered authenticated stream', async () => {
+      const options = { authenticated: true };
+      const ciphertext = Buffer.from(instances.ctr.sealBytes(data));
+      ciphertext[200] ^= 0x01;
+
+      await expect(
+        runStream(instances.ctr.createDecryptStream(options), [ciphertext])
+      ).rejects.toThrow('Authentication failed');
+    });
+
+    it('should fail a truncated authenticated stream', async () => {
+      const options = { authenticated: true };
+      const ciphertext = Buffer.from(instances.cbc.sealBytes(data));
+
+      await expect(
+        runStream(instances.cbc.createDecryptStream(options), [
+          ciphertext.slice(0, ciphertext.length - 16),
+        ])
+      ).rejects.toThrow('Authentication failed');
+    });
+
+    it('should refuse sealed data in an unauthenticated stream', async () => {
+      const ciphertext = Buffer.from(instances.cbc.sealBytes(data));
+
+      await expect(
+        runStream(instances.cbc.createDecryptStream(), [ciphertext])
+      ).rejects.toThrow('use open() instead');
+    });
+
+    it('should report a truncated header', async () => {
+      const ciphertext = Buffer.from(instances.cbc.encryptBytes(data));
+
+      await expect(
+        runStream(instances.cbc.createDecryptStream(), [
+          ciphertext.slice(0, 10),
+        ])
+      ).rejects.toThrow('Truncated envelope header');
+    });
+
+    it('should report a ciphertext that is not a whole number of blocks', async () => {
+      const ciphertext = Buffer.from(instances.cbc.encryptBytes(data));
+
+      await expect(
+        runStream(instances.cbc.createDecryptStream(), [
+          ciphertext.slice(0, ciphertext.length - 1),
+        ])
+      ).rejects.toThrow(MTCv3DecryptionError);
+    });
+  });
+
+  it('should pipe files through fs streams', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-'));
+    const source = path.join(dir, 'source.log');
+    const encrypted = path.join(dir, 'source.log.mtc');
+    const decrypted = path.join(dir, 'source.log.out');
+    const content = Buffer.from('log line\n'.repeat(5000));
+    fs.writeFileSync(source, content);
+
+    try {
+      await pipeline(
+        fs.createReadStream(source, { highWaterMark: 1000 }),
+        instances.cbc.createEncryptStream(),
+        fs.createWriteStream(encrypted)
+      );
+      await pipeline(
+        fs.createReadStream(encrypted, { highWaterMark: 777 }),
+        instances.cbc.createDecryptStream(),
+        fs.createWriteStream(decrypted)
+      );
+
+      expect(fs.readFileSync(decrypted)).toEqual(content);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,456 @@
+import { execFileSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { MTCv3, MTCv3Options } from '../MTCV3';
+import { seededRandomBytes } from '../helpers/encryptionUtils';
+import { parseEnvelope } from '../helpers/envelope';
+import { KdfOptions } from '../helpers/kdf';
+import { CIPHER_MODES, CipherMode } from '../helpers/modes';
+import { nodeCryptoPlatform } from '../helpers/nodePlatform';
+import { SBoxOptions } from '../helpers/sBox';
+import {
+  createWebCryptoPlatform,
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3FormatError,
+  MTCv3Web,
+  MTCv3WebOptions,
+} from '../web';
+
+const vectors = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'vectors', 'knownAnswer.json'), 'utf-8')
+);
+
+const rawKey = Buffer.alloc(32, 7);
+const platform = createWebCryptoPlatform(globalThis.crypto);
+
+// The same configuration for both builds
+const createPair = async (
+  options: MTCv3WebOptions = {},
+  password: string = ''
+): Promise<[MTCv3, MTCv3Web]> => {
+  const { rounds = 10, matrixSize = 4, platform: _, ...rest } = options;
+  const node = new MTCv3(
+    password,
+    'salt',
+    rounds,
+    matrixSize,
+    rest as MTCv3Options
+  );
+  const web = await MTCv3Web.create(password, 'salt', { platform, ...options });
+  return [node, web];
+};
+
+const hex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+
+describe('MTCv3Web', () => {
+  const plaintext = Buffer.from('The quick brown fox jumps over the lazy dog');
+  const raw: KdfOptions = { algorithm: 'raw', key: rawKey };
+
+  describe('identical ciphertexts', () => {
+    it.each(
+      CIPHER_MODES.flatMap((mode) =>
+        [1, 2].map((cipherVersion) => [mode, cipherVersion] as const)
+      )
+    )('should match MTCv3 in %s mode, cipher version %d', async (mode, v) => {
+      const [node, web] = await createPair({
+        mode,
+        cipherVersion: v,
+        kdf: raw,
+      });
+      const [iv, sealIV] = [crypto.randomBytes(16), crypto.randomBytes(16)];
+
+      expect(hex(await web.encryptBytes(plaintext, { iv }))).toBe(
+        hex(node.encryptBytes(plaintext, { iv }))
+      );
+      expect(
+        hex(await web.sealBytes(plaintext, 'context', { iv: sealIV }))
+      ).toBe(hex(node.sealBytes(plaintext, 'context', { iv: sealIV })));
+    });
+
+    it.each([
+      ['PBKDF2-SHA256', { algorithm: 'pbkdf2', iterations: 1000 }],
+      [
+        'PBKDF2-SHA512',
+        { algorithm: 'pbkdf2', hash: 'sha512', iterations: 10 },
+      ],
+    ] as [string, KdfOptions][])(
+      'should match MTCv3 with %s',
+      async (_, kdf) => {
+        const [node, web] = await createPair({ kdf }, 'password');
+        const iv = crypto.randomBytes(16);
+
+        expect(await web.encrypt('hello', { iv })).toBe(
+          node.encrypt('hello', { iv })
+        );
+      }
+    );
+
+    it.each([2, 8, 16])(
+      'should match MTCv3 with %dx%d blocks',
+      async (matrixSize) => {
+        const [node, web] = await createPair({
+          matrixSize,
+          rounds: 6,
+          mode: 'ctr',
+          kdf: raw,
+        });
+        const iv = crypto.randomBytes(matrixSize * matrixSize);
+
+        expect(hex(await web.sealBytes(plaintext, '', { iv }))).toBe(
+          hex(node.sealBytes(plaintext, '', { iv }))
+        );
+      }
+    );
+
+    it('should match MTCv3 with a key-dependent S-box', async () => {
+      const sBox: SBoxOptions = { type: 'key-dependent' };
+      const [node, web] = await createPair({ sBox, kdf: raw });
+      const iv = crypto.randomBytes(16);
+
+      expect(hex(await web.encryptBytes(plaintext, { iv }))).toBe(
+        hex(node.encryptBytes(plaintext, { iv }))
+      );
+    });
+
+    it('should match MTCv3 on the Node platform, including scrypt', async () => {
+      const kdf: KdfOptions = { algorithm: 'scrypt', N: 1024, r: 8, p: 1 };
+      const node = new MTCv3('password', 'salt', 10, 4, { kdf });
+      const web = await MTCv3Web.create('password', 'salt', {
+        kdf,
+        platform: nodeCryptoPlatform,
+      });
+      const iv = crypto.randomBytes(16);
+
+      expect(await web.seal('hello', 'ad', { iv })).toBe(
+        node.seal('hello', 'ad', { iv })
+      );
+    });
+  });
+
+  describe('known-answer vectors', () => {
+    const messages = (vectors.messages as any[]).filter(
+      (vector) => vector.kdf !== 'scrypt'
+    );
+
+    it.each(messages.map((vector, i) => [i, vector]))(
+      'should match message vector #%d',
+      async (_, vector) => {
+        const web = await MTCv3Web.create(vector.password ?? '', vector.salt, {
+          rounds: vector.rounds,
+          matrixSize: vector.matrixSize,
+          mode: vector.mode,
+          cipherVersion: vector.cipherVersion,
+          kdf:
+            vector.kdf === 'raw'
+              ? { algorithm: 'raw', key: Buffer.from(vector.key, 'hex') }
+              : { algorithm: 'pbkdf2', iterations: 1000 },
+          sBox: vector.sBox,
+          randomBytes: seededRandomBytes(vector.randomSeed),
+          platform,
+        });
+        const data = Buffer.from(vector.plaintext, 'utf-8');
+        const options = vector.iv ? { iv: Buffer.from(vector.iv, 'hex') } : {};
+        const ciphertext = vector.sealed
+          ? await web.sealBytes(data, vector.associatedData, options)
+          : await web.encryptBytes(data, options);
+
+        expect(hex(ciphertext)).toBe(vector.ciphertext);
+      }
+    );
+  });
+
+  describe('interoperability', () => {
+    it.each(CIPHER_MODES)(
+      'should decrypt each other in %s mode',
+      async (mode: CipherMode) => {
+        const [node, web] = await createPair({ mode, kdf: raw });
+
+        expect(await web.decrypt(node.encrypt('from node'))).toBe('from node');
+        expect(node.decrypt(await web.encrypt('from web'))).toBe('from web');
+        expect(await web.open(node.seal('sealed', 'ad'), 'ad')).toBe('sealed');
+        expect(node.open(await web.seal('sealed', 'ad'), 'ad')).toBe('sealed');
+      }
+    );
+
+    it('should support every string encoding', async () => {
+      const [node, web] = await createPair({ kdf: raw });
+
+      for (const encoding of ['hex', 'base64', 'base64url'] as const) {
+        const text = 'ünïcödé ✓';
+        expect(
+          await web.decrypt(node.encrypt(text, { encoding }), { encoding })
+        ).toBe(text);
+        expect(
+          node.decrypt(await web.encrypt(text, { encoding }), { encoding })
+        ).toBe(text);
+      }
+    });
+
+    it('should decrypt legacy ciphertexts without a header', async () => {
+      const [node, web] = await createPair({ kdf: raw, cipherVersion: 1 });
+      const { header, payload } = parseEnvelope(
+        Buffer.from(node.encryptBytes(plaintext))
+      );
+      const legacy = Buffer.concat([header.iv, payload]);
+
+      expect(hex(await web.decryptBytes(legacy))).toBe(hex(plaintext));
+      expect(hex(node.decryptBytes(legacy))).toBe(hex(plaintext));
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject modified sealed data and the wrong associated data', async () => {
+      const [, web] = await createPair({ kdf: raw });
+      const sealed = await web.sealBytes(plaintext, 'ad');
+
+      await expect(web.openBytes(sealed, 'other')).rejects.toThrow(
+        MTCv3AuthenticationError
+      );
+      const modified = new Uint8Array(sealed);
+      modified[modified.length - 40] ^= 1;
+      await expect(web.openBytes(modified, 'ad')).rejects.toThrow(
+        MTCv3AuthenticationError
+      );
+      await expect(web.openBytes(sealed.subarray(0, 10))).rejects.toThrow(
+        MTCv3AuthenticationError
+      );
+    });
+
+    it('should fail to decrypt with the wrong key', async () => {
+      const [, web] = await createPair({ kdf: raw });
+      const other = await MTCv3Web.create('', 'salt', {
+        kdf: { algorithm: 'raw', key: Buffer.alloc(32, 8) },
+        platform,
+      });
+      const ciphertext = await web.encryptBytes(plaintext);
+
+      await expect(other.decryptBytes(ciphertext)).rejects.toThrow(
+        MTCv3DecryptionError
+      );
+    });
+
+    it('should require the kind of secret the header names', async () => {
+      const [, web] = await createPair({ kdf: raw, acceptHeaderKdf: true });
+      const passwordBased = await MTCv3Web.create('password', 'salt', {
+        kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+        acceptHeaderKdf: true,
+        platform,
+      });
+
+      await expect(
+        passwordBased.decryptBytes(await web.encryptBytes(plaintext))
+      ).rejects.toThrow(MTCv3FormatError);
+      await expect(
+        web.decryptBytes(await passwordBased.encryptBytes(plaintext))
+      ).rejects.toThrow('A password is required');
+    });
+
+    it('should reject another KDF unless acceptHeaderKdf is set', async () => {
+      const pbkdf2 = (iterations: number) =>
+        MTCv3Web.create('password', 'salt', {
+          kdf: { algorithm: 'pbkdf2', iterations },
+          platform,
+        });
+      const ciphertext = await (await pbkdf2(2000)).encryptBytes(plaintext);
+
+      await expect(
+        (await pbkdf2(1000)).decryptBytes(ciphertext)
+      ).rejects.toThrow("Key derivation differs from this instance's: pbkdf2");
+      const accepting = await MTCv3Web.create('password', 'salt', {
+        kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+        acceptHeaderKdf: true,
+        platform,
+      });
+      expect(hex(await accepting.decryptBytes(ciphertext))).toBe(
+        hex(plaintext)
+      );
+    });
+
+    it('should keep only the most recently used header keys', async () => {
+      let derivations = 0;
+      const counting = {
+        ...platform,
+        pbkdf2: (...args: Parameters<typeof platform.pbkdf2>) => {
+          derivations++;
+          return platform.pbkdf2(...args);
+        },
+      };
+      const create = (salt: string) =>
+        MTCv3Web.create('password', salt, {
+          kdf: { algorithm: 'pbkdf2', iterations: 1000 },
+          platform: counting,
+        });
+      const web = await create('salt');
+      const ciphertexts = [];
+      for (let i = 0; i < 9; i++) {
+        ciphertexts.push(
+          await (await create(`salt ${i}`)).encryptBytes(plaintext)
+        );
+      }
+
+      derivations = 0;
+      for (const ciphertext of ciphertexts) {
+        await web.decryptBytes(ciphertext);
+      }
+      expect(derivations).toBe(9);
+
+      // Seven header key sets fit beside the instance's own
+      await web.decryptBytes(ciphertexts[8]);
+      await web.encryptBytes(plaintext);
+      expect(derivations).toBe(9);
+      await web.decryptBytes(ciphertexts[0]);
+      expect(derivations).toBe(10);
+    });
+
+    it('should reject scrypt without platform support', async () => {
+      await expect(
+        MTCv3Web.create('password', 'salt', {
+          kdf: { algorithm: 'scrypt', N: 1024 },
+          platform,
+        })
+      ).rejects.toThrow('scrypt is not supported by this platform');
+    });
+
+    it('should reject invalid options and IV reuse', async () => {
+      await expect(
+        MTCv3Web.create('', 'salt', { matrixSize: 3, kdf: raw, platform })
+      ).rejects.toThrow('Unsupported matrix size: 3');
+      await expect(
+        MTCv3Web.create('', 'salt', { rounds: 300, kdf: raw, platform })
+      ).rejects.toThrow('Rounds must be an integer from 1 to 255');
+      await expect(
+        MTCv3Web.create('', 'salt', {
+          kdf: { algorithm: 'raw', key: Buffer.alloc(8) },
+          platform,
+        })
+      ).rejects.toThrow('Raw keys must be at least 16 bytes');
+
+      const [, web] = await createPair({ kdf: raw });
+      const iv = new Uint8Array(16);
+      await web.encryptBytes(plaintext, { iv });
+      await expect(web.encryptBytes(plaintext, { iv })).rejects.toThrow(
+        'IV reuse detected'
+      );
+    });
+  });
+
+  describe('platform independence', () => {
+    const forbidden = ['crypto', 'fs', 'stream', 'worker_threads', 'path'];
+
+    // Function to collect the local modules reachable from an entry point
+    const importGraph = (entry: string): Map<string, string[]> => {
+      const graph = new Map<string, string[]>();
+      const visit = (file: string) => {
+        if (graph.has(file)) {
+          return;
+        }
+        const source = fs.readFileSync(file, 'utf-8');
+        const specifiers = Array.from(
+          source.matchAll(/from '([^']+)'/g),
+          (match) => match[1]
+        );
+        graph.set(file, specifiers);
+        specifiers
+          .filter((specifier) => specifier.startsWith('.'))
+          .forEach((specifier) =>
+            visit(
+              path.resolve(
+                path.dirname(file),
+                specifier.replace(/\.js$/, '.ts')
+              )
+            )
+          );
+      };
+      visit(entry);
+      return graph;
+    };
+
+    it('should not reach Node built-ins or Buffer from the web entry', () => {
+      const graph = importGraph(path.join(__dirname, '..', 'web.ts'));
+      expect(graph.size).toBeGreaterThan(10);
+
+      for (const [file, specifiers] of graph) {
+        const name = path.relative(path.join(__dirname, '..'), file);
+        const code = fs
+          .readFileSync(file, 'utf-8')
+          .replace(/^\s*\/\/.*$/gm, '');
+        expect([name, specifiers.filter((s) => forbidden.includes(s))]).toEqual(
+          [name, []]
+        );
+        expect([name, /\bBuffer\b/.test(code)]).toEqual([name, false]);
+        // ES modules only resolve local imports by their full file name
+        expect([
+          name,
+          specifiers.filter((s) => s.startsWith('.') && !s.endsWith('.js')),
+        ]).toEqual([name, []]);
+      }
+    });
+
+    it('should import the ES module build in Node', () => {
+      const ciphertext = new MTCv3('', 'salt', 10, 4, { kdf: raw }).encrypt(
+        'from the ES module build'
+      );
+      const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mtcv3-esm-'));
+
+      try {
+        execFileSync(process.execPath, [
+          require.resolve('typescript/bin/tsc'),
+          '-p',
+          path.join(__dirname, '..', 'tsconfig.esm.json'),
+          '--outDir',
+          outDir,
+        ]);
+        // As yarn build:esm does
+        fs.writeFileSync(
+          path.join(outDir, 'package.json'),
+          JSON.stringify({ type: 'module' })
+        );
+
+        const entry = pathToFileURL(path.join(outDir, 'web.js')).href;
+        const script = `
+          import { MTCv3Web } from '${entry}';
+          const web = await MTCv3Web.create('', 'salt', {
+            kdf: { algorithm: 'raw', key: new Uint8Array(32).fill(7) },
+          });
+          console.log(await web.decrypt(process.argv[1]));
+        `;
+        const output = execFileSync(process.execPath, [
+          '--input-type=module',
+          '-e',
+          script,
+          ciphertext,
+        ]);
+        expect(output.toString().trim()).toBe('from the ES module build');
+      } finally {
+        fs.rmSync(outDir, { recursive: true, force: true });
+      }
+    }, 120000);
+
+    it('should run with Buffer unavailable', async () => {
+      const ciphertext = new MTCv3('', 'salt', 10, 4, { kdf: raw }).encrypt(
+        'no Buffer here'
+      );
+      const buffer = globalThis.Buffer;
+      let decrypted: string | undefined;
+
+      try {
+        (globalThis as any).Buffer = undefined;
+        await jest.isolateModulesAsync(async () => {
+          const { MTCv3Web: IsolatedWeb } = await import('../web');
+          const web = await IsolatedWeb.create('', 'salt', {
+            kdf: { algorithm: 'raw', key: new Uint8Array(32).fill(7) },
+            platform,
+          });
+          decrypted = await web.decrypt(ciphertext);
+        });
+      } finally {
+        globalThis.Buffer = buffer;
+      }
+      expect(decrypted).toBe('no Buffer here');
+    });
+  });
+});
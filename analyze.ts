@@ -0,0 +1,135 @@
+// Cryptanalysis report for an MTCv3 configuration, printed as JSON
+//
+//   yarn analyze [--rounds n] [--matrix-size n] [--cipher-version n]
+//                [--key-dependent-sbox] [--seed s] [--samples n] [--output file]
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import {
+  MAX_ROUNDS,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from './constants/encryptionConstants';
+import { analyzeCipher, AnalysisOptions } from './helpers/cryptanalysis';
+
+const USAGE = `Usage: yarn analyze [options]
+
+Options:
+  --rounds <n>             Rounds: 1 to 255 (default: 10)
+  --matrix-size <n>        Matrix size: 2, 4, 8 or 16 (default: 4)
+  --cipher-version <n>     Cipher version: 1 or 2 (default: 2)
+  --key-dependent-sbox     Use a key-dependent S-box
+  --seed <s>               PRNG seed (default: random)
+  --samples <x>            Scale every sample count, e.g. 0.5 or 4 (default: 1)
+  -o, --output <path>      Write the report to a file`;
+
+// Invalid command-line arguments
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+function analyze() {
+  const { values } = parseOptions();
+
+  const scale =
+    values.samples === undefined ? 1 : parseScale('samples', values.samples);
+  const options: AnalysisOptions = {
+    rounds: optionalInteger('rounds', values.rounds, MAX_ROUNDS),
+    matrixSize: optionalChoice(
+      'matrix-size',
+      values['matrix-size'],
+      SUPPORTED_MATRIX_SIZES
+    ),
+    cipherVersion: optionalChoice(
+      'cipher-version',
+      values['cipher-version'],
+      SUPPORTED_CIPHER_VERSIONS
+    ),
+    sBox: values['key-dependent-sbox'] ? { type: 'key-dependent' } : undefined,
+    seed: values.seed,
+    avalancheSamples: Math.ceil(64 * scale),
+    differentialSamples: Math.ceil(2048 * scale),
+    linearSamples: Math.ceil(4096 * scale),
+    frequencyBlocks: Math.ceil(4096 * scale),
+  };
+
+  const report = JSON.stringify(analyzeCipher(options), null, 2);
+  if (values.output === undefined) {
+    console.log(report);
+  } else {
+    fs.writeFileSync(values.output, `${report}\n`);
+    console.error(`Report written to ${values.output}`);
+  }
+}
+
+// Function to parse the arguments; unknown options are usage errors
+function parseOptions() {
+  try {
+    return parseArgs({
+      options: {
+        rounds: { type: 'string' },
+        'matrix-size': { type: 'string' },
+        'cipher-version': { type: 'string' },
+        'key-dependent-sbox': { type: 'boolean', default: false },
+        seed: { type: 'string' },
+        // Scales every sample count relative to the defaults
+        samples: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+// Function to parse an optional positive integer option
+function optionalInteger(
+  name: string,
+  value: string | undefined,
+  max?: number
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  if (max !== undefined && parsed > max) {
+    throw new UsageError(`--${name} must be at most ${max}`);
+  }
+  return parsed;
+}
+
+// Function to parse an optional integer option with a fixed set of values
+function optionalChoice(
+  name: string,
+  value: string | undefined,
+  choices: number[]
+): number | undefined {
+  const parsed = optionalInteger(name, value);
+  if (parsed !== undefined && !choices.includes(parsed)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  }
+  return parsed;
+}
+
+// Function to parse a positive decimal option
+function parseScale(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+(\.\d+)?$/.test(value) || !(parsed > 0) || parsed === Infinity) {
+    throw new UsageError(`--${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+// Run the analysis
+try {
+  analyze();
+} catch (error) {
+  if (!(error instanceof UsageError)) {
+    throw error;
+  }
+  console.error(`${error.message}\n\n${USAGE}`);
+  process.exitCode = EXIT_USAGE;
+}
@@ -0,0 +1,84 @@
+// Throughput of the optimized block cipher against the reference implementation
+
+import crypto from 'crypto';
+import { performance } from 'perf_hooks';
+import { BlockCipher } from './helpers/blockCipher';
+import { ReferenceBlockCipher } from './helpers/referenceCipher';
+
+interface BlockPrimitive {
+  encryptBlock(block: Buffer): Buffer;
+  decryptBlock(block: Buffer): Buffer;
+}
+
+// Encrypt then decrypt `bytes` of data block by block, returning MB/s for each
+function measure(
+  cipher: BlockPrimitive,
+  blockSize: number,
+  bytes: number
+): { encrypt: number; decrypt: number } {
+  const data = crypto.randomBytes(bytes);
+  const blocks: Buffer[] = [];
+
+  let start = performance.now();
+  for (let offset = 0; offset < bytes; offset += blockSize) {
+    blocks.push(cipher.encryptBlock(data.slice(offset, offset + blockSize)));
+  }
+  const encryptSeconds = (performance.now() - start) / 1000;
+
+  start = performance.now();
+  for (const block of blocks) {
+    cipher.decryptBlock(block);
+  }
+  const decryptSeconds = (performance.now() - start) / 1000;
+
+  const megabytes = bytes / (1024 * 1024);
+  return {
+    encrypt: megabytes / encryptSeconds,
+    decrypt: megabytes / decryptSeconds,
+  };
+}
+
+function benchmark() {
+  const rounds = 10;
+  const optimizedBytes = 1024 * 1024;
+  const referenceBytes = 64 * 1024;
+
+  console.log(
+    `Block cipher throughput (${rounds} rounds, cipher version 2, MB/s)\n`
+  );
+
+  for (const matrixSize of [4, 8, 16]) {
+    const keyMaterial = crypto.randomBytes(rounds * matrixSize);
+    const blockSize = matrixSize * matrixSize;
+
+    const reference = measure(
+      new ReferenceBlockCipher(keyMaterial, rounds, matrixSize, 2),
+      blockSize,
+      referenceBytes
+    );
+    const optimized = measure(
+      new BlockCipher(keyMaterial, rounds, matrixSize, 2),
+      blockSize,
+      optimizedBytes
+    );
+
+    console.log(`matrixSize ${matrixSize} (${blockSize}-byte blocks)`);
+    console.log(
+      `  encrypt: reference ${reference.encrypt.toFixed(
+        2
+      )}, optimized ${optimized.encrypt.toFixed(2)} (${(
+        optimized.encrypt / reference.encrypt
+      ).toFixed(1)}x)`
+    );
+    console.log(
+      `  decrypt: reference ${reference.decrypt.toFixed(
+        2
+      )}, optimized ${optimized.decrypt.toFixed(2)} (${(
+        optimized.decrypt / reference.decrypt
+      ).toFixed(1)}x)`
+    );
+  }
+}
+
+// Run the benchmark
+benchmark();
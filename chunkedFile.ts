@@ -0,0 +1,468 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+import {
+  CHUNKED_MAGIC,
+  CHUNKED_VERSION,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_CIPHER_VERSION,
+  MAX_CHUNK_SIZE,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from './constants/encryptionConstants';
+import { BlockCipher } from './helpers/blockCipher';
+import { uintBE } from './helpers/bytes';
+import { computeTag, deriveSubkey, toBuffer } from './helpers/encryptionUtils';
+import { MTCv3AuthenticationError, MTCv3FormatError } from './helpers/errors';
+import {
+  createKdfSecret,
+  deriveKeyMaterial,
+  KdfOptions,
+  resolveKdfParams,
+} from './helpers/kdf';
+import { validateRounds } from './helpers/keySchedule';
+import { createBlockMode, processBlocks } from './helpers/modes';
+
+// Seekable chunked container: the plaintext is split into fixed-size chunks,
+// each encrypted and authenticated on its own, so any byte range can be read
+// by decrypting only the chunks it touches. Layout:
+//
+//   magic "MTCF" (4) | version (1) | chunk size (4) | nonce (16)
+//   chunk 0: CTR ciphertext (chunk size) | tag (32)
+//   ...
+//   chunk n-1: CTR ciphertext (1 to chunk size) | tag (32)
+//
+// Each chunk's CTR IV is derived from the file nonce and the chunk index.
+// Its tag is an HMAC over the header, the chunk index and a final-chunk flag
+// (associated data) and the chunk's ciphertext, so moving, duplicating or
+// dropping a chunk, or splicing chunks between files, fails authentication.
+// The flag is set only on the last chunk: cutting the file at a chunk
+// boundary leaves a last chunk whose tag was computed without it. Empty
+// plaintext is a single empty final chunk.
+//
+// As with MTCv3Deterministic, the parameters are not recorded: a container
+// only opens under the same key, rounds, matrix size and cipher version.
+
+export interface MTCv3ChunkedFileOptions {
+  // Cipher version (default: 2)
+  cipherVersion?: number;
+  // Key derivation function (default: PBKDF2-HMAC-SHA256, 100000 iterations)
+  kdf?: KdfOptions;
+  // Plaintext bytes per chunk (default: 65536)
+  chunkSize?: number;
+  // Source of file nonces (default: crypto.randomBytes)
+  randomBytes?: (size: number) => Buffer;
+}
+
+const TAG_LENGTH = 32;
+const NONCE_LENGTH = 16;
+export const CHUNKED_HEADER_LENGTH =
+  CHUNKED_MAGIC.length + 1 + 4 + NONCE_LENGTH;
+
+// Where the chunks of a container lie, from its header and total length
+interface ChunkLayout {
+  header: Buffer;
+  chunkSize: number;
+  chunkCount: number;
+  totalLength: number;
+  plaintextLength: number;
+}
+
+export class MTCv3ChunkedFile {
+  readonly chunkSize: number;
+  private cipher: BlockCipher;
+  private macKey: Buffer;
+  private ivKey: Buffer;
+  private randomBytes: (size: number) => Buffer;
+
+  constructor(
+    password: string,
+    salt: string,
+    rounds: number = 10,
+    matrixSize: number = 4,
+    options: MTCv3ChunkedFileOptions = {}
+  ) {
+    validateRounds(rounds);
+    if (!SUPPORTED_MATRIX_SIZES.includes(matrixSize)) {
+      throw new Error(
+        `Unsupported matrix size: ${matrixSize} (supported: ${SUPPORTED_MATRIX_SIZES.join(
+          ', '
+        )})`
+      );
+    }
+    const cipherVersion = options.cipherVersion ?? DEFAULT_CIPHER_VERSION;
+    if (!SUPPORTED_CIPHER_VERSIONS.includes(cipherVersion)) {
+      throw new Error(`Unsupported cipher version: ${cipherVersion}`);
+    }
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!isValidChunkSize(this.chunkSize)) {
+      throw new Error(
+        `Chunk size must be an integer from 1 to ${MAX_CHUNK_SIZE}`
+      );
+    }
+
+    const keyLength = rounds * matrixSize;
+    const keyMaterial = deriveKeyMaterial(
+      resolveKdfParams(options.kdf),
+      createKdfSecret(password, options.kdf),
+      Buffer.from(salt, 'utf-8'),
+      keyLength
+    );
+    this.cipher = new BlockCipher(
+      deriveSubkey(keyMaterial, 'MTCv3 chunked encryption', keyLength),
+      rounds,
+      matrixSize,
+      cipherVersion
+    );
+    this.macKey = deriveSubkey(keyMaterial, 'MTCv3 chunked MAC', TAG_LENGTH);
+    this.ivKey = deriveSubkey(keyMaterial, 'MTCv3 chunked IV', TAG_LENGTH);
+    this.randomBytes = options.randomBytes ?? crypto.randomBytes;
+  }
+
+  encryptBytes(data: Uint8Array): Buffer {
+    const plaintext = toBuffer(data);
+    const header = this.createHeader();
+    const chunkCount = Math.max(
+      1,
+      Math.ceil(plaintext.length / this.chunkSize)
+    );
+    const parts = [header];
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * this.chunkSize;
+      parts.push(
+        this.sealChunk(
+          header,
+          index,
+          index === chunkCount - 1,
+          plaintext.subarray(start, start + this.chunkSize)
+        )
+      );
+    }
+    return Buffer.concat(parts);
+  }
+
+  // Verifies and decrypts every chunk
+  decryptBytes(data: Uint8Array): Buffer {
+    return this.readRange(data, 0, this.plaintextLength(data));
+  }
+
+  // Size of the plaintext a container holds, from its length alone
+  plaintextLength(data: Uint8Array): number {
+    const input = toBuffer(data);
+    return this.layout(input.subarray(0, CHUNKED_HEADER_LENGTH), input.length)
+      .plaintextLength;
+  }
+
+  // Decrypts length bytes of plaintext starting at offset. Only the chunks
+  // overlapping the range are decrypted, plus the final chunk, whose flag is
+  // what shows the container was not truncated.
+  readRange(data: Uint8Array, offset: number, length: number): Buffer {
+    const input = toBuffer(data);
+    const layout = this.layout(
+      input.subarray(0, CHUNKED_HEADER_LENGTH),
+      input.length
+    );
+    return this.assembleRange(layout, offset, length, (index) => {
+      const [start, end] = chunkBounds(layout, index);
+      return input.subarray(start, end);
+    });
+  }
+
+  // readRange on a container file, reading only the chunks it decrypts
+  async readFileRange(
+    path: string,
+    offset: number,
+    length: number
+  ): Promise<Buffer> {
+    const handle = await fs.promises.open(path, 'r');
+    try {
+      const { size } = await handle.stat();
+      const layout = this.layout(
+        await readAt(handle, 0, Math.min(CHUNKED_HEADER_LENGTH, size)),
+        size
+      );
+      const indices = touchedChunks(layout, offset, length);
+      const chunks = new Map<number, Buffer>();
+      for (const index of indices) {
+        const [start, end] = chunkBounds(layout, index);
+        chunks.set(index, await readAt(handle, start, end - start));
+      }
+      return this.assembleRange(
+        layout,
+        offset,
+        length,
+        (index) => chunks.get(index) as Buffer
+      );
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // plaintextLength of a container file
+  async filePlaintextLength(path: string): Promise<number> {
+    const handle = await fs.promises.open(path, 'r');
+    try {
+      const { size } = await handle.stat();
+      return this.layout(
+        await readAt(handle, 0, Math.min(CHUNKED_HEADER_LENGTH, size)),
+        size
+      ).plaintextLength;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // Writes a container from a plaintext stream. The latest chunk is held
+  // back until more data arrives or the stream ends, so that only the last
+  // one is flagged as final.
+  createEncryptStream(): Transform {
+    return new ChunkedEncryptTransform(this, this.createHeader());
+  }
+
+  // Used by the encrypt stream; the header binds every chunk to its file
+  sealChunk(
+    header: Buffer,
+    index: number,
+    final: boolean,
+    plaintext: Buffer
+  ): Buffer {
+    const ciphertext = this.ctr(header, index, plaintext);
+    return Buffer.concat([
+      ciphertext,
+      computeTag(this.macKey, chunkAD(header, index, final), ciphertext),
+    ]);
+  }
+
+  private createHeader(): Buffer {
+    const nonce = this.randomBytes(NONCE_LENGTH);
+    if (nonce.length !== NONCE_LENGTH) {
+      throw new Error(`The random source must return ${NONCE_LENGTH} bytes`);
+    }
+    return Buffer.concat([
+      CHUNKED_MAGIC,
+      Buffer.from([CHUNKED_VERSION]),
+      uintBE(this.chunkSize, 4),
+      nonce,
+    ]);
+  }
+
+  // Function to decrypt the chunks overlapping a range (after checking the
+  // final chunk) and cut the range out of them
+  private assembleRange(
+    layout: ChunkLayout,
+    offset: number,
+    length: number,
+    chunkAt: (index: number) => Buffer
+  ): Buffer {
+    const indices = touchedChunks(layout, offset, length);
+    const plaintexts = indices.map((index) =>
+      this.openChunk(layout, index, chunkAt(index))
+    );
+    if (length === 0) {
+      return Buffer.alloc(0);
+    }
+    const first = Math.floor(offset / layout.chunkSize);
+    const last = Math.floor((offset + length - 1) / layout.chunkSize);
+    const start = offset - first * layout.chunkSize;
+    return Buffer.concat(plaintexts.slice(0, last - first + 1)).subarray(
+      start,
+      start + length
+    );
+  }
+
+  private openChunk(layout: ChunkLayout, index: number, chunk: Buffer): Buffer {
+    const final = index === layout.chunkCount - 1;
+    const ciphertext = chunk.subarray(0, chunk.length - TAG_LENGTH);
+    const expectedTag = computeTag(
+      this.macKey,
+      chunkAD(layout.header, index, final),
+      ciphertext
+    );
+    if (
+      !crypto.timingSafeEqual(chunk.subarray(ciphertext.length), expectedTag)
+    ) {
+      throw new MTCv3AuthenticationError();
+    }
+    return this.ctr(layout.header, index, ciphertext);
+  }
+
+  private layout(header: Buffer, totalLength: number): ChunkLayout {
+    if (header.length < CHUNKED_HEADER_LENGTH) {
+      throw new MTCv3FormatError('Truncated chunked file header');
+    }
+    if (!header.subarray(0, CHUNKED_MAGIC.length).equals(CHUNKED_MAGIC)) {
+      throw new MTCv3FormatError('Invalid chunked file: missing magic header');
+    }
+    const version = header[CHUNKED_MAGIC.length];
+    if (version !== CHUNKED_VERSION) {
+      throw new MTCv3FormatError(
+        `Unsupported chunked file version: ${version}`
+      );
+    }
+    const chunkSize = header.readUInt32BE(CHUNKED_MAGIC.length + 1);
+    if (!isValidChunkSize(chunkSize)) {
+      throw new MTCv3FormatError(`Unsupported chunk size: ${chunkSize}`);
+    }
+
+    // A last chunk too short to hold a tag was cut off
+    const body = totalLength - CHUNKED_HEADER_LENGTH;
+    const stride = chunkSize + TAG_LENGTH;
+    const chunkCount = Math.max(1, Math.ceil(body / stride));
+    if (body - (chunkCount - 1) * stride < TAG_LENGTH) {
+      throw new MTCv3AuthenticationError();
+    }
+    return {
+      header,
+      chunkSize,
+      chunkCount,
+      totalLength,
+      plaintextLength: body - chunkCount * TAG_LENGTH,
+    };
+  }
+
+  // CTR is its own inverse; each chunk starts from an IV expanded from the
+  // file nonce and its index, so every block size gets a full-width IV
+  private ctr(header: Buffer, index: number, data: Buffer): Buffer {
+    const iv = Buffer.from(
+      crypto.hkdfSync(
+        'sha256',
+        this.ivKey,
+        header.subarray(CHUNKED_HEADER_LENGTH - NONCE_LENGTH),
+        uintBE(index, 8),
+        this.cipher.blockSize
+      )
+    );
+    const blockMode = createBlockMode('ctr', this.cipher, iv);
+    return toBuffer(
+      processBlocks(data, this.cipher.blockSize, (block) =>
+        blockMode.encrypt(block)
+      )
+    );
+  }
+}
+
+// Buffers plaintext into chunks; the header goes out before any data
+class ChunkedEncryptTransform extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private index = 0;
+
+  constructor(private file: MTCv3ChunkedFile, private header: Buffer) {
+    super();
+    this.push(header);
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    try {
+      this.pending = Buffer.concat([this.pending, chunk]);
+      const { chunkSize } = this.file;
+      // Strictly more than a chunk: a full last chunk must wait for flush
+      while (this.pending.length > chunkSize) {
+        this.push(
+          this.file.sealChunk(
+            this.header,
+            this.index++,
+            false,
+            this.pending.subarray(0, chunkSize)
+          )
+        );
+        this.pending = this.pending.subarray(chunkSize);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.push(
+        this.file.sealChunk(this.header, this.index, true, this.pending)
+      );
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
+
+// Function to check a chunk size against the supported range
+function isValidChunkSize(chunkSize: number): boolean {
+  return (
+    Number.isInteger(chunkSize) && chunkSize >= 1 && chunkSize <= MAX_CHUNK_SIZE
+  );
+}
+
+// Function to build a chunk's associated data: header, index, final flag
+function chunkAD(header: Buffer, index: number, final: boolean): Buffer {
+  return Buffer.concat([
+    header,
+    uintBE(index, 8),
+    Buffer.from([final ? 1 : 0]),
+  ]);
+}
+
+// Function to find the byte span of a chunk, tag included
+function chunkBounds(layout: ChunkLayout, index: number): [number, number] {
+  const start = CHUNKED_HEADER_LENGTH + index * (layout.chunkSize + TAG_LENGTH);
+  return [
+    start,
+    Math.min(start + layout.chunkSize + TAG_LENGTH, layout.totalLength),
+  ];
+}
+
+// Function to list the chunks a range overlaps, in order, followed by the
+// final chunk if the range does not reach it
+function touchedChunks(
+  layout: ChunkLayout,
+  offset: number,
+  length: number
+): number[] {
+  if (
+    !Number.isInteger(offset) ||
+    !Number.isInteger(length) ||
+    offset < 0 ||
+    length < 0 ||
+    offset + length > layout.plaintextLength
+  ) {
+    throw new Error('Invalid plaintext range');
+  }
+  const indices: number[] = [];
+  if (length > 0) {
+    const first = Math.floor(offset / layout.chunkSize);
+    const last = Math.floor((offset + length - 1) / layout.chunkSize);
+    for (let index = first; index <= last; index++) {
+      indices.push(index);
+    }
+  }
+  if (indices[indices.length - 1] !== layout.chunkCount - 1) {
+    indices.push(layout.chunkCount - 1);
+  }
+  return indices;
+}
+
+// Function to read exactly length bytes at a position of an open file
+async function readAt(
+  handle: fs.promises.FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  let filled = 0;
+  while (filled < length) {
+    const { bytesRead } = await handle.read(
+      buffer,
+      filled,
+      length - filled,
+      position + filled
+    );
+    if (bytesRead === 0) {
+      throw new MTCv3FormatError('Unexpected end of chunked file');
+    }
+    filled += bytesRead;
+  }
+  return buffer;
+}
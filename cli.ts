@@ -0,0 +1,571 @@
+#!/usr/bin/env node
+// Command-line interface: mtcv3 encrypt | decrypt | inspect
+
+import crypto from 'crypto';
+import fs from 'fs';
+import readline from 'readline';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { parseArgs } from 'util';
+import { MAX_ROUNDS } from './constants/encryptionConstants';
+import {
+  CiphertextEncoding,
+  MTCv3,
+  MTCv3DecryptionError,
+  MTCv3FormatError,
+} from './MTCV3';
+import { ParsedEnvelope, tryParseEnvelope } from './helpers/envelope';
+import { KdfOptions, resolveKdfParams } from './helpers/kdf';
+import { CIPHER_MODES, CipherMode } from './helpers/modes';
+
+export const EXIT_SUCCESS = 0;
+// I/O errors and anything unexpected
+export const EXIT_FAILURE = 1;
+// Bad command-line arguments or missing password
+export const EXIT_USAGE = 2;
+// The password is wrong, or the data was modified or truncated
+export const EXIT_WRONG_PASSWORD = 3;
+// The input is not a well-formed MTCv3 ciphertext
+export const EXIT_CORRUPT_INPUT = 4;
+
+const PASSWORD_ENV = 'MTCV3_PASSWORD';
+const SALT_LENGTH = 16;
+
+const USAGE = `Usage:
+  mtcv3 encrypt [options] [input]
+  mtcv3 decrypt [options] [input]
+  mtcv3 inspect [options] [input]
+
+Reads from input (default: stdin, or "-") and writes to --output (default: stdout).
+
+Password (never accepted as an argument):
+  --key-file <path>        Read the password from a file
+  --password-env <name>    Read the password from an environment variable
+                           (default: ${PASSWORD_ENV}; otherwise prompt on the terminal)
+
+Options:
+  -o, --output <path>      Output file
+  -e, --encoding <enc>     Ciphertext encoding: binary, hex, base64, base64url (default: binary)
+  -r, --rounds <n>         Rounds: 1 to 255 (encrypt, default: 10)
+  -m, --matrix-size <n>    Matrix size: 2, 4, 8 or 16 (encrypt, default: 4)
+      --mode <mode>        Block cipher mode: cbc, ctr, cfb, ofb (encrypt, default: cbc)
+      --kdf <name>         Key derivation: pbkdf2 or scrypt (encrypt, default: pbkdf2)
+      --iterations <n>     PBKDF2 iterations (encrypt, default: 100000)
+      --scrypt-n <n>       scrypt cost parameter N (encrypt, default: 32768)
+      --key-dependent-sbox Use an S-box derived from the key (encrypt)
+      --unauthenticated    Encrypt without an authentication tag. Decrypting
+                           such data cannot detect a wrong password or
+                           modified data (with ctr, cfb or ofb it outputs
+                           garbage and exits 0), so decrypt warns about it
+  -h, --help               Show this help
+
+Exit codes:
+  0 success, 1 I/O error, 2 usage error, 3 wrong password or modified data,
+  4 corrupt or unrecognized input
+`;
+
+// Without a tag, a wrong password or modified data is only caught by a
+// padding check, and stream modes have no padding at all
+const UNAUTHENTICATED_WARNING =
+  'mtcv3: warning: the input is not authenticated; a wrong password or ' +
+  'modified data may go undetected and produce garbage output\n';
+
+type Command = 'encrypt' | 'decrypt' | 'inspect';
+type OutputEncoding = 'binary' | CiphertextEncoding;
+
+const COMMANDS: Command[] = ['encrypt', 'decrypt', 'inspect'];
+const ENCODINGS: OutputEncoding[] = ['binary', 'hex', 'base64', 'base64url'];
+
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  env: NodeJS.ProcessEnv;
+  // Ask for a password without echoing it
+  promptPassword(prompt: string): Promise<string>;
+}
+
+interface CliOptions {
+  input?: string;
+  output?: string;
+  encoding: OutputEncoding;
+  keyFile?: string;
+  passwordEnv: string;
+  rounds: number;
+  matrixSize: number;
+  mode: CipherMode;
+  kdf: KdfOptions;
+  keyDependentSBox: boolean;
+  authenticated: boolean;
+}
+
+class UsageError extends Error {}
+
+class HelpRequested extends Error {}
+
+// Errors that map to an exit code other than EXIT_FAILURE
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+// Run the CLI with the given arguments (without "node cli.js") and return the exit code
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  let command: Command;
+  let options: CliOptions;
+  try {
+    ({ command, options } = parseCommandLine(args));
+  } catch (error) {
+    if (error instanceof HelpRequested) {
+      io.stdout.write(USAGE);
+      return EXIT_SUCCESS;
+    }
+    io.stderr.write(`mtcv3: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    switch (command) {
+      case 'encrypt':
+        await encryptCommand(options, io);
+        break;
+      case 'decrypt':
+        await decryptCommand(options, io);
+        break;
+      case 'inspect':
+        await inspectCommand(options, io);
+        break;
+    }
+    return EXIT_SUCCESS;
+  } catch (error) {
+    const { message, exitCode } = classifyError(error as Error);
+    io.stderr.write(`mtcv3: ${message}\n`);
+    return exitCode;
+  }
+}
+
+// Function to parse and validate the command line
+function parseCommandLine(args: string[]): {
+  command: Command;
+  options: CliOptions;
+} {
+  const passwordFlag = args.find(
+    (arg) => arg === '--password' || arg.startsWith('--password=')
+  );
+  if (passwordFlag !== undefined) {
+    throw new UsageError(
+      'Passwords are not accepted on the command line: use --key-file, --password-env or the prompt'
+    );
+  }
+
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      encoding: { type: 'string', short: 'e', default: 'binary' },
+      'key-file': { type: 'string' },
+      'password-env': { type: 'string', default: PASSWORD_ENV },
+      rounds: { type: 'string', short: 'r', default: '10' },
+      'matrix-size': { type: 'string', short: 'm', default: '4' },
+      mode: { type: 'string', default: 'cbc' },
+      kdf: { type: 'string', default: 'pbkdf2' },
+      iterations: { type: 'string' },
+      'scrypt-n': { type: 'string' },
+      'key-dependent-sbox': { type: 'boolean', default: false },
+      unauthenticated: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    throw new HelpRequested();
+  }
+
+  const [command, input, ...extra] = positionals;
+  if (!COMMANDS.includes(command as Command)) {
+    throw new UsageError(
+      command === undefined ? 'Missing command' : `Unknown command: ${command}`
+    );
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`Unexpected argument: ${extra[0]}`);
+  }
+
+  const encoding = values.encoding as OutputEncoding;
+  if (!ENCODINGS.includes(encoding)) {
+    throw new UsageError(`Unsupported encoding: ${values.encoding}`);
+  }
+  const mode = values.mode as CipherMode;
+  if (!CIPHER_MODES.includes(mode)) {
+    throw new UsageError(`Unsupported cipher mode: ${values.mode}`);
+  }
+
+  let kdf: KdfOptions;
+  switch (values.kdf) {
+    case 'pbkdf2':
+      kdf = {
+        algorithm: 'pbkdf2',
+        iterations: parseOptionalInteger('iterations', values.iterations),
+      };
+      break;
+    case 'scrypt':
+      kdf = {
+        algorithm: 'scrypt',
+        N: parseOptionalInteger('scrypt-n', values['scrypt-n']),
+      };
+      break;
+    default:
+      throw new UsageError(
+        `Unsupported key derivation function: ${values.kdf}`
+      );
+  }
+  try {
+    resolveKdfParams(kdf);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  return {
+    command: command as Command,
+    options: {
+      input: input === '-' ? undefined : input,
+      output: values.output,
+      encoding,
+      keyFile: values['key-file'],
+      passwordEnv: values['password-env'] as string,
+      rounds: parseInteger('rounds', values.rounds as string, MAX_ROUNDS),
+      matrixSize: parseInteger('matrix-size', values['matrix-size'] as string),
+      mode,
+      kdf,
+      keyDependentSBox: values['key-dependent-sbox'] as boolean,
+      authenticated: !values.unauthenticated,
+    },
+  };
+}
+
+// Function to parse a positive integer option, optionally bounded
+function parseInteger(name: string, value: string, max?: number): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  if (max !== undefined && parsed > max) {
+    throw new UsageError(`--${name} must be at most ${max}`);
+  }
+  return parsed;
+}
+
+// Function to parse an optional positive integer option
+function parseOptionalInteger(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  return value === undefined ? undefined : parseInteger(name, value);
+}
+
+// Function to encrypt the input with a fresh random salt
+async function encryptCommand(options: CliOptions, io: CliIO): Promise<void> {
+  const password = await resolvePassword(options, io, true);
+  let mtc: MTCv3;
+  try {
+    mtc = await MTCv3.create(
+      password,
+      crypto.randomBytes(SALT_LENGTH).toString('hex'),
+      {
+        rounds: options.rounds,
+        matrixSize: options.matrixSize,
+        mode: options.mode,
+        kdf: options.kdf,
+        sBox: { type: options.keyDependentSBox ? 'key-dependent' : 'aes' },
+      }
+    );
+  } catch (error) {
+    throw new CliError((error as Error).message, EXIT_USAGE);
+  }
+
+  const encryptStream = mtc.createEncryptStream({
+    authenticated: options.authenticated,
+  });
+  const input = openInput(options, io);
+
+  if (options.encoding === 'binary') {
+    await writeOutput(options, io, (output) =>
+      pipeline(input, encryptStream, output)
+    );
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  await pipeline(
+    input,
+    encryptStream,
+    async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) {
+        chunks.push(chunk);
+      }
+    }
+  );
+  const encoded = `${Buffer.concat(chunks).toString(options.encoding)}\n`;
+  await writeOutput(options, io, (output) =>
+    pipeline(Readable.from([encoded]), output)
+  );
+}
+
+// Function to decrypt the input with the parameters recorded in its header
+async function decryptCommand(options: CliOptions, io: CliIO): Promise<void> {
+  const { envelope, input } = await readEnvelopeHeader(options, io);
+  const { header } = envelope;
+  if (header.kdf.algorithm === 'raw') {
+    throw new CliError(
+      'Ciphertexts encrypted with a raw key cannot be decrypted with a password',
+      EXIT_USAGE
+    );
+  }
+  const password = await resolvePassword(options, io, false);
+  const mtc = await MTCv3.create(password, header.salt.toString('utf-8'), {
+    rounds: header.rounds,
+    matrixSize: header.matrixSize,
+    mode: header.mode,
+    cipherVersion: header.cipherVersion,
+    kdf: header.kdf,
+    sBox: header.sBox,
+    keyId: header.keyId,
+  });
+  const decryptStream = mtc.createDecryptStream({
+    authenticated: header.authenticated,
+  });
+  if (!header.authenticated) {
+    io.stderr.write(UNAUTHENTICATED_WARNING);
+  }
+
+  await writeOutput(options, io, (output) =>
+    pipeline(input, decryptStream, output)
+  );
+}
+
+// Function to print the envelope header of a ciphertext as JSON
+async function inspectCommand(options: CliOptions, io: CliIO): Promise<void> {
+  const { envelope, input } = await readEnvelopeHeader(options, io);
+  const { header } = envelope;
+  input.destroy();
+
+  const description = {
+    version: header.version,
+    mode: header.mode,
+    cipherVersion: header.cipherVersion,
+    authenticated: header.authenticated,
+    rounds: header.rounds,
+    matrixSize: header.matrixSize,
+    blockSize: header.matrixSize * header.matrixSize,
+    kdf: header.kdf,
+    sBox: header.sBox,
+    keyId: header.keyId,
+    salt: header.salt.toString('hex'),
+    iv: header.iv.toString('hex'),
+    headerLength: envelope.headerBytes.length,
+  };
+  await writeOutput(options, io, (output) =>
+    pipeline(
+      Readable.from([`${JSON.stringify(description, null, 2)}\n`]),
+      output
+    )
+  );
+}
+
+// Function to open the input file, or stdin
+function openInput(options: CliOptions, io: CliIO): Readable {
+  return options.input === undefined
+    ? io.stdin
+    : fs.createReadStream(options.input);
+}
+
+// Function to read a ciphertext until its envelope header is complete. Returns
+// the parsed header and a stream that replays the whole ciphertext.
+async function readEnvelopeHeader(
+  options: CliOptions,
+  io: CliIO
+): Promise<{ envelope: ParsedEnvelope<Buffer>; input: Readable }> {
+  const source = openInput(options, io);
+
+  // Text encodings are decoded as a whole before parsing
+  if (options.encoding !== 'binary') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const text = Buffer.concat(chunks).toString('utf-8').trim();
+    const data = Buffer.from(text, options.encoding);
+    return { envelope: parseHeader(data, true), input: Readable.from([data]) };
+  }
+
+  const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+  let head = Buffer.alloc(0);
+  let envelope: ParsedEnvelope<Buffer> | undefined;
+  let ended = false;
+  while (envelope === undefined && !ended) {
+    const next = await iterator.next();
+    if (next.done) {
+      ended = true;
+    } else {
+      head = Buffer.concat([head, Buffer.from(next.value)]);
+    }
+    envelope = parseHeader(head, ended);
+  }
+
+  async function* replay() {
+    yield head;
+    for (;;) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield Buffer.from(next.value);
+    }
+  }
+  return {
+    envelope: envelope as ParsedEnvelope<Buffer>,
+    input: Readable.from(replay(), { objectMode: false }),
+  };
+}
+
+// Function to parse a header from the data read so far; undefined while more is needed
+function parseHeader(data: Buffer, complete: true): ParsedEnvelope<Buffer>;
+function parseHeader(
+  data: Buffer,
+  complete: boolean
+): ParsedEnvelope<Buffer> | undefined;
+function parseHeader(
+  data: Buffer,
+  complete: boolean
+): ParsedEnvelope<Buffer> | undefined {
+  const envelope = tryParseEnvelope(data);
+  if (envelope === undefined && complete) {
+    throw new CliError(
+      'Corrupt input: not an MTCv3 ciphertext (the CLI requires an envelope header)',
+      EXIT_CORRUPT_INPUT
+    );
+  }
+  return envelope;
+}
+
+// Function to write to the output file or stdout, removing a partially
+// written output file when writing fails
+async function writeOutput(
+  options: CliOptions,
+  io: CliIO,
+  write: (output: Writable) => Promise<void>
+): Promise<void> {
+  if (options.output === undefined) {
+    await write(io.stdout);
+    return;
+  }
+
+  const output = fs.createWriteStream(options.output, { mode: 0o600 });
+  try {
+    await write(output);
+  } catch (error) {
+    output.destroy();
+    await fs.promises.rm(options.output, { force: true });
+    throw error;
+  }
+}
+
+// Function to get the password from a key file, the environment or a prompt
+async function resolvePassword(
+  options: CliOptions,
+  io: CliIO,
+  confirm: boolean
+): Promise<string> {
+  let password: string | undefined;
+  if (options.keyFile !== undefined) {
+    password = (await fs.promises.readFile(options.keyFile, 'utf-8')).replace(
+      /\r?\n$/,
+      ''
+    );
+  } else if (io.env[options.passwordEnv] !== undefined) {
+    password = io.env[options.passwordEnv];
+  } else {
+    password = await io.promptPassword('Password: ');
+    if (
+      confirm &&
+      (await io.promptPassword('Confirm password: ')) !== password
+    ) {
+      throw new CliError('Passwords do not match', EXIT_USAGE);
+    }
+  }
+
+  if (!password) {
+    throw new CliError('The password must not be empty', EXIT_USAGE);
+  }
+  return password;
+}
+
+// Function to map an error to a message and exit code
+function classifyError(error: Error): { message: string; exitCode: number } {
+  if (error instanceof CliError) {
+    return { message: error.message, exitCode: error.exitCode };
+  }
+  if (error instanceof MTCv3DecryptionError) {
+    return {
+      message: 'Decryption failed: wrong password or modified data',
+      exitCode: EXIT_WRONG_PASSWORD,
+    };
+  }
+  if (error instanceof MTCv3FormatError) {
+    return {
+      message: `Corrupt input: ${error.message}`,
+      exitCode: EXIT_CORRUPT_INPUT,
+    };
+  }
+  return { message: error.message, exitCode: EXIT_FAILURE };
+}
+
+// Function to prompt for a password on the terminal without echoing it
+function promptPassword(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(
+      new CliError(
+        `No password given: use --key-file, --password-env or set ${PASSWORD_ENV}`,
+        EXIT_USAGE
+      )
+    );
+  }
+
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2), {
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+    env: process.env,
+    promptPassword,
+  }).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
@@ -27,3 +27,83 @@ export const AES_INV_S_BOX: number[] = new Array(256);
 AES_S_BOX.forEach((value, index) => {
   AES_INV_S_BOX[value] = index;
 });
+
+// Matrix sizes with an MDS mixing layer (block size is matrixSize^2 bytes)
+export const SUPPORTED_MATRIX_SIZES = [2, 4, 8, 16];
+
+// Cipher versions: 1 = original round function, 2 = adds whitening and
+// full-block round keys (AddRoundKey)
+export const SUPPORTED_CIPHER_VERSIONS = [1, 2];
+export const DEFAULT_CIPHER_VERSION = 2;
+
+// Envelope headers store the round count in one byte, and the key schedule
+// seeds each round's permutation with the round index as a byte
+export const MAX_ROUNDS = 255;
+
+// Default PBKDF2 iteration count used when deriving the key schedule
+export const DEFAULT_KDF_ITERATIONS = 100000;
+
+// Upper bound on KDF iterations. Decryption runs the header's KDF before
+// any tag check, so the bound caps the work a forged header can demand:
+// ten times the default.
+export const MAX_KDF_ITERATIONS = 1000000;
+
+// Default scrypt cost parameters, and the largest accepted: at most four
+// times the default memory (128 MiB) and sixteen times its work
+export const DEFAULT_SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+export const MAX_SCRYPT_PARAMS = { N: 131072, r: 8, p: 4 };
+
+// Key sets an instance keeps for header parameters other than its own
+export const MAX_CACHED_KEY_SETS = 8;
+
+// Explicit IVs an instance remembers to detect reuse, oldest dropped first
+export const MAX_TRACKED_IVS = 1024;
+
+// Ciphertext envelope magic ("MTC3") and current format version
+export const ENVELOPE_MAGIC = new TextEncoder().encode('MTC3');
+export const ENVELOPE_VERSION = 1;
+
+// Default quality bar for key-dependent S-boxes. About one random
+// permutation in five meets it (AES itself: uniformity 4, nonlinearity 112).
+export const DEFAULT_SBOX_THRESHOLDS = {
+  maxDifferentialUniformity: 10,
+  minNonlinearity: 94,
+};
+
+// Strictest thresholds accepted, so that generation (and a hostile
+// ciphertext header) cannot demand an impractically long search
+export const STRICTEST_SBOX_THRESHOLDS = {
+  maxDifferentialUniformity: 10,
+  minNonlinearity: 96,
+};
+
+// Candidate permutations tried before giving up
+export const MAX_SBOX_ATTEMPTS = 1000;
+
+// Envelope-encrypted object magic ("MTCK") and current format version
+export const DATA_KEY_ENVELOPE_MAGIC = new TextEncoder().encode('MTCK');
+export const DATA_KEY_ENVELOPE_VERSION = 1;
+
+// Key wrapping cipher: a 16-byte block gives the 8-byte semiblocks and
+// 64-bit integrity check of RFC 3394
+export const KEY_WRAP_PARAMS = { rounds: 10, matrixSize: 4, cipherVersion: 2 };
+
+// Deterministic (SIV) ciphertext magic ("MTCD") and current format version
+export const DETERMINISTIC_MAGIC = new TextEncoder().encode('MTCD');
+export const DETERMINISTIC_VERSION = 1;
+
+// Secret share magic ("MTCS") and current format version
+export const SHARE_MAGIC = new TextEncoder().encode('MTCS');
+export const SHARE_VERSION = 1;
+
+// Chunked file magic ("MTCF") and current format version
+export const CHUNKED_MAGIC = new TextEncoder().encode('MTCF');
+export const CHUNKED_VERSION = 1;
+
+// Default plaintext bytes per chunk, and the largest accepted from a header
+export const DEFAULT_CHUNK_SIZE = 65536;
+export const MAX_CHUNK_SIZE = 16777216;
+
+// Public-key (X25519) ciphertext magic ("MTCX") and current format version
+export const HYBRID_MAGIC = new TextEncoder().encode('MTCX');
+export const HYBRID_VERSION = 1;
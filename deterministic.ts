@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import {
+  DEFAULT_CIPHER_VERSION,
+  DETERMINISTIC_MAGIC,
+  DETERMINISTIC_VERSION,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from './constants/encryptionConstants';
+import { DecodeOptions } from './MTCV3';
+import { BlockCipher } from './helpers/blockCipher';
+import { computeTag, deriveSubkey, toBuffer } from './helpers/encryptionUtils';
+import { MTCv3AuthenticationError } from './helpers/errors';
+import {
+  createKdfSecret,
+  deriveKeyMaterial,
+  KdfOptions,
+  resolveKdfParams,
+} from './helpers/kdf';
+import { validateRounds } from './helpers/keySchedule';
+import { createBlockMode, processBlocks } from './helpers/modes';
+
+// Deterministic authenticated encryption after SIV (RFC 5297): the tag is an
+// HMAC over the associated data and plaintext, the CTR IV is derived from
+// the tag, and decryption recomputes the tag before releasing anything.
+// Equal inputs give equal ciphertexts, so equality is all that leaks. Layout:
+//
+//   magic "MTCD" (4) | version (1) | tag (32) | CTR ciphertext (n)
+//
+// The parameters are not recorded: a ciphertext only opens under the same
+// key, rounds, matrix size and cipher version. Subkeys are separate from the
+// randomized MTCv3 API's, even for the same password and salt.
+
+export interface MTCv3DeterministicOptions {
+  // Cipher version (default: 2)
+  cipherVersion?: number;
+  // Key derivation function (default: PBKDF2-HMAC-SHA256, 100000 iterations)
+  kdf?: KdfOptions;
+}
+
+const TAG_LENGTH = 32;
+const HEADER = Buffer.from([...DETERMINISTIC_MAGIC, DETERMINISTIC_VERSION]);
+
+// Deliberately a separate class from MTCv3, so that deterministic output is
+// always an explicit choice
+export class MTCv3Deterministic {
+  private cipher: BlockCipher;
+  private macKey: Buffer;
+
+  constructor(
+    password: string,
+    salt: string,
+    rounds: number = 10,
+    matrixSize: number = 4,
+    options: MTCv3DeterministicOptions = {}
+  ) {
+    validateRounds(rounds);
+    if (!SUPPORTED_MATRIX_SIZES.includes(matrixSize)) {
+      throw new Error(
+        `Unsupported matrix size: ${matrixSize} (supported: ${SUPPORTED_MATRIX_SIZES.join(
+          ', '
+        )})`
+      );
+    }
+    const cipherVersion = options.cipherVersion ?? DEFAULT_CIPHER_VERSION;
+    if (!SUPPORTED_CIPHER_VERSIONS.includes(cipherVersion)) {
+      throw new Error(`Unsupported cipher version: ${cipherVersion}`);
+    }
+
+    const keyLength = rounds * matrixSize;
+    const keyMaterial = deriveKeyMaterial(
+      resolveKdfParams(options.kdf),
+      createKdfSecret(password, options.kdf),
+      Buffer.from(salt, 'utf-8'),
+      keyLength
+    );
+    this.cipher = new BlockCipher(
+      deriveSubkey(keyMaterial, 'MTCv3 SIV encryption', keyLength),
+      rounds,
+      matrixSize,
+      cipherVersion
+    );
+    this.macKey = deriveSubkey(keyMaterial, 'MTCv3 SIV MAC', TAG_LENGTH);
+  }
+
+  encrypt(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const ciphertext = this.encryptBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      associatedData
+    );
+    return Buffer.from(ciphertext).toString(options.encoding ?? 'hex');
+  }
+
+  decrypt(
+    ciphertext: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const plaintext = this.decryptBytes(
+      Buffer.from(ciphertext, options.encoding ?? 'hex'),
+      associatedData
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
+
+  // Same data and associated data always give the same bytes
+  encryptBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Uint8Array {
+    const plaintext = toBuffer(data);
+    const tag = this.syntheticIV(plaintext, Buffer.from(associatedData));
+    return Buffer.concat([HEADER, tag, this.ctr(tag, plaintext)]);
+  }
+
+  // Any modification, or the wrong key or associated data, raises
+  // MTCv3AuthenticationError
+  decryptBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Uint8Array {
+    const input = toBuffer(data);
+    if (
+      input.length < HEADER.length + TAG_LENGTH ||
+      !input.subarray(0, HEADER.length).equals(HEADER)
+    ) {
+      throw new MTCv3AuthenticationError();
+    }
+
+    const tag = input.subarray(HEADER.length, HEADER.length + TAG_LENGTH);
+    const plaintext = this.ctr(tag, input.subarray(HEADER.length + TAG_LENGTH));
+    const expectedTag = this.syntheticIV(
+      plaintext,
+      Buffer.from(associatedData)
+    );
+
+    if (!crypto.timingSafeEqual(tag, expectedTag)) {
+      plaintext.fill(0);
+      throw new MTCv3AuthenticationError();
+    }
+    return plaintext;
+  }
+
+  // The tag doubles as the IV: HMAC over the header, associated data and plaintext
+  private syntheticIV(plaintext: Buffer, associatedData: Buffer): Buffer {
+    return computeTag(
+      this.macKey,
+      associatedData,
+      Buffer.concat([HEADER, plaintext])
+    );
+  }
+
+  // CTR is its own inverse; the counter block is expanded from the tag so
+  // that every block size gets a full-width IV
+  private ctr(tag: Buffer, data: Buffer): Buffer {
+    const iv = deriveSubkey(tag, 'MTCv3 SIV IV', this.cipher.blockSize);
+    const blockMode = createBlockMode('ctr', this.cipher, iv);
+    return toBuffer(
+      processBlocks(data, this.cipher.blockSize, (block) =>
+        blockMode.encrypt(block)
+      )
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import {
+  DATA_KEY_ENVELOPE_MAGIC,
+  DATA_KEY_ENVELOPE_VERSION,
+} from './constants/encryptionConstants';
+import { DecodeOptions, MTCv3, MTCv3Options } from './MTCV3';
+import { toBuffer } from './helpers/encryptionUtils';
+import { validateKeyId } from './helpers/envelope';
+import { MTCv3FormatError } from './helpers/errors';
+import { KekProvider, WrappedKey } from './helpers/kekProvider';
+import { validateRounds } from './helpers/keySchedule';
+
+// Envelope encryption: every object is sealed by MTCv3 under its own random
+// data key, and only the data key is wrapped by the KEK provider. Layout:
+//
+//   magic "MTCK" (4) | version (1) | KEK ID length (1) | KEK ID (n)
+//   wrapped key length (1) | wrapped key (n) | sealed MTCv3 envelope (rest)
+//
+// The wrapped key carries its own integrity check, so it is not part of the
+// payload's associated data and rewrap() can replace it without touching
+// the payload.
+
+export interface MTCv3EnvelopeCipherOptions
+  extends Omit<MTCv3Options, 'kdf' | 'keyId'> {
+  rounds?: number;
+  matrixSize?: number;
+}
+
+export interface DataKeyEnvelope extends WrappedKey {
+  payload: Buffer;
+}
+
+const DATA_KEY_LENGTH = 32;
+// HKDF salt for data keys, which are random and used once
+const DATA_KEY_SALT = 'MTCv3 data key';
+
+export class MTCv3EnvelopeCipher {
+  constructor(
+    private provider: KekProvider,
+    private options: MTCv3EnvelopeCipherOptions = {}
+  ) {
+    validateRounds(options.rounds ?? 10);
+  }
+
+  async encrypt(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): Promise<string> {
+    const ciphertext = await this.encryptBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      associatedData
+    );
+    return Buffer.from(ciphertext).toString(options.encoding ?? 'hex');
+  }
+
+  async decrypt(
+    ciphertext: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): Promise<string> {
+    const plaintext = await this.decryptBytes(
+      Buffer.from(ciphertext, options.encoding ?? 'hex'),
+      associatedData
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
+
+  // Seal data under a fresh data key and wrap the key with the current KEK
+  async encryptBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Promise<Uint8Array> {
+    const randomBytes = this.options.randomBytes ?? crypto.randomBytes;
+    const dataKey = Buffer.from(randomBytes(DATA_KEY_LENGTH));
+
+    try {
+      const wrapped = await this.provider.wrapKey(dataKey);
+      const payload = this.dataKeyCipher(dataKey).sealBytes(
+        data,
+        associatedData
+      );
+      return serializeDataKeyEnvelope({
+        ...wrapped,
+        payload: toBuffer(payload),
+      });
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  // Unwrap the data key and open the payload. A modified wrapped key or
+  // payload raises MTCv3AuthenticationError.
+  async decryptBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Promise<Uint8Array> {
+    const { payload, ...wrapped } = parseDataKeyEnvelope(toBuffer(data));
+    const dataKey = await this.provider.unwrapKey(wrapped);
+
+    try {
+      return this.dataKeyCipher(dataKey).openBytes(payload, associatedData);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  // Wrap an object's data key again under the current KEK, e.g. after a KEK
+  // rotation. The payload is copied unchanged.
+  async rewrap(data: Uint8Array): Promise<Uint8Array> {
+    const { payload, ...wrapped } = parseDataKeyEnvelope(toBuffer(data));
+    const dataKey = await this.provider.unwrapKey(wrapped);
+
+    try {
+      const rewrapped = await this.provider.wrapKey(dataKey);
+      return serializeDataKeyEnvelope({ ...rewrapped, payload });
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  private dataKeyCipher(dataKey: Buffer): MTCv3 {
+    const { rounds = 10, matrixSize = 4, ...shared } = this.options;
+    return new MTCv3('', DATA_KEY_SALT, rounds, matrixSize, {
+      ...shared,
+      kdf: { algorithm: 'raw', key: dataKey },
+    });
+  }
+}
+
+// Function to serialize an envelope-encrypted object
+export function serializeDataKeyEnvelope(envelope: DataKeyEnvelope): Buffer {
+  validateKeyId(envelope.kekId);
+  const kekId = Buffer.from(envelope.kekId, 'utf-8');
+  if (envelope.wrappedKey.length > 0xff) {
+    throw new Error('Wrapped key is too long for the envelope');
+  }
+
+  return Buffer.concat([
+    DATA_KEY_ENVELOPE_MAGIC,
+    Buffer.from([DATA_KEY_ENVELOPE_VERSION, kekId.length]),
+    kekId,
+    Buffer.from([envelope.wrappedKey.length]),
+    envelope.wrappedKey,
+    envelope.payload,
+  ]);
+}
+
+// Function to split an envelope-encrypted object into the wrapped data key
+// and the sealed payload
+export function parseDataKeyEnvelope(data: Buffer): DataKeyEnvelope {
+  const magicLength = DATA_KEY_ENVELOPE_MAGIC.length;
+  if (!data.subarray(0, magicLength).equals(DATA_KEY_ENVELOPE_MAGIC)) {
+    throw new MTCv3FormatError('Invalid envelope: missing data key magic');
+  }
+  if (data[magicLength] !== DATA_KEY_ENVELOPE_VERSION) {
+    throw new MTCv3FormatError(
+      `Unsupported data key envelope version: ${data[magicLength]}`
+    );
+  }
+
+  let offset = magicLength + 1;
+  const field = (): Buffer => {
+    if (offset >= data.length || offset + 1 + data[offset] > data.length) {
+      throw new MTCv3FormatError('Truncated data key envelope');
+    }
+    const value = data.subarray(offset + 1, offset + 1 + data[offset]);
+    offset += 1 + data[offset];
+    return value;
+  };
+
+  const kekId = field().toString('utf-8');
+  const wrappedKey = Buffer.from(field());
+  if (kekId.length === 0 || wrappedKey.length === 0) {
+    throw new MTCv3FormatError('Invalid envelope: malformed wrapped key');
+  }
+  return { kekId, wrappedKey, payload: data.subarray(offset) };
+}
@@ -0,0 +1,237 @@
+// Regenerate the known-answer vectors in __tests__/vectors/knownAnswer.json
+//
+//   yarn vectors
+//
+// Only regenerate after an intentional change to the cipher's output, and
+// review the diff of the vectors file: any change breaks existing ciphertexts.
+
+import fs from 'fs';
+import path from 'path';
+import { MTCv3 } from './MTCV3';
+import { BlockCipher } from './helpers/blockCipher';
+import {
+  DeterministicRandom,
+  generateColumnPermutation,
+  mixMatrix,
+  pad,
+  permuteBits,
+  permuteColumns,
+  seededRandomBytes,
+  shiftRows,
+} from './helpers/encryptionUtils';
+import { KdfOptions } from './helpers/kdf';
+import { CipherMode } from './helpers/modes';
+import { createSBox, resolveSBoxParams, SBoxOptions } from './helpers/sBox';
+
+const OUTPUT = path.join(__dirname, '__tests__', 'vectors', 'knownAnswer.json');
+
+interface BlockVectorInput {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  sBox: SBoxOptions;
+}
+
+interface MessageVectorInput {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  mode: CipherMode;
+  kdf: 'raw' | 'pbkdf2' | 'scrypt';
+  sBox: SBoxOptions;
+  sealed: boolean;
+  associatedData: string;
+  plaintext: string;
+  // Explicit IV (hex) instead of one drawn from the seeded generator
+  iv?: string;
+}
+
+const BLOCK_VECTORS: BlockVectorInput[] = [
+  { rounds: 10, matrixSize: 4, cipherVersion: 1, sBox: { type: 'aes' } },
+  { rounds: 10, matrixSize: 4, cipherVersion: 2, sBox: { type: 'aes' } },
+  { rounds: 4, matrixSize: 2, cipherVersion: 1, sBox: { type: 'aes' } },
+  { rounds: 6, matrixSize: 2, cipherVersion: 2, sBox: { type: 'aes' } },
+  { rounds: 12, matrixSize: 8, cipherVersion: 2, sBox: { type: 'aes' } },
+  { rounds: 8, matrixSize: 16, cipherVersion: 2, sBox: { type: 'aes' } },
+  {
+    rounds: 10,
+    matrixSize: 4,
+    cipherVersion: 2,
+    sBox: { type: 'key-dependent' },
+  },
+];
+
+const MESSAGE_DEFAULTS = {
+  rounds: 10,
+  matrixSize: 4,
+  cipherVersion: 2,
+  mode: 'cbc' as CipherMode,
+  kdf: 'raw' as const,
+  sBox: { type: 'aes' } as SBoxOptions,
+  sealed: false,
+  associatedData: '',
+  plaintext: 'The quick brown fox jumps over the lazy dog',
+};
+
+const MESSAGE_VECTORS: MessageVectorInput[] = [
+  { ...MESSAGE_DEFAULTS },
+  { ...MESSAGE_DEFAULTS, plaintext: '' },
+  { ...MESSAGE_DEFAULTS, plaintext: 'Exactly 16 bytes' },
+  { ...MESSAGE_DEFAULTS, cipherVersion: 1 },
+  { ...MESSAGE_DEFAULTS, mode: 'ctr', rounds: 6, matrixSize: 2 },
+  { ...MESSAGE_DEFAULTS, mode: 'cfb', rounds: 12, matrixSize: 8 },
+  { ...MESSAGE_DEFAULTS, mode: 'ofb', rounds: 8, matrixSize: 16 },
+  { ...MESSAGE_DEFAULTS, sealed: true, associatedData: 'header v1' },
+  { ...MESSAGE_DEFAULTS, mode: 'ctr', sealed: true },
+  { ...MESSAGE_DEFAULTS, kdf: 'pbkdf2' },
+  { ...MESSAGE_DEFAULTS, kdf: 'scrypt', mode: 'ctr' },
+  { ...MESSAGE_DEFAULTS, sBox: { type: 'key-dependent' } },
+  { ...MESSAGE_DEFAULTS, mode: 'ofb', iv: '000102030405060708090a0b0c0d0e0f' },
+];
+
+// Reduced KDF costs keep the vectors quick to check
+const KDF_OPTIONS: Record<
+  MessageVectorInput['kdf'],
+  (key: Buffer) => KdfOptions
+> = {
+  raw: (key) => ({ algorithm: 'raw', key }),
+  pbkdf2: () => ({ algorithm: 'pbkdf2', iterations: 1000 }),
+  scrypt: () => ({ algorithm: 'scrypt', N: 1024, r: 8, p: 1 }),
+};
+
+const PASSWORD = 'correct horse battery staple';
+
+function primitiveVectors(random: DeterministicRandom) {
+  const matrix = (N: number) =>
+    Array.from({ length: N }, () => Array.from(random.nextBytes(N)));
+
+  return {
+    shiftRows: [2, 4, 8].map((N) => {
+      const input = matrix(N);
+      const shifts = Array.from(random.nextBytes(N));
+      return { matrix: input, shifts, expected: shiftRows(input, shifts) };
+    }),
+    generateColumnPermutation: [2, 4, 8, 16].map((N) => {
+      const key = random.nextBytes(N);
+      const round = random.nextInt(16);
+      return {
+        key: key.toString('hex'),
+        round,
+        matrixSize: N,
+        expected: generateColumnPermutation(key, round, N),
+      };
+    }),
+    permuteColumns: [2, 4, 8].map((N) => {
+      const input = matrix(N);
+      const permutation = generateColumnPermutation(random.nextBytes(N), 0, N);
+      return {
+        matrix: input,
+        permutation,
+        expected: permuteColumns(input, permutation),
+      };
+    }),
+    permuteBits: [0, 1, 2, 3].map((round) => {
+      const data = Array.from(random.nextBytes(16));
+      const key = random.nextBytes(4);
+      return {
+        data,
+        key: key.toString('hex'),
+        round,
+        expected: permuteBits(data, key, round),
+      };
+    }),
+    mixMatrix: [2, 4, 8, 16].map((N) => {
+      const input = matrix(N);
+      return { matrix: input, expected: mixMatrix(input) };
+    }),
+    pad: [0, 5, 16, 31].map((length) => {
+      const data = random.nextBytes(length);
+      return {
+        data: data.toString('hex'),
+        blockSize: 16,
+        expected: pad(data, 16).toString('hex'),
+      };
+    }),
+    keyDependentSBox: [0, 1].map(() => {
+      const seed = random.nextBytes(32);
+      const params = resolveSBoxParams({ type: 'key-dependent' });
+      return {
+        seed: seed.toString('hex'),
+        params,
+        expected: Buffer.from(createSBox(params, seed).forward).toString('hex'),
+      };
+    }),
+  };
+}
+
+function blockVector(input: BlockVectorInput, random: DeterministicRandom) {
+  const blockSize = input.matrixSize * input.matrixSize;
+  const key = random.nextBytes(input.rounds * input.matrixSize);
+  const sBoxSeed = random.nextBytes(32);
+  const plaintext = random.nextBytes(blockSize);
+  const cipher = new BlockCipher(
+    key,
+    input.rounds,
+    input.matrixSize,
+    input.cipherVersion,
+    createSBox(resolveSBoxParams(input.sBox), sBoxSeed)
+  );
+  const roundStates = cipher.traceBlock(plaintext);
+
+  return {
+    ...input,
+    key: key.toString('hex'),
+    sBoxSeed: sBoxSeed.toString('hex'),
+    plaintext: plaintext.toString('hex'),
+    roundStates: roundStates.map((state) => state.toString('hex')),
+    ciphertext: roundStates[roundStates.length - 1].toString('hex'),
+  };
+}
+
+function messageVector(input: MessageVectorInput, index: number) {
+  const key = Buffer.from(Array.from({ length: 32 }, (_, i) => i + index));
+  const salt = `kat-salt-${index}`;
+  const randomSeed = `kat-iv-${index}`;
+  const mtc = new MTCv3(PASSWORD, salt, input.rounds, input.matrixSize, {
+    mode: input.mode,
+    cipherVersion: input.cipherVersion,
+    kdf: KDF_OPTIONS[input.kdf](key),
+    sBox: input.sBox,
+    randomBytes: seededRandomBytes(randomSeed),
+  });
+
+  const plaintext = Buffer.from(input.plaintext, 'utf-8');
+  const options = input.iv ? { iv: Buffer.from(input.iv, 'hex') } : {};
+  const ciphertext = input.sealed
+    ? mtc.sealBytes(plaintext, input.associatedData, options)
+    : mtc.encryptBytes(plaintext, options);
+
+  return {
+    ...input,
+    password: input.kdf === 'raw' ? undefined : PASSWORD,
+    key: input.kdf === 'raw' ? key.toString('hex') : undefined,
+    salt,
+    randomSeed,
+    ciphertext: Buffer.from(ciphertext).toString('hex'),
+  };
+}
+
+function generateVectors() {
+  const random = new DeterministicRandom(
+    Buffer.from('MTCv3 known-answer vectors')
+  );
+  const vectors = {
+    description:
+      'MTCv3 known-answer vectors. Regenerate with `yarn vectors` only after an intentional output change.',
+    primitives: primitiveVectors(random),
+    blocks: BLOCK_VECTORS.map((input) => blockVector(input, random)),
+    messages: MESSAGE_VECTORS.map(messageVector),
+  };
+
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(OUTPUT, `${JSON.stringify(vectors, null, 2)}\n`);
+  console.log(`Wrote ${OUTPUT}`);
+}
+
+// Generate the vectors
+generateVectors();
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { DEFAULT_CIPHER_VERSION } from './constants/encryptionConstants';
+import { BlockCipher } from './helpers/blockCipher';
+import { validateCipherVersion, validateRounds } from './helpers/keySchedule';
+
+// Merkle–Damgård hash from the MTCv3 block cipher (4x4, 16-byte blocks):
+//
+//   Davies–Meyer:       H_i = E_{m_i}(H_{i-1}) XOR H_{i-1}
+//   Miyaguchi–Preneel:  H_i = E_{H_{i-1}}(m_i) XOR H_{i-1} XOR m_i
+//
+// The message is padded with 0x80, zeros and its 64-bit length in bits. The
+// 128-bit output gives at most 64-bit collision resistance, and every block
+// runs the cipher's full key schedule, so this is far slower than SHA-256.
+
+export type HashConstruction = 'miyaguchi-preneel' | 'davies-meyer';
+
+export const HASH_LENGTH = 16;
+
+export interface MTCv3HashOptions {
+  // Compression function (default: miyaguchi-preneel)
+  construction?: HashConstruction;
+  // Rounds of the underlying cipher (default: 10)
+  rounds?: number;
+  // Cipher version (default: 2)
+  cipherVersion?: number;
+}
+
+// Initial chaining value: the first 128 bits of the fractional part of pi
+const INITIAL_VALUE = Buffer.from('243f6a8885a308d313198a2e03707344', 'hex');
+const CONSTRUCTIONS: HashConstruction[] = ['miyaguchi-preneel', 'davies-meyer'];
+
+export class MTCv3Hash {
+  private construction: HashConstruction;
+  private rounds: number;
+  private cipherVersion: number;
+  private state = Buffer.from(INITIAL_VALUE);
+  private pending = Buffer.alloc(0);
+  private length = 0;
+  private finished = false;
+
+  constructor(options: MTCv3HashOptions = {}) {
+    this.construction = options.construction ?? 'miyaguchi-preneel';
+    if (!CONSTRUCTIONS.includes(this.construction)) {
+      throw new Error(`Unsupported hash construction: ${this.construction}`);
+    }
+    this.rounds = options.rounds ?? 10;
+    validateRounds(this.rounds);
+    this.cipherVersion = options.cipherVersion ?? DEFAULT_CIPHER_VERSION;
+    validateCipherVersion(this.cipherVersion);
+  }
+
+  update(data: string | Uint8Array): this {
+    if (this.finished) {
+      throw new Error('Digest already called');
+    }
+
+    let input = Buffer.concat([this.pending, Buffer.from(data)]);
+    this.length += input.length - this.pending.length;
+    while (input.length >= HASH_LENGTH) {
+      this.compress(input.subarray(0, HASH_LENGTH));
+      input = input.subarray(HASH_LENGTH);
+    }
+    this.pending = Buffer.from(input);
+    return this;
+  }
+
+  // Finish and return the 16-byte digest
+  digest(): Buffer {
+    if (this.finished) {
+      throw new Error('Digest already called');
+    }
+
+    // Length strengthening: 0x80, zeros, then the bit length in 8 bytes
+    const zeros =
+      (HASH_LENGTH - ((this.pending.length + 9) % HASH_LENGTH)) % HASH_LENGTH;
+    const trailer = Buffer.alloc(1 + zeros + 8);
+    trailer[0] = 0x80;
+    trailer.writeBigUInt64BE(BigInt(this.length * 8), trailer.length - 8);
+    const length = this.length;
+    this.update(trailer);
+    this.length = length;
+    this.finished = true;
+
+    return Buffer.from(this.state);
+  }
+
+  // Finish and compare against an expected digest in constant time
+  verify(digest: Uint8Array): boolean {
+    const expected = this.digest();
+    return (
+      digest.length === expected.length &&
+      crypto.timingSafeEqual(digest, expected)
+    );
+  }
+
+  private compress(block: Buffer): void {
+    const previous = this.state;
+    if (this.construction === 'davies-meyer') {
+      this.state = xor(this.cipherFor(block).encryptBlock(previous), previous);
+    } else {
+      this.state = xor(
+        xor(this.cipherFor(previous).encryptBlock(block), previous),
+        block
+      );
+    }
+  }
+
+  // The cipher keyed by a 16-byte block, repeated to fill the key schedule
+  private cipherFor(key: Buffer): BlockCipher {
+    const keyMaterial = Buffer.alloc(this.rounds * 4);
+    for (let i = 0; i < keyMaterial.length; i++) {
+      keyMaterial[i] = key[i % key.length];
+    }
+    return new BlockCipher(keyMaterial, this.rounds, 4, this.cipherVersion);
+  }
+}
+
+function xor(a: Buffer, b: Buffer): Buffer {
+  return Buffer.from(a.map((byte, i) => byte ^ b[i]));
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { BlockCipherCore } from './blockCipherCore';
+import { deriveSubkey, toBuffer } from './encryptionUtils';
+import {
+  KeySchedule,
+  validateCipherVersion,
+  validateRounds,
+} from './keySchedule';
+import { AES_SBOX, SBox } from './sBox';
+
+// Constructor arguments of a BlockCipher, enough to rebuild it elsewhere
+// (e.g. in a worker thread)
+export interface BlockCipherParams {
+  keyMaterial: Buffer;
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  sBox: SBox;
+}
+
+// BlockCipherCore with its key schedule derived synchronously by Node's
+// crypto module, returning Buffers
+export class BlockCipher extends BlockCipherCore {
+  readonly params: BlockCipherParams;
+
+  constructor(
+    keyMaterial: Buffer,
+    rounds: number,
+    matrixSize: number,
+    cipherVersion: number,
+    sBox: SBox = AES_SBOX
+  ) {
+    super(
+      keyMaterial,
+      deriveKeySchedule(keyMaterial, rounds, matrixSize, cipherVersion),
+      rounds,
+      matrixSize,
+      sBox
+    );
+    this.params = {
+      keyMaterial: Buffer.from(keyMaterial),
+      rounds,
+      matrixSize,
+      cipherVersion,
+      sBox,
+    };
+  }
+
+  encryptBlock(block: Uint8Array, rounds?: number): Buffer {
+    return toBuffer(super.encryptBlock(block, rounds));
+  }
+
+  traceBlock(block: Uint8Array): Buffer[] {
+    return super.traceBlock(block).map(toBuffer);
+  }
+
+  decryptBlock(block: Uint8Array): Buffer {
+    return toBuffer(super.decryptBlock(block));
+  }
+}
+
+// Function to derive the key schedule, see deriveKeySchedule in
+// helpers/keySchedule for the asynchronous equivalent
+function deriveKeySchedule(
+  keyMaterial: Buffer,
+  rounds: number,
+  matrixSize: number,
+  cipherVersion: number
+): KeySchedule {
+  validateRounds(rounds);
+  validateCipherVersion(cipherVersion);
+
+  const permutationDigests = Array.from({ length: rounds }, (_, r) =>
+    crypto
+      .createHash('sha256')
+      .update(keyMaterial.slice(r * matrixSize, (r + 1) * matrixSize))
+      .update(Buffer.from([r]))
+      .digest()
+  );
+  const roundKeys =
+    cipherVersion === 2
+      ? Array.from({ length: rounds + 1 }, (_, r) =>
+          deriveSubkey(
+            keyMaterial,
+            `MTCv3 round key ${r}`,
+            matrixSize * matrixSize
+          )
+        )
+      : [];
+
+  return { permutationDigests, roundKeys };
+}
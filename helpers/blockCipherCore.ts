@@ -0,0 +1,225 @@
+import {
+  columnPermutationFromDigest,
+  generateInverseColumnPermutation,
+  KeySchedule,
+} from './keySchedule.js';
+import { getMixingMatrices, gfMultiplicationTable } from './mixing.js';
+import { AES_SBOX, SBox } from './sBoxCore.js';
+
+// Per-round lookup tables, computed once per key
+interface RoundTables {
+  // Source index of every byte after row shifting and column permutation
+  gather: Uint16Array;
+  // Source index of every byte after the inverse column permutation and row shifting
+  inverseGather: Uint16Array;
+  // Bit rotation of every byte value, and its inverse
+  rotate: Uint8Array;
+  inverseRotate: Uint8Array;
+}
+
+// Keyed MTCv3 block primitive, operating on matrixSize * matrixSize byte
+// blocks, without Node dependencies. The hash-derived parts of the key
+// schedule are passed in, so that platforms with asynchronous hashing can
+// compute them first; BlockCipher (helpers/blockCipher) derives them itself.
+// Every key-dependent step is precomputed in the constructor; the output is
+// identical to ReferenceBlockCipher, which composes the steps one by one.
+export class BlockCipherCore {
+  private roundTables: RoundTables[];
+  private roundKeys: Uint8Array[];
+  private mixTables: Uint8Array[];
+  private inverseMixTables: Uint8Array[];
+  private scratch: Uint8Array;
+  private scratch2: Uint8Array;
+  private sBox: SBox;
+  private rounds: number;
+  private matrixSize: number;
+
+  constructor(
+    keyMaterial: Uint8Array,
+    schedule: KeySchedule,
+    rounds: number,
+    matrixSize: number,
+    sBox: SBox = AES_SBOX
+  ) {
+    this.rounds = rounds;
+    this.matrixSize = matrixSize;
+    this.sBox = sBox;
+    this.scratch = new Uint8Array(this.blockSize);
+    this.scratch2 = new Uint8Array(this.blockSize);
+
+    // Per-round shift amounts, permutation seeds and bit rotations
+    this.roundTables = [];
+    for (let r = 0; r < this.rounds; r++) {
+      const start = r * this.matrixSize;
+      const end = start + this.matrixSize;
+      this.roundTables.push(
+        this.buildRoundTables(
+          keyMaterial.subarray(start, end),
+          schedule.permutationDigests[r],
+          r
+        )
+      );
+    }
+
+    // Version 2 adds rounds + 1 full-block keys: key 0 whitens the input and
+    // key r is added at the end of round r, so the last one whitens the output
+    this.roundKeys = schedule.roundKeys;
+
+    // One multiplication table per mixing matrix coefficient, row-major
+    const { forward, inverse } = getMixingMatrices(matrixSize);
+    this.mixTables = forward.flat().map(gfMultiplicationTable);
+    this.inverseMixTables = inverse.flat().map(gfMultiplicationTable);
+  }
+
+  get blockSize(): number {
+    return this.matrixSize * this.matrixSize;
+  }
+
+  // Encrypt a single block, optionally with only the first `rounds` rounds
+  encryptBlock(block: Uint8Array, rounds: number = this.rounds): Uint8Array {
+    const state = new Uint8Array(block);
+    this.encryptInPlace(state, rounds);
+    return state;
+  }
+
+  // Encrypt a single block, returning the state after every round (the last
+  // entry is the ciphertext). Used by the cryptanalysis toolkit.
+  traceBlock(block: Uint8Array): Uint8Array[] {
+    const state = new Uint8Array(block);
+    const states: Uint8Array[] = [];
+
+    this.addRoundKey(state, 0);
+    for (let r = 0; r < this.rounds; r++) {
+      this.encryptRound(state, r);
+      states.push(new Uint8Array(state));
+    }
+    return states;
+  }
+
+  // Decrypt a single block
+  decryptBlock(block: Uint8Array): Uint8Array {
+    const state = new Uint8Array(block);
+    this.decryptInPlace(state);
+    return state;
+  }
+
+  // Encrypt a block held in state, overwriting it. Reduced-round variants
+  // stop after `rounds` rounds, including that round's key addition.
+  encryptInPlace(state: Uint8Array, rounds: number = this.rounds): void {
+    if (!Number.isInteger(rounds) || rounds < 0 || rounds > this.rounds) {
+      throw new Error(`Invalid round count: ${rounds}`);
+    }
+
+    this.addRoundKey(state, 0);
+    for (let r = 0; r < rounds; r++) {
+      this.encryptRound(state, r);
+    }
+  }
+
+  // Decrypt a block held in state, overwriting it
+  decryptInPlace(state: Uint8Array): void {
+    const N = this.matrixSize;
+    const scratch = this.scratch;
+    const mixed = this.scratch2;
+    const inverseSBox = this.sBox.inverse;
+
+    for (let r = this.rounds - 1; r >= 0; r--) {
+      const { inverseGather, inverseRotate } = this.roundTables[r];
+
+      // Round Key Addition
+      this.addRoundKey(state, r + 1);
+
+      // Inverse Bit-level Permutation
+      for (let i = 0; i < state.length; i++) {
+        scratch[i] = inverseRotate[state[i]];
+      }
+
+      // Inverse Mixing Layer and Inverse S-Box Substitution
+      for (let col = 0; col < N; col++) {
+        for (let row = 0; row < N; row++) {
+          let value = 0;
+          for (let k = 0; k < N; k++) {
+            value ^= this.inverseMixTables[row * N + k][scratch[k * N + col]];
+          }
+          mixed[row * N + col] = inverseSBox[value];
+        }
+      }
+
+      // Inverse Column Permutation and Inverse Row Shifting
+      for (let i = 0; i < state.length; i++) {
+        state[i] = mixed[inverseGather[i]];
+      }
+    }
+
+    this.addRoundKey(state, 0);
+  }
+
+  // Apply round r to the state
+  private encryptRound(state: Uint8Array, r: number): void {
+    const N = this.matrixSize;
+    const scratch = this.scratch;
+    const sBox = this.sBox.forward;
+    const { gather, rotate } = this.roundTables[r];
+
+    // Row Shifting, Column Permutation and S-Box Substitution
+    for (let i = 0; i < state.length; i++) {
+      scratch[i] = sBox[state[gather[i]]];
+    }
+
+    // Mixing Layer and Bit-level Permutation
+    for (let col = 0; col < N; col++) {
+      for (let row = 0; row < N; row++) {
+        let value = 0;
+        for (let k = 0; k < N; k++) {
+          value ^= this.mixTables[row * N + k][scratch[k * N + col]];
+        }
+        state[row * N + col] = rotate[value];
+      }
+    }
+
+    // Round Key Addition
+    this.addRoundKey(state, r + 1);
+  }
+
+  // XOR a full-block round key into the state (no-op for version 1)
+  private addRoundKey(state: Uint8Array, index: number): void {
+    const roundKey = this.roundKeys[index];
+    if (roundKey) {
+      for (let i = 0; i < state.length; i++) {
+        state[i] ^= roundKey[i];
+      }
+    }
+  }
+
+  // Fold the key-dependent byte moves and rotation of one round into tables
+  private buildRoundTables(
+    key: Uint8Array,
+    permutationDigest: Uint8Array,
+    round: number
+  ): RoundTables {
+    const N = this.matrixSize;
+    const permutation = columnPermutationFromDigest(permutationDigest, N);
+    const inversePermutation = generateInverseColumnPermutation(permutation);
+
+    const gather = new Uint16Array(N * N);
+    const inverseGather = new Uint16Array(N * N);
+    for (let row = 0; row < N; row++) {
+      const shift = key[row] % N;
+      for (let col = 0; col < N; col++) {
+        gather[row * N + col] = row * N + ((permutation[col] - shift + N) % N);
+        inverseGather[row * N + col] =
+          row * N + inversePermutation[(col + shift) % N];
+      }
+    }
+
+    const bits = key[round % key.length] % 8;
+    const rotate = new Uint8Array(256);
+    const inverseRotate = new Uint8Array(256);
+    for (let byte = 0; byte < 256; byte++) {
+      rotate[byte] = ((byte << bits) | (byte >> (8 - bits))) & 0xff;
+      inverseRotate[byte] = ((byte >> bits) | (byte << (8 - bits))) & 0xff;
+    }
+
+    return { gather, inverseGather, rotate, inverseRotate };
+  }
+}
@@ -0,0 +1,125 @@
+// Uint8Array helpers for the platform-independent core, which runs without
+// Node's Buffer (browsers, Deno, edge runtimes)
+
+export type BinaryEncoding = 'hex' | 'base64' | 'base64url';
+
+const encoder = new TextEncoder();
+// A leading byte order mark is kept, as Buffer.toString does
+const strictDecoder = new TextDecoder('utf-8', {
+  fatal: true,
+  ignoreBOM: true,
+});
+const lenientDecoder = new TextDecoder('utf-8', { ignoreBOM: true });
+
+// Function to concatenate byte arrays
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Function to compare byte arrays (not constant time)
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Function to compare secret byte arrays of equal length in constant time;
+// arrays of different lengths are unequal
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+// Function to XOR two byte arrays up to the length of the first
+export function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+// Function to encode a string as UTF-8
+export function utf8Encode(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+// Function to decode UTF-8; strict decoding rejects malformed input instead
+// of replacing it
+export function utf8Decode(bytes: Uint8Array, strict: boolean = false): string {
+  return (strict ? strictDecoder : lenientDecoder).decode(bytes);
+}
+
+// Function to convert text or bytes to bytes (text as UTF-8)
+export function toBytes(data: string | Uint8Array): Uint8Array {
+  return typeof data === 'string' ? utf8Encode(data) : data;
+}
+
+// Function to write an unsigned big-endian integer of up to 2^53 - 1
+export function uintBE(value: number, length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  for (let i = length - 1; i >= 0 && value > 0; i--) {
+    result[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return result;
+}
+
+// Function to read an unsigned big-endian integer
+export function readUintBE(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+// Function to encode bytes as hex, base64 or base64url
+export function encodeBytes(
+  bytes: Uint8Array,
+  encoding: BinaryEncoding
+): string {
+  if (encoding === 'hex') {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+      ''
+    );
+  }
+
+  const base64 = btoa(
+    Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')
+  );
+  return encoding === 'base64'
+    ? base64
+    : base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Function to decode hex, base64 or base64url. Like Buffer.from, decoding
+// stops at the first invalid hex pair.
+export function decodeBytes(
+  text: string,
+  encoding: BinaryEncoding
+): Uint8Array {
+  if (encoding === 'hex') {
+    const bytes: number[] = [];
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      const pair = text.slice(i, i + 2);
+      if (!/^[0-9a-fA-F]{2}$/.test(pair)) {
+        break;
+      }
+      bytes.push(parseInt(pair, 16));
+    }
+    return Uint8Array.from(bytes);
+  }
+
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,57 @@
+// Deterministic byte stream read from numbered blocks. Subclasses supply
+// the blocks; the sampling on top is shared so that the Node and WebCrypto
+// builds draw identical values from identical blocks.
+export abstract class CounterRandom {
+  private current: Uint8Array = new Uint8Array(0);
+  private offset = 0;
+  private counter = 0;
+
+  // Block number `counter` of the stream
+  protected abstract block(counter: number): Uint8Array;
+
+  // Uniform integer in [0, bound) for bound <= 256, by rejection sampling
+  nextInt(bound: number): number {
+    const limit = 256 - (256 % bound);
+    let byte: number;
+    do {
+      byte = this.nextByte();
+    } while (byte >= limit);
+    return byte % bound;
+  }
+
+  nextBytes(length: number): Uint8Array {
+    return Uint8Array.from({ length }, () => this.nextByte());
+  }
+
+  nextByte(): number {
+    if (this.offset === this.current.length) {
+      this.current = this.block(this.counter++);
+      this.offset = 0;
+    }
+    return this.current[this.offset++];
+  }
+}
+
+// Raised by PrecomputedRandom when a search needs more blocks than were
+// computed ahead of time
+export class RandomExhaustedError extends Error {
+  constructor() {
+    super('Precomputed random blocks exhausted');
+  }
+}
+
+// Byte stream over blocks computed ahead of time, for platforms that can
+// only hash asynchronously. A consumer that runs out is replayed with more
+// blocks, and draws the same values the second time.
+export class PrecomputedRandom extends CounterRandom {
+  constructor(private blocks: Uint8Array[]) {
+    super();
+  }
+
+  protected block(counter: number): Uint8Array {
+    if (counter >= this.blocks.length) {
+      throw new RandomExhaustedError();
+    }
+    return this.blocks[counter];
+  }
+}
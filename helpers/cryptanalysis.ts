@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import {
+  DEFAULT_CIPHER_VERSION,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from '../constants/encryptionConstants';
+import { BlockCipher } from './blockCipher';
+import { DeterministicRandom } from './encryptionUtils';
+import { createSBox, resolveSBoxParams, SBoxOptions, SBoxParams } from './sBox';
+
+// Statistical tests of the MTCv3 round function. Every measurement runs the
+// block primitive directly, round by round, under a key drawn from a seeded
+// PRNG so that any report can be reproduced from its configuration.
+
+export interface AnalysisOptions {
+  rounds?: number;
+  matrixSize?: number;
+  cipherVersion?: number;
+  sBox?: SBoxOptions;
+  // Seed for the key and all sampled plaintexts (default: random, reported)
+  seed?: string;
+  // Random plaintexts per input bit for avalanche, SAC and BIC (default: 64)
+  avalancheSamples?: number;
+  // Plaintext pairs per input difference for the differential test (default: 2048)
+  differentialSamples?: number;
+  // Known plaintexts for the linear test (default: 4096)
+  linearSamples?: number;
+  // Counter blocks encrypted for the byte-frequency test (default: 4096)
+  frequencyBlocks?: number;
+}
+
+export interface AnalysisConfig {
+  rounds: number;
+  matrixSize: number;
+  blockBits: number;
+  cipherVersion: number;
+  sBox: SBoxParams;
+  seed: string;
+  avalancheSamples: number;
+  differentialSamples: number;
+  linearSamples: number;
+  frequencyBlocks: number;
+}
+
+// Diffusion after one round, from flipping single input bits
+export interface RoundDiffusion {
+  round: number;
+  // Mean fraction of output bits that flip (ideal: 0.5)
+  avalanche: number;
+  // Fraction of (input bit, output bit) pairs where the output ever flipped
+  dependence: number;
+  // Mean and largest |P(output bit j flips | input bit i flipped) - 0.5|
+  sacMeanDeviation: number;
+  sacMaxDeviation: number;
+}
+
+export interface BitIndependence {
+  inputBits: number;
+  outputBits: number;
+  // Output bit pairs measured; pairs where a bit never or always flipped
+  // have no defined correlation and are skipped
+  pairs: number;
+  // Largest and mean |correlation| between the flips of two output bits
+  maxCorrelation: number;
+  meanCorrelation: number;
+}
+
+export interface DifferentialResult {
+  inputDifference: string;
+  rounds: {
+    round: number;
+    // Highest probability of any single output byte difference
+    maxProbability: number;
+  }[];
+}
+
+export interface LinearResult {
+  round: number;
+  // Largest |P(input bit i = output bit j) - 0.5| over the sampled bit pairs
+  maxBias: number;
+}
+
+export interface ByteFrequency {
+  bytes: number;
+  minCount: number;
+  maxCount: number;
+  // Shannon entropy in bits per byte (ideal: 8)
+  entropy: number;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  // Probability of a chi-square at least this large for uniform bytes
+  pValue: number;
+}
+
+export interface AnalysisReport {
+  config: AnalysisConfig;
+  // Standard deviation of a probability estimated from the given samples,
+  // i.e. the level below which deviations and biases are sampling noise
+  noise: {
+    avalanche: number;
+    linear: number;
+  };
+  diffusion: RoundDiffusion[];
+  bitIndependence: BitIndependence;
+  differential: {
+    uniformProbability: number;
+    results: DifferentialResult[];
+  };
+  linear: LinearResult[];
+  byteFrequency: ByteFrequency;
+}
+
+// Largest numbers of input and output bits tracked, so that large blocks
+// stay within reasonable time and memory
+const MAX_AVALANCHE_INPUT_BITS = 128;
+const MAX_BIC_OUTPUT_BITS = 64;
+const MAX_LINEAR_BITS = 16;
+
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let count = 0;
+  for (let bit = byte; bit > 0; bit >>= 1) {
+    count += bit & 1;
+  }
+  return count;
+});
+
+// Function to run every test and collect the results in one report
+export function analyzeCipher(options: AnalysisOptions = {}): AnalysisReport {
+  const config = resolveConfig(options);
+  const random = new DeterministicRandom(
+    crypto.createHash('sha256').update(config.seed).digest()
+  );
+  const cipher = new BlockCipher(
+    random.nextBytes(config.rounds * config.matrixSize),
+    config.rounds,
+    config.matrixSize,
+    config.cipherVersion,
+    createSBox(config.sBox, random.nextBytes(32))
+  );
+
+  const { diffusion, bitIndependence } = measureDiffusion(
+    cipher,
+    config,
+    random
+  );
+
+  return {
+    config,
+    noise: {
+      avalanche: 0.5 / Math.sqrt(config.avalancheSamples),
+      linear: 0.5 / Math.sqrt(config.linearSamples),
+    },
+    diffusion,
+    bitIndependence,
+    differential: {
+      uniformProbability: 1 / 256,
+      results: measureDifferentials(cipher, config, random),
+    },
+    linear: measureLinearBias(cipher, config, random),
+    byteFrequency: measureByteFrequency(cipher, config),
+  };
+}
+
+// Function to fill in defaults and validate the analysis options
+function resolveConfig(options: AnalysisOptions): AnalysisConfig {
+  const matrixSize = options.matrixSize ?? 4;
+  if (!SUPPORTED_MATRIX_SIZES.includes(matrixSize)) {
+    throw new Error(`Unsupported matrix size: ${matrixSize}`);
+  }
+  const cipherVersion = options.cipherVersion ?? DEFAULT_CIPHER_VERSION;
+  if (!SUPPORTED_CIPHER_VERSIONS.includes(cipherVersion)) {
+    throw new Error(`Unsupported cipher version: ${cipherVersion}`);
+  }
+
+  const config: AnalysisConfig = {
+    rounds: options.rounds ?? 10,
+    matrixSize,
+    blockBits: matrixSize * matrixSize * 8,
+    cipherVersion,
+    sBox: resolveSBoxParams(options.sBox),
+    seed: options.seed ?? crypto.randomBytes(16).toString('hex'),
+    avalancheSamples: options.avalancheSamples ?? 64,
+    differentialSamples: options.differentialSamples ?? 2048,
+    linearSamples: options.linearSamples ?? 4096,
+    frequencyBlocks: options.frequencyBlocks ?? 4096,
+  };
+
+  for (const name of [
+    'rounds',
+    'avalancheSamples',
+    'differentialSamples',
+    'linearSamples',
+    'frequencyBlocks',
+  ] as const) {
+    if (!Number.isInteger(config[name]) || config[name] < 1) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+  }
+  return config;
+}
+
+// Function to measure avalanche, SAC and dependence after every round, and
+// the bit independence criterion of the full cipher
+function measureDiffusion(
+  cipher: BlockCipher,
+  config: AnalysisConfig,
+  random: DeterministicRandom
+): { diffusion: RoundDiffusion[]; bitIndependence: BitIndependence } {
+  const { rounds, blockBits, avalancheSamples: samples } = config;
+  const blockSize = blockBits / 8;
+  const inputBits = sampleBits(blockBits, MAX_AVALANCHE_INPUT_BITS);
+  const bicBits = sampleBits(blockBits, MAX_BIC_OUTPUT_BITS);
+  const pairCount = (bicBits.length * (bicBits.length - 1)) / 2;
+
+  // flips[r][i * blockBits + j]: times output bit j flipped after round r + 1
+  // when input bit inputBits[i] was flipped
+  const flips = Array.from(
+    { length: rounds },
+    () => new Uint32Array(inputBits.length * blockBits)
+  );
+  const flippedBits = new Float64Array(rounds);
+  // Final-round flip counts of the BIC output bits, and of each pair
+  const bicFlips = new Uint32Array(inputBits.length * bicBits.length);
+  const bicJointFlips = new Uint32Array(inputBits.length * pairCount);
+  const bicFlipped = new Uint8Array(bicBits.length);
+
+  for (let s = 0; s < samples; s++) {
+    const plaintext = random.nextBytes(blockSize);
+    const base = cipher.traceBlock(plaintext);
+
+    inputBits.forEach((inputBit, i) => {
+      const trace = cipher.traceBlock(flipBit(plaintext, inputBit));
+
+      for (let r = 0; r < rounds; r++) {
+        const counts = flips[r];
+        const offset = i * blockBits;
+        for (let byte = 0; byte < blockSize; byte++) {
+          const difference = base[r][byte] ^ trace[r][byte];
+          if (difference === 0) {
+            continue;
+          }
+          flippedBits[r] += POPCOUNT[difference];
+          for (let bit = 0; bit < 8; bit++) {
+            if ((difference >> bit) & 1) {
+              counts[offset + byte * 8 + bit]++;
+            }
+          }
+        }
+      }
+
+      const final = rounds - 1;
+      bicBits.forEach((bit, j) => {
+        bicFlipped[j] =
+          (readBit(base[final], bit) ^ readBit(trace[final], bit)) & 1;
+        bicFlips[i * bicBits.length + j] += bicFlipped[j];
+      });
+      let pair = i * pairCount;
+      for (let j = 0; j < bicBits.length; j++) {
+        for (let k = j + 1; k < bicBits.length; k++) {
+          bicJointFlips[pair++] += bicFlipped[j] & bicFlipped[k];
+        }
+      }
+    });
+  }
+
+  const diffusion = flips.map((counts, r) => {
+    let dependent = 0;
+    let deviationSum = 0;
+    let maxDeviation = 0;
+    counts.forEach((count) => {
+      const deviation = Math.abs(count / samples - 0.5);
+      dependent += count > 0 ? 1 : 0;
+      deviationSum += deviation;
+      maxDeviation = Math.max(maxDeviation, deviation);
+    });
+    return {
+      round: r + 1,
+      avalanche: flippedBits[r] / (samples * inputBits.length * blockBits),
+      dependence: dependent / counts.length,
+      sacMeanDeviation: deviationSum / counts.length,
+      sacMaxDeviation: maxDeviation,
+    };
+  });
+
+  // Pearson correlation of two output bits' flip indicators, per input bit
+  let maxCorrelation = 0;
+  let correlationSum = 0;
+  let correlations = 0;
+  inputBits.forEach((_, i) => {
+    let pair = i * pairCount;
+    for (let j = 0; j < bicBits.length; j++) {
+      for (let k = j + 1; k < bicBits.length; k++) {
+        const nj = bicFlips[i * bicBits.length + j];
+        const nk = bicFlips[i * bicBits.length + k];
+        const variance = nj * (samples - nj) * nk * (samples - nk);
+        const joint = bicJointFlips[pair++];
+        if (variance === 0) {
+          continue;
+        }
+        const correlation =
+          Math.abs(samples * joint - nj * nk) / Math.sqrt(variance);
+        maxCorrelation = Math.max(maxCorrelation, correlation);
+        correlationSum += correlation;
+        correlations++;
+      }
+    }
+  });
+
+  return {
+    diffusion,
+    bitIndependence: {
+      inputBits: inputBits.length,
+      outputBits: bicBits.length,
+      pairs: correlations,
+      maxCorrelation,
+      meanCorrelation: correlations > 0 ? correlationSum / correlations : 0,
+    },
+  };
+}
+
+// Function to estimate, for reduced-round versions, how predictable the
+// output byte differences are for fixed input differences
+function measureDifferentials(
+  cipher: BlockCipher,
+  config: AnalysisConfig,
+  random: DeterministicRandom
+): DifferentialResult[] {
+  const { rounds, blockBits, differentialSamples: samples } = config;
+  const blockSize = blockBits / 8;
+
+  // A single low bit, and a full byte
+  const singleBit = Buffer.alloc(blockSize);
+  singleBit[0] = 0x01;
+  const fullByte = Buffer.alloc(blockSize);
+  fullByte[0] = 0xff;
+
+  return [singleBit, fullByte].map((inputDifference) => {
+    // counts[r][byte * 256 + difference]
+    const counts = Array.from(
+      { length: rounds },
+      () => new Uint32Array(blockSize * 256)
+    );
+
+    for (let s = 0; s < samples; s++) {
+      const plaintext = random.nextBytes(blockSize);
+      const partner = Buffer.from(plaintext);
+      for (let byte = 0; byte < blockSize; byte++) {
+        partner[byte] ^= inputDifference[byte];
+      }
+
+      const first = cipher.traceBlock(plaintext);
+      const second = cipher.traceBlock(partner);
+      for (let r = 0; r < rounds; r++) {
+        for (let byte = 0; byte < blockSize; byte++) {
+          counts[r][byte * 256 + (first[r][byte] ^ second[r][byte])]++;
+        }
+      }
+    }
+
+    return {
+      inputDifference: inputDifference.toString('hex'),
+      rounds: counts.map((roundCounts, r) => ({
+        round: r + 1,
+        maxProbability: roundCounts.reduce((a, b) => Math.max(a, b)) / samples,
+      })),
+    };
+  });
+}
+
+// Function to estimate, for reduced-round versions, the largest bias of a
+// linear approximation between one plaintext bit and one output bit
+function measureLinearBias(
+  cipher: BlockCipher,
+  config: AnalysisConfig,
+  random: DeterministicRandom
+): LinearResult[] {
+  const { rounds, blockBits, linearSamples: samples } = config;
+  const bits = sampleBits(blockBits, MAX_LINEAR_BITS);
+
+  // agreements[r][i * bits.length + j]: times input bit i equalled output bit j
+  const agreements = Array.from(
+    { length: rounds },
+    () => new Uint32Array(bits.length * bits.length)
+  );
+
+  for (let s = 0; s < samples; s++) {
+    const plaintext = random.nextBytes(blockBits / 8);
+    const trace = cipher.traceBlock(plaintext);
+
+    for (let r = 0; r < rounds; r++) {
+      bits.forEach((inputBit, i) => {
+        const input = readBit(plaintext, inputBit);
+        bits.forEach((outputBit, j) => {
+          if (input === readBit(trace[r], outputBit)) {
+            agreements[r][i * bits.length + j]++;
+          }
+        });
+      });
+    }
+  }
+
+  return agreements.map((counts, r) => {
+    let maxBias = 0;
+    counts.forEach((count) => {
+      maxBias = Math.max(maxBias, Math.abs(count / samples - 0.5));
+    });
+    return { round: r + 1, maxBias };
+  });
+}
+
+// Function to compute byte-frequency statistics of the full cipher applied
+// to a low-entropy input: consecutive counter blocks
+function measureByteFrequency(
+  cipher: BlockCipher,
+  config: AnalysisConfig
+): ByteFrequency {
+  const blockSize = config.blockBits / 8;
+  const counts = new Float64Array(256);
+  const counter = Buffer.alloc(blockSize);
+
+  for (let block = 0; block < config.frequencyBlocks; block++) {
+    counter.writeUInt32BE(block, blockSize - 4);
+    for (const byte of cipher.encryptBlock(counter)) {
+      counts[byte]++;
+    }
+  }
+
+  const bytes = config.frequencyBlocks * blockSize;
+  const expected = bytes / 256;
+  let chiSquare = 0;
+  let entropy = 0;
+  counts.forEach((count) => {
+    chiSquare += (count - expected) ** 2 / expected;
+    if (count > 0) {
+      entropy -= (count / bytes) * Math.log2(count / bytes);
+    }
+  });
+
+  return {
+    bytes,
+    minCount: Math.min(...counts),
+    maxCount: Math.max(...counts),
+    entropy,
+    chiSquare,
+    degreesOfFreedom: 255,
+    pValue: chiSquareUpperTail(chiSquare, 255),
+  };
+}
+
+// Function to approximate the upper tail of the chi-square distribution
+// (Wilson-Hilferty transformation to a standard normal)
+export function chiSquareUpperTail(
+  x: number,
+  degreesOfFreedom: number
+): number {
+  const k = degreesOfFreedom;
+  const z = (Math.cbrt(x / k) - (1 - 2 / (9 * k))) / Math.sqrt(2 / (9 * k));
+  return 1 - normalCdf(z);
+}
+
+// Function to evaluate the standard normal CDF (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Function to pick at most max evenly spaced bit positions
+function sampleBits(total: number, max: number): number[] {
+  const count = Math.min(total, max);
+  return Array.from({ length: count }, (_, i) =>
+    Math.floor((i * total) / count)
+  );
+}
+
+function readBit(data: Uint8Array, bit: number): number {
+  return (data[bit >> 3] >> (bit & 7)) & 1;
+}
+
+function flipBit(data: Buffer, bit: number): Buffer {
+  const flipped = Buffer.from(data);
+  flipped[bit >> 3] ^= 1 << (bit & 7);
+  return flipped;
+}
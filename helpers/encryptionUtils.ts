@@ -1,13 +1,82 @@
 import crypto from 'crypto';
+import { CounterRandom } from './counterRandom';
+import { columnPermutationFromDigest } from './keySchedule';
+import { pad as padBytes, unpad as unpadBytes } from './padding';
+
+export { generateInverseColumnPermutation } from './keySchedule';
+export {
+  getMixingMatrices,
+  gfMultiplicationTable,
+  inverseMixMatrix,
+  mixMatrix,
+} from './mixing';
+export type { MixingMatrices } from './mixing';
+export { paddingLength } from './padding';
 
 // Function to perform PBKDF2 key derivation
 export function deriveKey(
-  password: string,
-  salt: string,
+  password: string | Uint8Array,
+  salt: string | Buffer,
   iterations: number,
+  keyLength: number,
+  digest: string = 'sha256'
+): Buffer {
+  return crypto.pbkdf2Sync(password, salt, iterations, keyLength, digest);
+}
+
+// Function to derive an independent subkey from key material (HKDF-SHA256)
+export function deriveSubkey(
+  keyMaterial: Buffer,
+  info: string,
   keyLength: number
 ): Buffer {
-  return crypto.pbkdf2Sync(password, salt, iterations, keyLength, 'sha256');
+  return Buffer.from(
+    crypto.hkdfSync('sha256', keyMaterial, Buffer.alloc(0), info, keyLength)
+  );
+}
+
+// Incremental HMAC-SHA256 tag over AD || data || len(AD) || len(data).
+// The lengths come last so the data can be authenticated as it streams.
+export interface Tagger {
+  update(data: Uint8Array): void;
+  digest(): Buffer;
+}
+
+// Function to create an incremental authentication tag
+export function createTagger(macKey: Buffer, associatedData: Buffer): Tagger {
+  const hmac = crypto.createHmac('sha256', macKey).update(associatedData);
+  let dataLength = 0;
+
+  return {
+    update(data: Uint8Array) {
+      hmac.update(data);
+      dataLength += data.length;
+    },
+    digest() {
+      const lengths = Buffer.alloc(16);
+      lengths.writeBigUInt64BE(BigInt(associatedData.length), 0);
+      lengths.writeBigUInt64BE(BigInt(dataLength), 8);
+      return hmac.update(lengths).digest();
+    },
+  };
+}
+
+// Function to compute an authentication tag in one shot
+export function computeTag(
+  macKey: Buffer,
+  associatedData: Buffer,
+  data: Buffer
+): Buffer {
+  const tagger = createTagger(macKey, associatedData);
+  tagger.update(data);
+  return tagger.digest();
+}
+
+// Function to view a Uint8Array as a Buffer without copying
+export function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data)
+    ? data
+    : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
 }
 
 // Function to apply S-box substitution
@@ -53,59 +122,6 @@ export function permuteColumns(
   return matrix.map((row) => permutation.map((colIndex) => row[colIndex]));
 }
 
-// GF(2^8) multiplication function
-function gfMul(a: number, b: number): number {
-  let p = 0;
-  for (let counter = 0; counter < 8; counter++) {
-    if (b & 1) {
-      p ^= a;
-    }
-    const hiBitSet = a & 0x80;
-    a = (a << 1) & 0xff;
-    if (hiBitSet) {
-      a ^= 0x1b; // AES irreducible polynomial
-    }
-    b >>= 1;
-  }
-  return p;
-}
-
-// Function to perform mixing layer (AES MixColumns)
-export function mixMatrix(matrix: number[][]): number[][] {
-  const N = matrix.length;
-  const result: number[][] = Array.from({ length: N }, () => Array(N).fill(0));
-
-  for (let c = 0; c < N; c++) {
-    const a = matrix.map((row) => row[c]);
-    result[0][c] = gfMul(a[0], 2) ^ gfMul(a[1], 3) ^ a[2] ^ a[3];
-    result[1][c] = a[0] ^ gfMul(a[1], 2) ^ gfMul(a[2], 3) ^ a[3];
-    result[2][c] = a[0] ^ a[1] ^ gfMul(a[2], 2) ^ gfMul(a[3], 3);
-    result[3][c] = gfMul(a[0], 3) ^ a[1] ^ a[2] ^ gfMul(a[3], 2);
-  }
-
-  return result;
-}
-
-// Function to perform inverse mixing layer (AES InvMixColumns)
-export function inverseMixMatrix(matrix: number[][]): number[][] {
-  const N = matrix.length;
-  const result: number[][] = Array.from({ length: N }, () => Array(N).fill(0));
-
-  for (let c = 0; c < N; c++) {
-    const a = matrix.map((row) => row[c]);
-    result[0][c] =
-      gfMul(a[0], 14) ^ gfMul(a[1], 11) ^ gfMul(a[2], 13) ^ gfMul(a[3], 9);
-    result[1][c] =
-      gfMul(a[0], 9) ^ gfMul(a[1], 14) ^ gfMul(a[2], 11) ^ gfMul(a[3], 13);
-    result[2][c] =
-      gfMul(a[0], 13) ^ gfMul(a[1], 9) ^ gfMul(a[2], 14) ^ gfMul(a[3], 11);
-    result[3][c] =
-      gfMul(a[0], 11) ^ gfMul(a[1], 13) ^ gfMul(a[2], 9) ^ gfMul(a[3], 14);
-  }
-
-  return result;
-}
-
 // Function to perform bit-level permutation within each byte
 export function permuteBits(
   data: number[],
@@ -137,49 +153,47 @@ export function generateColumnPermutation(
     .update(key)
     .update(Buffer.from([round]))
     .digest();
-  const permutation = Array.from({ length: N }, (_, i) => i);
-  for (let i = permutation.length - 1; i > 0; i--) {
-    const j = hash[i % hash.length] % (i + 1);
-    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  return columnPermutationFromDigest(hash, N);
+}
+
+// Deterministic byte stream: SHA-256(seed || counter) blocks
+export class DeterministicRandom extends CounterRandom {
+  constructor(private seed: Uint8Array) {
+    super();
+  }
+
+  nextBytes(length: number): Buffer {
+    return toBuffer(super.nextBytes(length));
+  }
+
+  protected block(counter: number): Uint8Array {
+    const counterBytes = Buffer.alloc(4);
+    counterBytes.writeUInt32BE(counter);
+    return crypto
+      .createHash('sha256')
+      .update(this.seed)
+      .update(counterBytes)
+      .digest();
   }
-  return permutation;
 }
 
-// Function to generate inverse column permutation
-export function generateInverseColumnPermutation(
-  permutation: number[]
-): number[] {
-  const inverse = Array(permutation.length);
-  permutation.forEach((p, i) => {
-    inverse[p] = i;
-  });
-  return inverse;
+// Function to create a reproducible replacement for crypto.randomBytes, for
+// tests and known-answer vectors only
+export function seededRandomBytes(
+  seed: string | Buffer
+): (size: number) => Buffer {
+  const random = new DeterministicRandom(
+    crypto.createHash('sha256').update(seed).digest()
+  );
+  return (size) => random.nextBytes(size);
 }
 
-// Function to pad plaintext (PKCS#7)
+// Function to pad plaintext (PKCS#7), see helpers/padding
 export function pad(data: Buffer, blockSize: number): Buffer {
-  const padding = blockSize - (data.length % blockSize);
-  const paddingBuffer = Buffer.alloc(padding, padding);
-  return Buffer.concat([data, paddingBuffer]);
+  return toBuffer(padBytes(data, blockSize));
 }
 
-// Function to unpad plaintext (PKCS#7)
+// Function to unpad plaintext (PKCS#7), see helpers/padding
 export function unpad(data: Buffer, blockSize: number): Buffer {
-  if (data.length === 0) {
-    throw new Error('Empty data buffer');
-  }
-
-  const lastByte = data[data.length - 1];
-
-  if (lastByte === 0 || lastByte > data.length || lastByte > blockSize) {
-    throw new Error('Invalid padding value');
-  }
-
-  for (let i = data.length - lastByte; i < data.length; i++) {
-    if (data[i] !== lastByte) {
-      throw new Error('Invalid padding pattern');
-    }
-  }
-
-  return data.slice(0, data.length - lastByte);
+  return toBuffer(unpadBytes(data, blockSize));
 }
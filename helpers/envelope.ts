@@ -0,0 +1,342 @@
+import {
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from '../constants/encryptionConstants.js';
+import {
+  bytesEqual,
+  concatBytes,
+  readUintBE,
+  uintBE,
+  utf8Decode,
+  utf8Encode,
+} from './bytes.js';
+import { MTCv3FormatError } from './errors.js';
+import { KdfParams, validateKdfParams } from './kdfParams.js';
+import { validateRounds } from './keySchedule.js';
+import { CipherMode } from './modes.js';
+import { SBoxParams, validateSBoxParams } from './sBoxCore.js';
+
+// Envelope layout (format version 1, all integers big-endian):
+//
+//   magic "MTC3" (4) | version (1) | mode (1) | cipher (1) | flags (1)
+//   rounds (1) | matrixSize (1) | kdf id (1) | kdf params length (1)
+//   kdf params (n) | [S-box params (2)] | [key ID length (1) | key ID (n)]
+//   salt length (2) | salt (n) | IV (matrixSize^2)
+//
+// The S-box params are only present when the key-dependent S-box flag is
+// set: max differential uniformity (1) | min nonlinearity (1). The key ID
+// (UTF-8, 1 to 255 bytes) is only present when the key ID flag is set.
+//
+// The payload (ciphertext blocks, followed by a tag for sealed data) comes
+// directly after the header.
+//
+// Parsed fields are views of the input, and of the same type: Buffers in
+// the Node build, plain Uint8Arrays elsewhere.
+
+export interface EnvelopeHeader<T extends Uint8Array = Uint8Array> {
+  version: number;
+  mode: CipherMode;
+  cipherVersion: number;
+  authenticated: boolean;
+  rounds: number;
+  matrixSize: number;
+  kdf: KdfParams;
+  sBox: SBoxParams;
+  // Name of the keyring key that encrypted the message
+  keyId?: string;
+  salt: T;
+  iv: T;
+}
+
+export interface ParsedEnvelope<T extends Uint8Array = Uint8Array> {
+  header: EnvelopeHeader<T>;
+  headerBytes: T;
+  payload: T;
+}
+
+const MODE_IDS: Record<CipherMode, number> = { cbc: 1, ctr: 2, cfb: 3, ofb: 4 };
+// KDF ids and their parameter encodings:
+//   1 = PBKDF2-HMAC-SHA256, 2 = PBKDF2-HMAC-SHA512: iterations (4)
+//   3 = scrypt: log2(N) (1) | r (1) | p (1)
+//   4 = raw pre-derived key: no parameters
+const KDF_PBKDF2_SHA256 = 1;
+const KDF_PBKDF2_SHA512 = 2;
+const KDF_SCRYPT = 3;
+const KDF_RAW = 4;
+const FLAG_AUTHENTICATED = 0x01;
+const FLAG_KEY_DEPENDENT_SBOX = 0x02;
+const FLAG_KEY_ID = 0x04;
+const MAX_KEY_ID_LENGTH = 0xff;
+
+// Function to check whether data starts with the envelope magic
+export function isEnvelope(data: Uint8Array): boolean {
+  return (
+    data.length >= ENVELOPE_MAGIC.length &&
+    bytesEqual(data.subarray(0, ENVELOPE_MAGIC.length), ENVELOPE_MAGIC)
+  );
+}
+
+// Function to check that a key ID fits in the envelope header
+export function validateKeyId(keyId: string): void {
+  const length = utf8Encode(keyId).length;
+  if (length === 0 || length > MAX_KEY_ID_LENGTH) {
+    throw new Error(
+      `Invalid key ID: must be 1 to ${MAX_KEY_ID_LENGTH} bytes of UTF-8`
+    );
+  }
+}
+
+// Function to serialize an envelope header
+export function serializeHeader(
+  header: Omit<EnvelopeHeader<Uint8Array>, 'version'>
+): Uint8Array {
+  validateRounds(header.rounds);
+  if (header.salt.length > 0xffff) {
+    throw new Error('Salt is too long for the envelope header');
+  }
+
+  const [kdfId, kdfParams] = serializeKdfParams(header.kdf);
+  const sBoxParams =
+    header.sBox.type === 'key-dependent'
+      ? Uint8Array.of(
+          header.sBox.maxDifferentialUniformity,
+          header.sBox.minNonlinearity
+        )
+      : new Uint8Array(0);
+  let keyId = new Uint8Array(0);
+  if (header.keyId !== undefined) {
+    validateKeyId(header.keyId);
+    const id = utf8Encode(header.keyId);
+    keyId = concatBytes(Uint8Array.of(id.length), id);
+  }
+  const flags =
+    (header.authenticated ? FLAG_AUTHENTICATED : 0) |
+    (header.sBox.type === 'key-dependent' ? FLAG_KEY_DEPENDENT_SBOX : 0) |
+    (header.keyId !== undefined ? FLAG_KEY_ID : 0);
+
+  const fixed = Uint8Array.of(
+    ENVELOPE_VERSION,
+    MODE_IDS[header.mode],
+    header.cipherVersion,
+    flags,
+    header.rounds,
+    header.matrixSize,
+    kdfId,
+    kdfParams.length
+  );
+
+  return concatBytes(
+    ENVELOPE_MAGIC,
+    fixed,
+    kdfParams,
+    sBoxParams,
+    keyId,
+    uintBE(header.salt.length, 2),
+    header.salt,
+    header.iv
+  );
+}
+
+// Function to parse an envelope into its header and payload
+export function parseEnvelope<T extends Uint8Array = Uint8Array>(
+  data: T
+): ParsedEnvelope<T> {
+  if (!isEnvelope(data)) {
+    throw new MTCv3FormatError('Invalid envelope: missing magic header');
+  }
+
+  const reader = new HeaderReader(data, ENVELOPE_MAGIC.length);
+
+  const version = reader.byte();
+  if (version !== ENVELOPE_VERSION) {
+    throw new MTCv3FormatError(`Unsupported envelope version: ${version}`);
+  }
+
+  const modeId = reader.byte();
+  const mode = (Object.keys(MODE_IDS) as CipherMode[]).find(
+    (name) => MODE_IDS[name] === modeId
+  );
+  if (mode === undefined) {
+    throw new MTCv3FormatError(`Unsupported cipher mode: ${modeId}`);
+  }
+
+  const cipherVersion = reader.byte();
+  if (!SUPPORTED_CIPHER_VERSIONS.includes(cipherVersion)) {
+    throw new MTCv3FormatError(`Unsupported cipher version: ${cipherVersion}`);
+  }
+
+  const flags = reader.byte();
+  if (
+    (flags & ~(FLAG_AUTHENTICATED | FLAG_KEY_DEPENDENT_SBOX | FLAG_KEY_ID)) !==
+    0
+  ) {
+    throw new MTCv3FormatError(`Unsupported envelope flags: ${flags}`);
+  }
+
+  const rounds = reader.byte();
+  const matrixSize = reader.byte();
+  if (rounds === 0) {
+    throw new MTCv3FormatError('Invalid envelope: rounds must be positive');
+  }
+  if (!SUPPORTED_MATRIX_SIZES.includes(matrixSize)) {
+    throw new MTCv3FormatError(`Unsupported matrix size: ${matrixSize}`);
+  }
+
+  const kdf = parseKdfParams(reader.byte(), reader.bytes(reader.byte()));
+  const sBox =
+    (flags & FLAG_KEY_DEPENDENT_SBOX) !== 0
+      ? parseSBoxParams(reader.bytes(2))
+      : ({ type: 'aes' } as SBoxParams);
+  const keyId =
+    (flags & FLAG_KEY_ID) !== 0
+      ? parseKeyId(reader.bytes(reader.byte()))
+      : undefined;
+  const salt = reader.bytes(reader.uint16());
+  const iv = reader.bytes(matrixSize * matrixSize);
+
+  return {
+    header: {
+      version,
+      mode,
+      cipherVersion,
+      authenticated: (flags & FLAG_AUTHENTICATED) !== 0,
+      rounds,
+      matrixSize,
+      kdf,
+      sBox,
+      ...(keyId !== undefined && { keyId }),
+      salt,
+      iv,
+    },
+    headerBytes: data.subarray(0, reader.offset) as T,
+    payload: data.subarray(reader.offset) as T,
+  };
+}
+
+// Function to parse an envelope whose data may still be arriving. Returns
+// undefined when more bytes are needed to complete the header.
+export function tryParseEnvelope<T extends Uint8Array = Uint8Array>(
+  data: T
+): ParsedEnvelope<T> | undefined {
+  if (data.length < ENVELOPE_MAGIC.length) {
+    return undefined;
+  }
+
+  try {
+    return parseEnvelope(data);
+  } catch (error) {
+    if (error instanceof TruncatedHeaderError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function serializeKdfParams(kdf: KdfParams): [number, Uint8Array] {
+  switch (kdf.algorithm) {
+    case 'pbkdf2':
+      return [
+        kdf.hash === 'sha512' ? KDF_PBKDF2_SHA512 : KDF_PBKDF2_SHA256,
+        uintBE(kdf.iterations, 4),
+      ];
+    case 'scrypt':
+      return [KDF_SCRYPT, Uint8Array.of(Math.log2(kdf.N), kdf.r, kdf.p)];
+    case 'raw':
+      return [KDF_RAW, new Uint8Array(0)];
+  }
+}
+
+function parseKdfParams(kdfId: number, params: Uint8Array): KdfParams {
+  const expectedLength: Record<number, number> = {
+    [KDF_PBKDF2_SHA256]: 4,
+    [KDF_PBKDF2_SHA512]: 4,
+    [KDF_SCRYPT]: 3,
+    [KDF_RAW]: 0,
+  };
+  if (expectedLength[kdfId] === undefined) {
+    throw new MTCv3FormatError(`Unsupported key derivation function: ${kdfId}`);
+  }
+  if (params.length !== expectedLength[kdfId]) {
+    throw new MTCv3FormatError('Invalid envelope: malformed KDF parameters');
+  }
+
+  let kdf: KdfParams;
+  if (kdfId === KDF_SCRYPT) {
+    kdf = {
+      algorithm: 'scrypt',
+      N: 2 ** params[0],
+      r: params[1],
+      p: params[2],
+    };
+  } else if (kdfId === KDF_RAW) {
+    kdf = { algorithm: 'raw' };
+  } else {
+    kdf = {
+      algorithm: 'pbkdf2',
+      hash: kdfId === KDF_PBKDF2_SHA512 ? 'sha512' : 'sha256',
+      iterations: readUintBE(params),
+    };
+  }
+
+  // Costs come from untrusted input, so they are bounded before any derivation
+  try {
+    validateKdfParams(kdf);
+  } catch (error) {
+    throw new MTCv3FormatError((error as Error).message);
+  }
+  return kdf;
+}
+
+function parseSBoxParams(params: Uint8Array): SBoxParams {
+  const sBox: SBoxParams = {
+    type: 'key-dependent',
+    maxDifferentialUniformity: params[0],
+    minNonlinearity: params[1],
+  };
+
+  // Strict thresholds make generation slow, so they are bounded like KDF costs
+  try {
+    validateSBoxParams(sBox);
+  } catch (error) {
+    throw new MTCv3FormatError((error as Error).message);
+  }
+  return sBox;
+}
+
+function parseKeyId(bytes: Uint8Array): string {
+  const keyId = utf8Decode(bytes);
+  if (bytes.length === 0 || !bytesEqual(utf8Encode(keyId), bytes)) {
+    throw new MTCv3FormatError('Invalid envelope: malformed key ID');
+  }
+  return keyId;
+}
+
+class TruncatedHeaderError extends MTCv3FormatError {
+  constructor() {
+    super('Truncated envelope header');
+  }
+}
+
+// Bounds-checked sequential reader over the header bytes
+class HeaderReader<T extends Uint8Array> {
+  constructor(private data: T, public offset: number) {}
+
+  byte(): number {
+    return this.bytes(1)[0];
+  }
+
+  uint16(): number {
+    return readUintBE(this.bytes(2));
+  }
+
+  bytes(length: number): T {
+    if (this.offset + length > this.data.length) {
+      throw new TruncatedHeaderError();
+    }
+    const value = this.data.subarray(this.offset, this.offset + length) as T;
+    this.offset += length;
+    return value;
+  }
+}
@@ -0,0 +1,41 @@
+// Error hierarchy shared by the MTCv3 API, streams and CLI
+
+// Base class of every error raised for invalid or undecryptable data
+export class MTCv3Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// A malformed or unsupported envelope header. Headers are not secret, so
+// these errors name the offending field.
+export class MTCv3FormatError extends MTCv3Error {}
+
+// Decryption failed. The message is always the same so that callers cannot
+// learn whether the length, the key or the padding was wrong.
+export class MTCv3DecryptionError extends MTCv3Error {
+  constructor(message: string = 'Decryption failed') {
+    super(message);
+  }
+}
+
+// Authenticated decryption failed: wrong key, wrong associated data or
+// modified ciphertext, indistinguishably
+export class MTCv3AuthenticationError extends MTCv3DecryptionError {
+  constructor() {
+    super('Authentication failed');
+  }
+}
+
+// The ciphertext names a key the keyring does not hold, or names no key and
+// the keyring has no fallback. Key IDs are not secret, so the ID is exposed.
+export class MTCv3UnknownKeyError extends MTCv3DecryptionError {
+  constructor(public readonly keyId?: string) {
+    super(
+      keyId === undefined
+        ? 'Ciphertext has no key ID'
+        : `Unknown key ID: ${keyId}`
+    );
+  }
+}
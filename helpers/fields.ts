@@ -0,0 +1,79 @@
+// Dot-path selection of fields in JSON-like documents, for field-level
+// encryption. A path is a list of keys separated by dots; `*` matches every
+// element of an array (or every value of an object). Keys containing dots
+// cannot be addressed.
+
+const WILDCARD = '*';
+
+// Function to split and validate a dot path
+export function parseFieldPath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some((segment) => segment.length === 0)) {
+    throw new Error(`Invalid field path: ${path}`);
+  }
+  return segments;
+}
+
+// Function to copy a document and replace every value matched by the paths.
+// Missing fields are skipped; transform receives the concrete path of each
+// match, with array indices in place of wildcards.
+export function transformFields<T>(
+  document: T,
+  paths: string[],
+  transform: (value: unknown, path: string[]) => unknown
+): T {
+  const copy = structuredClone(document);
+  const root = { value: copy };
+
+  for (const path of paths) {
+    visit(root, 'value', parseFieldPath(path), [], transform);
+  }
+  return root.value;
+}
+
+// Function to build the associated data binding an encrypted value to its
+// field path and an optional caller-supplied context (e.g. a record ID)
+export function fieldAssociatedData(
+  path: string[],
+  context: string | Uint8Array = ''
+): Buffer {
+  return Buffer.from(
+    JSON.stringify([
+      'mtcv3-field',
+      Buffer.from(context).toString('base64'),
+      path,
+    ]),
+    'utf-8'
+  );
+}
+
+function visit(
+  parent: Record<string, unknown>,
+  key: string,
+  remaining: string[],
+  path: string[],
+  transform: (value: unknown, path: string[]) => unknown
+): void {
+  const value = parent[key];
+  if (remaining.length === 0) {
+    if (value !== undefined) {
+      parent[key] = transform(value, path);
+    }
+    return;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return;
+  }
+
+  const container = value as Record<string, unknown>;
+  const [segment, ...rest] = remaining;
+  const keys =
+    segment === WILDCARD
+      ? Object.keys(container)
+      : Object.prototype.hasOwnProperty.call(container, segment)
+      ? [segment]
+      : [];
+  for (const childKey of keys) {
+    visit(container, childKey, rest, [...path, childKey], transform);
+  }
+}
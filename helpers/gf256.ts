@@ -0,0 +1,92 @@
+// Arithmetic in GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+// (0x11b). Addition is XOR; multiplication and division go through log and
+// antilog tables for the generator 0x03.
+
+const POLYNOMIAL = 0x1b;
+const GENERATOR = 0x03;
+
+// GF_EXP[i] = 3^i, doubled in length so that log sums need no reduction;
+// GF_LOG[x] is the discrete log of x (GF_LOG[0] is unused)
+export const GF_EXP = new Uint8Array(512);
+export const GF_LOG = new Uint8Array(256);
+
+// Function to multiply without tables (shift-and-add)
+function slowMul(a: number, b: number): number {
+  let p = 0;
+  for (let counter = 0; counter < 8; counter++) {
+    if (b & 1) {
+      p ^= a;
+    }
+    const hiBitSet = a & 0x80;
+    a = (a << 1) & 0xff;
+    if (hiBitSet) {
+      a ^= POLYNOMIAL;
+    }
+    b >>= 1;
+  }
+  return p;
+}
+
+let power = 1;
+for (let i = 0; i < 255; i++) {
+  GF_EXP[i] = power;
+  GF_LOG[power] = i;
+  power = slowMul(power, GENERATOR);
+}
+for (let i = 255; i < GF_EXP.length; i++) {
+  GF_EXP[i] = GF_EXP[i - 255];
+}
+
+// GF(2^8) multiplication function
+export function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+  return GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+// GF(2^8) multiplicative inverse, with 0 mapped to 0
+export function gfInverse(a: number): number {
+  return a === 0 ? 0 : GF_EXP[255 - GF_LOG[a]];
+}
+
+// GF(2^8) division function
+export function gfDiv(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(2^8)');
+  }
+  return a === 0 ? 0 : GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]];
+}
+
+// Function to evaluate a polynomial at x with Horner's rule. Coefficients
+// are in ascending order: coefficients[0] is the constant term.
+export function gfPolyEval(coefficients: ArrayLike<number>, x: number): number {
+  let result = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ coefficients[i];
+  }
+  return result;
+}
+
+// Function to evaluate at x the polynomial through the given points with
+// Lagrange interpolation. The x coordinates must be distinct.
+export function gfInterpolate(
+  points: ReadonlyArray<readonly [number, number]>,
+  x: number
+): number {
+  let result = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [xi, yi] = points[i];
+    let numerator = 1;
+    let denominator = 1;
+    for (let j = 0; j < points.length; j++) {
+      if (j !== i) {
+        const xj = points[j][0];
+        numerator = gfMul(numerator, x ^ xj);
+        denominator = gfMul(denominator, xi ^ xj);
+      }
+    }
+    result ^= gfMul(yi, gfDiv(numerator, denominator));
+  }
+  return result;
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { deriveKey } from './encryptionUtils';
+import {
+  KdfParams,
+  KdfSecret,
+  requirePassword,
+  requireRawKey,
+} from './kdfParams';
+
+export type { KdfOptions, KdfParams, KdfSecret, PbkdfHash } from './kdfParams';
+export {
+  createKdfSecret,
+  resolveKdfParams,
+  validateKdfParams,
+} from './kdfParams';
+
+// Function to derive key material synchronously
+export function deriveKeyMaterial(
+  params: KdfParams,
+  secret: KdfSecret,
+  salt: Buffer,
+  keyLength: number
+): Buffer {
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      return deriveKey(
+        requirePassword(secret),
+        salt,
+        params.iterations,
+        keyLength,
+        params.hash
+      );
+    case 'scrypt':
+      return crypto.scryptSync(
+        requirePassword(secret),
+        salt,
+        keyLength,
+        scryptOptions(params)
+      );
+    case 'raw':
+      return expandRawKey(secret, salt, keyLength);
+  }
+}
+
+// Function to derive key material on the libuv thread pool
+export async function deriveKeyMaterialAsync(
+  params: KdfParams,
+  secret: KdfSecret,
+  salt: Buffer,
+  keyLength: number
+): Promise<Buffer> {
+  switch (params.algorithm) {
+    case 'pbkdf2': {
+      const password = requirePassword(secret);
+      return new Promise((resolve, reject) => {
+        crypto.pbkdf2(
+          password,
+          salt,
+          params.iterations,
+          keyLength,
+          params.hash,
+          (error, key) => (error ? reject(error) : resolve(key))
+        );
+      });
+    }
+    case 'scrypt': {
+      const password = requirePassword(secret);
+      return new Promise((resolve, reject) => {
+        crypto.scrypt(
+          password,
+          salt,
+          keyLength,
+          scryptOptions(params),
+          (error, key) => (error ? reject(error) : resolve(key))
+        );
+      });
+    }
+    case 'raw':
+      return expandRawKey(secret, salt, keyLength);
+  }
+}
+
+// A raw key is stretched to the key material length with HKDF, salted so the
+// same key can still be used with several salts
+function expandRawKey(
+  secret: KdfSecret,
+  salt: Buffer,
+  keyLength: number
+): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync(
+      'sha256',
+      requireRawKey(secret),
+      salt,
+      'MTCv3 raw key',
+      keyLength
+    )
+  );
+}
+
+function scryptOptions(params: {
+  N: number;
+  r: number;
+  p: number;
+}): crypto.ScryptOptions {
+  // scrypt needs roughly 128 * N * r bytes; leave headroom above that
+  return {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.N * params.r,
+  };
+}
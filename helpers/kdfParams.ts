@@ -0,0 +1,159 @@
+import {
+  DEFAULT_KDF_ITERATIONS,
+  DEFAULT_SCRYPT_PARAMS,
+  MAX_KDF_ITERATIONS,
+  MAX_SCRYPT_PARAMS,
+} from '../constants/encryptionConstants.js';
+import { utf8Encode } from './bytes.js';
+import { MTCv3FormatError } from './errors.js';
+
+export type PbkdfHash = 'sha256' | 'sha512';
+
+// Key derivation parameters, as recorded in the ciphertext envelope
+export type KdfParams =
+  | { algorithm: 'pbkdf2'; hash: PbkdfHash; iterations: number }
+  | { algorithm: 'scrypt'; N: number; r: number; p: number }
+  | { algorithm: 'raw' };
+
+// Key derivation options accepted by MTCv3; omitted costs use the defaults
+export type KdfOptions =
+  | { algorithm: 'pbkdf2'; hash?: PbkdfHash; iterations?: number }
+  | { algorithm: 'scrypt'; N?: number; r?: number; p?: number }
+  // A pre-derived key (at least 16 bytes) used instead of a password
+  | { algorithm: 'raw'; key: Uint8Array };
+
+// The secret a KDF runs on: a password (UTF-8), or a raw pre-derived key
+export type KdfSecret =
+  | { type: 'password'; password: Uint8Array }
+  | { type: 'raw'; key: Uint8Array };
+
+// Shortest raw key accepted in place of a password
+export const MIN_RAW_KEY_LENGTH = 16;
+
+// Function to create the secret for a password, or for raw key options
+export function createKdfSecret(
+  password: string,
+  options?: KdfOptions
+): KdfSecret {
+  if (options?.algorithm !== 'raw') {
+    return { type: 'password', password: utf8Encode(password) };
+  }
+  if (options.key.length < MIN_RAW_KEY_LENGTH) {
+    throw new Error(`Raw keys must be at least ${MIN_RAW_KEY_LENGTH} bytes`);
+  }
+  return { type: 'raw', key: new Uint8Array(options.key) };
+}
+
+// A header may name the other KDF family than the instance's secret. The
+// KDF is not secret, so the error says which kind of secret is needed.
+export function requirePassword(secret: KdfSecret): Uint8Array {
+  if (secret.type !== 'password') {
+    throw new MTCv3FormatError(
+      'A password is required for this key derivation function'
+    );
+  }
+  return secret.password;
+}
+
+export function requireRawKey(secret: KdfSecret): Uint8Array {
+  if (secret.type !== 'raw') {
+    throw new MTCv3FormatError(
+      'A raw key is required for this key derivation function'
+    );
+  }
+  return secret.key;
+}
+
+// Function to fill in defaults and validate key derivation options
+export function resolveKdfParams(options?: KdfOptions): KdfParams {
+  let params: KdfParams;
+  switch (options?.algorithm ?? 'pbkdf2') {
+    case 'pbkdf2': {
+      const pbkdf2 = options as { hash?: PbkdfHash; iterations?: number };
+      params = {
+        algorithm: 'pbkdf2',
+        hash: pbkdf2?.hash ?? 'sha256',
+        iterations: pbkdf2?.iterations ?? DEFAULT_KDF_ITERATIONS,
+      };
+      break;
+    }
+    case 'scrypt': {
+      const scrypt = options as { N?: number; r?: number; p?: number };
+      params = { algorithm: 'scrypt', ...DEFAULT_SCRYPT_PARAMS };
+      params.N = scrypt.N ?? params.N;
+      params.r = scrypt.r ?? params.r;
+      params.p = scrypt.p ?? params.p;
+      break;
+    }
+    case 'raw':
+      params = { algorithm: 'raw' };
+      break;
+    default:
+      throw new Error(
+        `Unsupported key derivation function: ${options?.algorithm}`
+      );
+  }
+
+  validateKdfParams(params);
+  return params;
+}
+
+// Function to reject unknown or excessively expensive KDF parameters
+export function validateKdfParams(params: KdfParams): void {
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      if (params.hash !== 'sha256' && params.hash !== 'sha512') {
+        throw new Error(`Unsupported PBKDF2 hash: ${params.hash}`);
+      }
+      if (
+        !Number.isInteger(params.iterations) ||
+        params.iterations < 1 ||
+        params.iterations > MAX_KDF_ITERATIONS
+      ) {
+        throw new Error(
+          `Unsupported KDF iteration count: ${params.iterations}`
+        );
+      }
+      return;
+    case 'scrypt':
+      if (
+        !isPowerOfTwo(params.N) ||
+        params.N > MAX_SCRYPT_PARAMS.N ||
+        !inRange(params.r, MAX_SCRYPT_PARAMS.r) ||
+        !inRange(params.p, MAX_SCRYPT_PARAMS.p)
+      ) {
+        throw new Error(
+          `Unsupported scrypt parameters: N=${params.N}, r=${params.r}, p=${params.p}`
+        );
+      }
+      return;
+    case 'raw':
+      return;
+  }
+}
+
+// Function to compare KDF parameters field by field
+export function kdfParamsEqual(a: KdfParams, b: KdfParams): boolean {
+  switch (a.algorithm) {
+    case 'pbkdf2':
+      return (
+        b.algorithm === 'pbkdf2' &&
+        a.hash === b.hash &&
+        a.iterations === b.iterations
+      );
+    case 'scrypt':
+      return (
+        b.algorithm === 'scrypt' && a.N === b.N && a.r === b.r && a.p === b.p
+      );
+    case 'raw':
+      return b.algorithm === 'raw';
+  }
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return Number.isInteger(value) && value > 1 && (value & (value - 1)) === 0;
+}
+
+function inRange(value: number, max: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= max;
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { KEY_WRAP_PARAMS } from '../constants/encryptionConstants';
+import { BlockCipher } from './blockCipher';
+import { deriveSubkey } from './encryptionUtils';
+import { validateKeyId } from './envelope';
+import { MTCv3FormatError, MTCv3UnknownKeyError } from './errors';
+import { unwrapKey, wrapKey } from './keyWrap';
+
+// A data key wrapped under a key-encryption key (KEK)
+export interface WrappedKey {
+  kekId: string;
+  wrappedKey: Buffer;
+}
+
+// Source of key-encryption keys. A KMS client implements this by calling
+// the service; LocalKekProvider is a local stand-in for tests and small
+// deployments. Methods are async so that remote providers fit.
+export interface KekProvider {
+  // Wrap a data key under the current KEK
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+  // Unwrap a data key; fails with MTCv3UnknownKeyError for an unknown KEK
+  // and MTCv3AuthenticationError for a modified wrapped key
+  unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+export interface LocalKekProviderOptions {
+  // Source of generated KEKs (default: crypto.randomBytes)
+  randomBytes?: (size: number) => Buffer;
+}
+
+// KEK file layout. The KEKs are stored in the clear, so the file must be
+// protected like any other secret.
+interface KekFile {
+  format: typeof KEK_FILE_FORMAT;
+  version: number;
+  active?: string;
+  keks: { id: string; key: string }[];
+}
+
+const KEK_FILE_FORMAT = 'mtcv3-kek';
+const KEK_FILE_VERSION = 1;
+const MIN_KEK_LENGTH = 16;
+const GENERATED_KEK_LENGTH = 32;
+
+// In-memory KEK provider, optionally persisted to a JSON file. KEKs are
+// expanded with HKDF into a key wrapping block cipher.
+export class LocalKekProvider implements KekProvider {
+  private keks: Map<string, { key: Buffer; cipher: BlockCipher }> = new Map();
+  private activeId?: string;
+
+  constructor(private options: LocalKekProviderOptions = {}) {}
+
+  // KEK used to wrap new data keys
+  get activeKekId(): string | undefined {
+    return this.activeId;
+  }
+
+  kekIds(): string[] {
+    return [...this.keks.keys()];
+  }
+
+  // Add a KEK of at least 16 bytes. The first KEK added becomes active.
+  addKek(id: string, key: Uint8Array): void {
+    validateKeyId(id);
+    if (this.keks.has(id)) {
+      throw new Error(`KEK already exists: ${id}`);
+    }
+    if (key.length < MIN_KEK_LENGTH) {
+      throw new Error(`KEK must be at least ${MIN_KEK_LENGTH} bytes`);
+    }
+
+    const { rounds, matrixSize, cipherVersion } = KEY_WRAP_PARAMS;
+    const material = Buffer.from(key);
+    this.keks.set(id, {
+      key: material,
+      cipher: new BlockCipher(
+        deriveSubkey(material, 'MTCv3 key wrap', rounds * matrixSize),
+        rounds,
+        matrixSize,
+        cipherVersion
+      ),
+    });
+    this.activeId ??= id;
+  }
+
+  // Add a new random KEK
+  generateKek(id: string): void {
+    const randomBytes = this.options.randomBytes ?? crypto.randomBytes;
+    this.addKek(id, randomBytes(GENERATED_KEK_LENGTH));
+  }
+
+  setActive(id: string): void {
+    if (!this.keks.has(id)) {
+      throw new Error(`Unknown KEK ID: ${id}`);
+    }
+    this.activeId = id;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    if (this.activeId === undefined) {
+      throw new Error('KEK provider has no active KEK');
+    }
+    const { cipher } = this.keks.get(this.activeId)!;
+    return { kekId: this.activeId, wrappedKey: wrapKey(cipher, dataKey) };
+  }
+
+  async unwrapKey({ kekId, wrappedKey }: WrappedKey): Promise<Buffer> {
+    const kek = this.keks.get(kekId);
+    if (kek === undefined) {
+      throw new MTCv3UnknownKeyError(kekId);
+    }
+    return unwrapKey(kek.cipher, wrappedKey);
+  }
+
+  // Write the KEKs to a file readable only by its owner
+  async save(path: string): Promise<void> {
+    const file: KekFile = {
+      format: KEK_FILE_FORMAT,
+      version: KEK_FILE_VERSION,
+      active: this.activeId,
+      keks: [...this.keks].map(([id, { key }]) => ({
+        id,
+        key: key.toString('hex'),
+      })),
+    };
+    await fs.promises.writeFile(path, `${JSON.stringify(file, null, 2)}\n`, {
+      mode: 0o600,
+    });
+  }
+
+  static async load(
+    path: string,
+    options: LocalKekProviderOptions = {}
+  ): Promise<LocalKekProvider> {
+    const file = parseKekFile(await fs.promises.readFile(path, 'utf-8'));
+    const provider = new LocalKekProvider(options);
+    for (const { id, key } of file.keks) {
+      provider.addKek(id, Buffer.from(key, 'hex'));
+    }
+    if (file.active !== undefined) {
+      provider.setActive(file.active);
+    }
+    return provider;
+  }
+}
+
+// Function to check the structure of a KEK file
+function parseKekFile(json: string): KekFile {
+  let file: KekFile;
+  try {
+    file = JSON.parse(json);
+  } catch (error) {
+    throw new MTCv3FormatError('Invalid KEK file: not JSON');
+  }
+
+  if (file?.format !== KEK_FILE_FORMAT) {
+    throw new MTCv3FormatError('Invalid KEK file: unknown format');
+  }
+  if (file.version !== KEK_FILE_VERSION) {
+    throw new MTCv3FormatError(`Unsupported KEK file version: ${file.version}`);
+  }
+  if (
+    (file.active !== undefined && typeof file.active !== 'string') ||
+    !Array.isArray(file.keks) ||
+    !file.keks.every(
+      (kek) =>
+        typeof kek?.id === 'string' &&
+        typeof kek?.key === 'string' &&
+        /^([0-9a-f]{2})+$/i.test(kek.key)
+    )
+  ) {
+    throw new MTCv3FormatError('Invalid KEK file: malformed entries');
+  }
+  if (
+    file.active !== undefined &&
+    !file.keks.some(({ id }) => id === file.active)
+  ) {
+    throw new MTCv3FormatError('Invalid KEK file: unknown active KEK');
+  }
+  return file;
+}
@@ -0,0 +1,90 @@
+import { MAX_ROUNDS } from '../constants/encryptionConstants.js';
+import { concatBytes } from './bytes.js';
+import { CryptoPlatform } from './platform.js';
+
+// Hash-derived inputs of the block cipher key schedule. The Node build
+// computes them synchronously; other platforms await them.
+export interface KeySchedule {
+  // SHA-256(round key slice || round) for every round, which seeds the
+  // column permutation
+  permutationDigests: Uint8Array[];
+  // Full-block round keys (version 2 only: rounds + 1 of them)
+  roundKeys: Uint8Array[];
+}
+
+// Function to build a column permutation from its seed digest
+export function columnPermutationFromDigest(
+  hash: Uint8Array,
+  N: number
+): number[] {
+  const permutation = Array.from({ length: N }, (_, i) => i);
+  for (let i = permutation.length - 1; i > 0; i--) {
+    const j = hash[i % hash.length] % (i + 1);
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+  return permutation;
+}
+
+// Function to generate inverse column permutation
+export function generateInverseColumnPermutation(
+  permutation: number[]
+): number[] {
+  const inverse = Array(permutation.length);
+  permutation.forEach((p, i) => {
+    inverse[p] = i;
+  });
+  return inverse;
+}
+
+// Function to check a cipher version before deriving its schedule
+export function validateCipherVersion(cipherVersion: number): void {
+  if (cipherVersion !== 1 && cipherVersion !== 2) {
+    throw new Error(`Unsupported cipher version: ${cipherVersion}`);
+  }
+}
+
+// Function to check a round count before deriving key material for it
+export function validateRounds(rounds: number): void {
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+    throw new Error(`Rounds must be an integer from 1 to ${MAX_ROUNDS}`);
+  }
+}
+
+// Function to derive the key schedule with a platform's hash and HKDF
+export async function deriveKeySchedule(
+  platform: CryptoPlatform,
+  keyMaterial: Uint8Array,
+  rounds: number,
+  matrixSize: number,
+  cipherVersion: number
+): Promise<KeySchedule> {
+  validateRounds(rounds);
+  validateCipherVersion(cipherVersion);
+  const blockSize = matrixSize * matrixSize;
+
+  const permutationDigests = await Promise.all(
+    Array.from({ length: rounds }, (_, r) =>
+      platform.sha256(
+        concatBytes(
+          keyMaterial.subarray(r * matrixSize, (r + 1) * matrixSize),
+          Uint8Array.of(r)
+        )
+      )
+    )
+  );
+  const roundKeys =
+    cipherVersion === 2
+      ? await Promise.all(
+          Array.from({ length: rounds + 1 }, (_, r) =>
+            platform.hkdfSha256(
+              keyMaterial,
+              new Uint8Array(0),
+              `MTCv3 round key ${r}`,
+              blockSize
+            )
+          )
+        )
+      : [];
+
+  return { permutationDigests, roundKeys };
+}
@@ -0,0 +1,121 @@
+import { SUPPORTED_MATRIX_SIZES } from '../constants/encryptionConstants.js';
+import { gfInverse, gfMul } from './gf256.js';
+
+// MDS mixing layer of the block cipher, over GF(2^8)
+
+const gfTableCache = new Map<number, Uint8Array>();
+
+// Function to get the 256-entry GF(2^8) multiplication table for a coefficient
+export function gfMultiplicationTable(coefficient: number): Uint8Array {
+  let table = gfTableCache.get(coefficient);
+  if (table === undefined) {
+    table = new Uint8Array(256);
+    for (let x = 0; x < 256; x++) {
+      table[x] = gfMul(coefficient, x);
+    }
+    gfTableCache.set(coefficient, table);
+  }
+  return table;
+}
+
+export interface MixingMatrices {
+  forward: number[][];
+  inverse: number[][];
+}
+
+const mixingMatrixCache = new Map<number, MixingMatrices>();
+
+// Function to get the MDS mixing matrix for a matrix size and its inverse.
+// Size 4 uses the AES MixColumns coefficients; other sizes use a Cauchy
+// matrix over GF(2^8), which is MDS for any size.
+export function getMixingMatrices(N: number): MixingMatrices {
+  if (!SUPPORTED_MATRIX_SIZES.includes(N)) {
+    throw new Error(`Unsupported matrix size: ${N}`);
+  }
+
+  let matrices = mixingMatrixCache.get(N);
+  if (matrices === undefined) {
+    const forward =
+      N === 4
+        ? circulantMatrix([2, 3, 1, 1])
+        : cauchyMatrix(
+            Array.from({ length: N }, (_, i) => i),
+            Array.from({ length: N }, (_, j) => N + j)
+          );
+    matrices = { forward, inverse: invertMatrix(forward) };
+    mixingMatrixCache.set(N, matrices);
+  }
+  return matrices;
+}
+
+// Function to build a circulant matrix from its first row
+function circulantMatrix(firstRow: number[]): number[][] {
+  const N = firstRow.length;
+  return Array.from({ length: N }, (_, r) =>
+    Array.from({ length: N }, (_, c) => firstRow[(c - r + N) % N])
+  );
+}
+
+// Function to build a Cauchy matrix M[i][j] = 1 / (x_i + y_j)
+function cauchyMatrix(x: number[], y: number[]): number[][] {
+  return x.map((xi) => y.map((yj) => gfInverse(xi ^ yj)));
+}
+
+// Function to invert a matrix over GF(2^8) with Gauss-Jordan elimination
+function invertMatrix(matrix: number[][]): number[][] {
+  const N = matrix.length;
+  const work = matrix.map((row, r) => [
+    ...row,
+    ...Array.from({ length: N }, (_, c) => (r === c ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < N; col++) {
+    const pivot = work.findIndex((row, r) => r >= col && row[col] !== 0);
+    if (pivot === -1) {
+      throw new Error('Mixing matrix is not invertible');
+    }
+    [work[col], work[pivot]] = [work[pivot], work[col]];
+
+    const scale = gfInverse(work[col][col]);
+    work[col] = work[col].map((value) => gfMul(value, scale));
+
+    for (let r = 0; r < N; r++) {
+      const factor = work[r][col];
+      if (r !== col && factor !== 0) {
+        work[r] = work[r].map(
+          (value, c) => value ^ gfMul(factor, work[col][c])
+        );
+      }
+    }
+  }
+
+  return work.map((row) => row.slice(N));
+}
+
+// Function to multiply every column of the state by a mixing matrix
+function applyMixing(matrix: number[][], coefficients: number[][]): number[][] {
+  const N = matrix.length;
+  const result: number[][] = Array.from({ length: N }, () => Array(N).fill(0));
+
+  for (let c = 0; c < N; c++) {
+    for (let r = 0; r < N; r++) {
+      let value = 0;
+      for (let k = 0; k < N; k++) {
+        value ^= gfMul(coefficients[r][k], matrix[k][c]);
+      }
+      result[r][c] = value;
+    }
+  }
+
+  return result;
+}
+
+// Function to perform mixing layer (AES MixColumns for N = 4)
+export function mixMatrix(matrix: number[][]): number[][] {
+  return applyMixing(matrix, getMixingMatrices(matrix.length).forward);
+}
+
+// Function to perform inverse mixing layer (AES InvMixColumns for N = 4)
+export function inverseMixMatrix(matrix: number[][]): number[][] {
+  return applyMixing(matrix, getMixingMatrices(matrix.length).inverse);
+}
@@ -0,0 +1,165 @@
+import { BlockCipherCore } from './blockCipherCore.js';
+import { concatBytes, xorBytes } from './bytes.js';
+
+export { xorBytes } from './bytes.js';
+
+export type CipherMode = 'cbc' | 'ctr' | 'cfb' | 'ofb';
+
+export const CIPHER_MODES: CipherMode[] = ['cbc', 'ctr', 'cfb', 'ofb'];
+
+// The block cipher operations a mode needs
+type ModeCipher = Pick<
+  BlockCipherCore,
+  'blockSize' | 'encryptBlock' | 'decryptBlock'
+>;
+
+// A block cipher mode instance carries the chaining state for one message.
+// Blocks must be fed in order; stream modes also accept a final partial block.
+export interface BlockMode {
+  encrypt(block: Uint8Array): Uint8Array;
+  decrypt(block: Uint8Array): Uint8Array;
+}
+
+// Function to check whether a mode turns the block cipher into a stream cipher (no padding)
+export function isStreamMode(mode: CipherMode): boolean {
+  return mode !== 'cbc';
+}
+
+// Function to create a mode instance, optionally starting at a later block (CTR only)
+export function createBlockMode(
+  mode: CipherMode,
+  cipher: ModeCipher,
+  iv: Uint8Array,
+  startBlock: number = 0
+): BlockMode {
+  if (startBlock !== 0 && mode !== 'ctr') {
+    throw new Error(`Random access is not supported in ${mode} mode`);
+  }
+
+  switch (mode) {
+    case 'cbc':
+      return new CbcMode(cipher, iv);
+    case 'ctr':
+      return new CtrMode(cipher, iv, startBlock);
+    case 'cfb':
+      return new CfbMode(cipher, iv);
+    case 'ofb':
+      return new OfbMode(cipher, iv);
+    default:
+      throw new Error(`Unsupported cipher mode: ${mode}`);
+  }
+}
+
+// Function to run data through a transform one block at a time
+export function processBlocks(
+  data: Uint8Array,
+  blockSize: number,
+  transform: (block: Uint8Array) => Uint8Array
+): Uint8Array {
+  const output: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += blockSize) {
+    output.push(transform(data.subarray(offset, offset + blockSize)));
+  }
+  return concatBytes(...output);
+}
+
+// Function to add a block index to a big-endian counter block
+export function incrementCounter(
+  counter: Uint8Array,
+  amount: number
+): Uint8Array {
+  const result = new Uint8Array(counter);
+  let carry = amount;
+  for (let i = result.length - 1; i >= 0 && carry > 0; i--) {
+    const sum = result[i] + (carry % 256);
+    result[i] = sum & 0xff;
+    carry = Math.floor(carry / 256) + (sum >> 8);
+  }
+  return result;
+}
+
+// Cipher Block Chaining: C_i = E(P_i ^ C_{i-1})
+class CbcMode implements BlockMode {
+  private previous: Uint8Array;
+
+  constructor(private cipher: ModeCipher, iv: Uint8Array) {
+    this.previous = iv;
+  }
+
+  encrypt(block: Uint8Array): Uint8Array {
+    this.assertFullBlock(block);
+    this.previous = this.cipher.encryptBlock(xorBytes(block, this.previous));
+    return this.previous;
+  }
+
+  decrypt(block: Uint8Array): Uint8Array {
+    this.assertFullBlock(block);
+    const plaintext = xorBytes(this.cipher.decryptBlock(block), this.previous);
+    this.previous = block;
+    return plaintext;
+  }
+
+  private assertFullBlock(block: Uint8Array): void {
+    if (block.length !== this.cipher.blockSize) {
+      throw new Error('Invalid ciphertext length');
+    }
+  }
+}
+
+// Counter mode: C_i = P_i ^ E(IV + i)
+class CtrMode implements BlockMode {
+  private counter: Uint8Array;
+
+  constructor(private cipher: ModeCipher, iv: Uint8Array, startBlock: number) {
+    this.counter = incrementCounter(iv, startBlock);
+  }
+
+  encrypt(block: Uint8Array): Uint8Array {
+    const keystream = this.cipher.encryptBlock(this.counter);
+    this.counter = incrementCounter(this.counter, 1);
+    return xorBytes(block, keystream);
+  }
+
+  decrypt(block: Uint8Array): Uint8Array {
+    return this.encrypt(block);
+  }
+}
+
+// Cipher Feedback (full-block): C_i = P_i ^ E(C_{i-1})
+class CfbMode implements BlockMode {
+  private previous: Uint8Array;
+
+  constructor(private cipher: ModeCipher, iv: Uint8Array) {
+    this.previous = iv;
+  }
+
+  encrypt(block: Uint8Array): Uint8Array {
+    const ciphertext = xorBytes(block, this.cipher.encryptBlock(this.previous));
+    this.previous = ciphertext;
+    return ciphertext;
+  }
+
+  decrypt(block: Uint8Array): Uint8Array {
+    const plaintext = xorBytes(block, this.cipher.encryptBlock(this.previous));
+    this.previous = block;
+    return plaintext;
+  }
+}
+
+// Output Feedback: O_i = E(O_{i-1}), C_i = P_i ^ O_i
+class OfbMode implements BlockMode {
+  private previous: Uint8Array;
+
+  constructor(private cipher: ModeCipher, iv: Uint8Array) {
+    this.previous = iv;
+  }
+
+  encrypt(block: Uint8Array): Uint8Array {
+    this.previous = this.cipher.encryptBlock(this.previous);
+    return xorBytes(block, this.previous);
+  }
+
+  decrypt(block: Uint8Array): Uint8Array {
+    return this.encrypt(block);
+  }
+}
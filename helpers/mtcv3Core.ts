@@ -0,0 +1,582 @@
+import {
+  DEFAULT_CIPHER_VERSION,
+  ENVELOPE_MAGIC,
+  MAX_CACHED_KEY_SETS,
+  MAX_TRACKED_IVS,
+  SUPPORTED_CIPHER_VERSIONS,
+  SUPPORTED_MATRIX_SIZES,
+} from '../constants/encryptionConstants.js';
+import { BlockCipherCore } from './blockCipherCore.js';
+import {
+  bytesEqual,
+  concatBytes,
+  constantTimeEqual,
+  encodeBytes,
+  uintBE,
+} from './bytes.js';
+import {
+  isEnvelope,
+  parseEnvelope,
+  serializeHeader,
+  tryParseEnvelope,
+  validateKeyId,
+} from './envelope.js';
+import {
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3FormatError,
+} from './errors.js';
+import {
+  kdfParamsEqual,
+  KdfParams,
+  KdfSecret,
+  requirePassword,
+  requireRawKey,
+} from './kdfParams.js';
+import { deriveKeySchedule, validateRounds } from './keySchedule.js';
+import {
+  CIPHER_MODES,
+  CipherMode,
+  createBlockMode,
+  isStreamMode,
+  processBlocks,
+} from './modes.js';
+import { pad, unpad } from './padding.js';
+import { CryptoPlatform } from './platform.js';
+import { createSBoxAsync, SBoxParams } from './sBoxCore.js';
+
+// Platform-independent part of MTCv3 and MTCv3Web, on Uint8Array only:
+// option validation, envelope headers, IVs, the key cache, the block cipher
+// modes and the tag check. Each class wraps it with its platform's key
+// derivation and HMAC, so both read and write the same bytes.
+
+export const TAG_LENGTH = 32;
+
+// HKDF info strings of the subkeys derived from the key material
+export const SUBKEY_INFO = {
+  sBox: 'MTCv3 S-box',
+  aeadEncryption: 'MTCv3 AEAD encryption',
+  aeadMac: 'MTCv3 AEAD MAC',
+};
+
+// Block ciphers and MAC key for one set of parameters
+export interface KeySet<C extends BlockCipherCore = BlockCipherCore> {
+  cipher: C;
+  // Separate subkeys for authenticated encryption (encrypt-then-MAC)
+  aeadCipher: C;
+  macKey: Uint8Array;
+}
+
+// Everything that determines the derived keys
+export interface CipherParams {
+  rounds: number;
+  matrixSize: number;
+  cipherVersion: number;
+  kdf: KdfParams;
+  sBox: SBoxParams;
+  salt: Uint8Array;
+}
+
+export interface MTCv3CoreOptions {
+  rounds: number;
+  matrixSize: number;
+  mode?: CipherMode;
+  cipherVersion?: number;
+  kdf: KdfParams;
+  sBox: SBoxParams;
+  salt: Uint8Array;
+  keyId?: string;
+  randomBytes: (size: number) => Uint8Array;
+  // Derive keys with a KDF recorded in a header that differs from kdf
+  acceptHeaderKdf?: boolean;
+}
+
+// A ciphertext split into the parameters of its keys and its payload
+export interface UnpackedCiphertext {
+  params: CipherParams;
+  mode: CipherMode;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  authenticated: boolean;
+}
+
+// Sealed data whose layout is valid, before its tag is checked
+export interface UnpackedSealed extends UnpackedCiphertext {
+  // Header || ciphertext, which the tag covers
+  body: Uint8Array;
+  tag: Uint8Array;
+}
+
+// The first bytes of a ciphertext stream, once its header has arrived
+export interface StreamHeader {
+  params: CipherParams;
+  mode: CipherMode;
+  iv: Uint8Array;
+  headerLength: number;
+}
+
+// Keys are of type K: a KeySet where they are derived synchronously, or a
+// promise of one
+export class MTCv3Core<K> {
+  readonly params: CipherParams;
+  readonly mode: CipherMode;
+  private keyId?: string;
+  private randomBytes: (size: number) => Uint8Array;
+  private acceptHeaderKdf: boolean;
+  // Least recently used first; this instance's own keys are never evicted
+  private derivedKeys: Map<string, K> = new Map();
+  private ownKeySetId: string;
+  // Explicit IVs in the order they were used, bounded by MAX_TRACKED_IVS
+  private usedIVs: Set<string> = new Set();
+
+  constructor(
+    options: MTCv3CoreOptions,
+    private deriveKeys: (params: CipherParams) => K
+  ) {
+    const { rounds, matrixSize } = options;
+    validateRounds(rounds);
+    if (!SUPPORTED_MATRIX_SIZES.includes(matrixSize)) {
+      throw new Error(
+        `Unsupported matrix size: ${matrixSize} (supported: ${SUPPORTED_MATRIX_SIZES.join(
+          ', '
+        )})`
+      );
+    }
+    this.mode = options.mode ?? 'cbc';
+    if (!CIPHER_MODES.includes(this.mode)) {
+      throw new Error(`Unsupported cipher mode: ${this.mode}`);
+    }
+    const cipherVersion = options.cipherVersion ?? DEFAULT_CIPHER_VERSION;
+    if (!SUPPORTED_CIPHER_VERSIONS.includes(cipherVersion)) {
+      throw new Error(`Unsupported cipher version: ${cipherVersion}`);
+    }
+    if (options.keyId !== undefined) {
+      validateKeyId(options.keyId);
+      this.keyId = options.keyId;
+    }
+
+    this.params = {
+      rounds,
+      matrixSize,
+      cipherVersion,
+      kdf: options.kdf,
+      sBox: options.sBox,
+      salt: options.salt,
+    };
+    this.randomBytes = options.randomBytes;
+    this.acceptHeaderKdf = options.acceptHeaderKdf ?? false;
+    this.ownKeySetId = keySetId(this.params);
+  }
+
+  get blockSize(): number {
+    return this.params.matrixSize * this.params.matrixSize;
+  }
+
+  // Keys for a set of parameters, e.g. those recorded in an envelope header.
+  // Headers choose their parameters, so only the most recently used key sets
+  // are kept, and a KDF other than this instance's needs acceptHeaderKdf.
+  keysFor(params: CipherParams): K {
+    if (!this.acceptHeaderKdf && !kdfParamsEqual(params.kdf, this.params.kdf)) {
+      throw new MTCv3FormatError(
+        `Key derivation differs from this instance's: ${params.kdf.algorithm}`
+      );
+    }
+
+    const cacheKey = keySetId(params);
+    let keys = this.derivedKeys.get(cacheKey);
+    if (keys === undefined) {
+      keys = this.deriveKeys(params);
+    }
+    this.setKeys(params, keys);
+    return keys;
+  }
+
+  // Cache keys derived elsewhere, e.g. ahead of construction
+  setKeys(params: CipherParams, keys: K): void {
+    const cacheKey = keySetId(params);
+    this.derivedKeys.delete(cacheKey);
+    this.derivedKeys.set(cacheKey, keys);
+
+    for (const id of this.derivedKeys.keys()) {
+      if (this.derivedKeys.size <= MAX_CACHED_KEY_SETS) {
+        break;
+      }
+      if (id !== this.ownKeySetId) {
+        this.derivedKeys.delete(id);
+      }
+    }
+  }
+
+  // Drop cached keys, e.g. a failed derivation so that it can be retried
+  forgetKeys(params: CipherParams): void {
+    this.derivedKeys.delete(keySetId(params));
+  }
+
+  // Envelope header || ciphertext under a fresh or explicit IV
+  encryptEnvelope(
+    cipher: BlockCipherCore,
+    data: Uint8Array,
+    authenticated: boolean,
+    iv?: Uint8Array
+  ): Uint8Array {
+    const resolvedIV = this.resolveIV(iv);
+    return concatBytes(
+      this.createHeader(resolvedIV, authenticated),
+      encryptPayload(cipher, this.mode, data, resolvedIV)
+    );
+  }
+
+  // Split a ciphertext into its parameters and payload. Data without the
+  // envelope magic is the legacy layout: IV || CBC blocks, using this
+  // instance's parameters.
+  unpack(input: Uint8Array): UnpackedCiphertext {
+    if (isEnvelope(input)) {
+      const { header, payload } = parseEnvelope(input);
+      return {
+        params: header,
+        mode: header.mode,
+        iv: header.iv,
+        ciphertext: payload,
+        authenticated: header.authenticated,
+      };
+    }
+
+    if (input.length < this.blockSize) {
+      throw new MTCv3DecryptionError();
+    }
+
+    return {
+      params: this.legacyParams(),
+      mode: 'cbc',
+      iv: input.subarray(0, this.blockSize),
+      ciphertext: input.subarray(this.blockSize),
+      authenticated: false,
+    };
+  }
+
+  // Decrypt an unauthenticated ciphertext. Length and padding failures
+  // raise the same error.
+  decrypt(keys: KeySet, unpacked: UnpackedCiphertext): Uint8Array {
+    const { mode, iv, ciphertext, authenticated } = unpacked;
+    if (authenticated) {
+      throw new Error('Ciphertext is authenticated: use open() instead');
+    }
+
+    const blockSize = keys.cipher.blockSize;
+    if (!isValidPayloadLength(mode, ciphertext.length, blockSize)) {
+      throw new MTCv3DecryptionError();
+    }
+
+    const plaintext = decryptPayload(keys.cipher, mode, ciphertext, iv);
+    return isStreamMode(mode) ? plaintext : unpad(plaintext, blockSize);
+  }
+
+  // Random-access decryption of plaintext bytes [start, end) from a CTR
+  // ciphertext
+  decryptRange(
+    keys: KeySet,
+    unpacked: UnpackedCiphertext,
+    start: number,
+    end: number
+  ): Uint8Array {
+    const { mode, iv, ciphertext, authenticated } = unpacked;
+    if (authenticated || mode !== 'ctr') {
+      throw new Error(
+        'Random access requires an unauthenticated CTR ciphertext'
+      );
+    }
+    if (start < 0 || end < start || end > ciphertext.length) {
+      throw new Error('Invalid plaintext range');
+    }
+
+    // Only the blocks overlapping the range are decrypted
+    const blockSize = keys.cipher.blockSize;
+    const firstBlock = Math.floor(start / blockSize);
+    const blockMode = createBlockMode(mode, keys.cipher, iv, firstBlock);
+    const plaintext = processBlocks(
+      ciphertext.slice(firstBlock * blockSize, end),
+      blockSize,
+      (block) => blockMode.decrypt(block)
+    );
+
+    return plaintext.slice(start - firstBlock * blockSize);
+  }
+
+  // Split sealed data and check its layout before any key is derived. Every
+  // failure surfaces as the same generic error.
+  unpackSealed(sealed: Uint8Array): UnpackedSealed {
+    const bodyLength = sealed.length - TAG_LENGTH;
+    let unpacked: UnpackedCiphertext;
+    try {
+      unpacked = this.unpack(sealed.subarray(0, Math.max(bodyLength, 0)));
+    } catch (error) {
+      throw new MTCv3AuthenticationError();
+    }
+
+    const { mode, iv, ciphertext, authenticated } = unpacked;
+    const blockSize = unpacked.params.matrixSize * unpacked.params.matrixSize;
+    if (
+      bodyLength < 0 ||
+      !authenticated ||
+      iv.length !== blockSize ||
+      !isValidPayloadLength(mode, ciphertext.length, blockSize)
+    ) {
+      throw new MTCv3AuthenticationError();
+    }
+
+    return {
+      ...unpacked,
+      body: sealed.subarray(0, bodyLength),
+      tag: sealed.subarray(bodyLength),
+    };
+  }
+
+  // Check the tag, computed by the caller over tagInput(AD, body), then
+  // decrypt: nothing is unpadded before the tag matches
+  open(keys: KeySet, sealed: UnpackedSealed, expectedTag: Uint8Array) {
+    if (!constantTimeEqual(sealed.tag, expectedTag)) {
+      throw new MTCv3AuthenticationError();
+    }
+
+    const { mode, iv, ciphertext } = sealed;
+    const plaintext = decryptPayload(keys.aeadCipher, mode, ciphertext, iv);
+    try {
+      return isStreamMode(mode)
+        ? plaintext
+        : unpad(plaintext, keys.aeadCipher.blockSize);
+    } catch (error) {
+      throw new MTCv3AuthenticationError();
+    }
+  }
+
+  // Resolve the header of a ciphertext stream, or undefined while more
+  // bytes are needed
+  parseStreamHeader(
+    data: Uint8Array,
+    authenticated: boolean
+  ): StreamHeader | undefined {
+    const parsed = isEnvelope(data) ? tryParseEnvelope(data) : undefined;
+    const isLegacy = parsed === undefined && !isEnvelope(data);
+
+    if (parsed === undefined && !(isLegacy && data.length >= this.blockSize)) {
+      return undefined;
+    }
+
+    const recordedAuthentication = parsed?.header.authenticated ?? false;
+    if (recordedAuthentication !== authenticated) {
+      throw authenticated
+        ? new MTCv3AuthenticationError()
+        : new Error('Ciphertext is authenticated: use open() instead');
+    }
+
+    if (parsed === undefined) {
+      return {
+        params: this.legacyParams(),
+        mode: 'cbc',
+        iv: data.slice(0, this.blockSize),
+        headerLength: this.blockSize,
+      };
+    }
+    return {
+      params: parsed.header,
+      mode: parsed.header.mode,
+      iv: parsed.header.iv,
+      headerLength: parsed.headerBytes.length,
+    };
+  }
+
+  // Error for unauthenticated data that ends before its header does
+  incompleteHeaderError(data: Uint8Array): Error {
+    const magic = data.subarray(0, ENVELOPE_MAGIC.length);
+    return magic.length > 0 &&
+      bytesEqual(magic, ENVELOPE_MAGIC.subarray(0, magic.length))
+      ? new MTCv3FormatError('Truncated envelope header')
+      : new MTCv3DecryptionError();
+  }
+
+  // Build the envelope header describing how a message was encrypted
+  createHeader(iv: Uint8Array, authenticated: boolean): Uint8Array {
+    return serializeHeader({
+      ...this.params,
+      mode: this.mode,
+      keyId: this.keyId,
+      authenticated,
+      iv,
+    });
+  }
+
+  // Generate a random IV, or validate an explicitly provided one
+  resolveIV(iv?: Uint8Array): Uint8Array {
+    const blockSize = this.blockSize;
+
+    if (iv === undefined) {
+      const generated = this.randomBytes(blockSize);
+      if (generated.length !== blockSize) {
+        throw new Error(`Invalid IV length: expected ${blockSize} bytes`);
+      }
+      return new Uint8Array(generated);
+    }
+
+    if (iv.length !== blockSize) {
+      throw new Error(`Invalid IV length: expected ${blockSize} bytes`);
+    }
+
+    // Reusing an IV under the same key leaks shared plaintext prefixes. Only
+    // the most recent explicit IVs are remembered, so that a long-lived
+    // instance does not grow without bound.
+    const ivHex = encodeBytes(iv, 'hex');
+    if (this.usedIVs.has(ivHex)) {
+      throw new Error('IV reuse detected');
+    }
+    this.usedIVs.add(ivHex);
+    if (this.usedIVs.size > MAX_TRACKED_IVS) {
+      this.usedIVs.delete(this.usedIVs.values().next().value as string);
+    }
+
+    return new Uint8Array(iv);
+  }
+
+  // Legacy ciphertexts use this instance's parameters with the version 1
+  // cipher and the AES S-box
+  private legacyParams(): CipherParams {
+    return { ...this.params, cipherVersion: 1, sBox: { type: 'aes' } };
+  }
+}
+
+// Function to build the input of the HMAC-SHA256 tag:
+// AD || data || len(AD) || len(data)
+export function tagInput(
+  associatedData: Uint8Array,
+  data: Uint8Array
+): Uint8Array {
+  return concatBytes(
+    associatedData,
+    data,
+    uintBE(associatedData.length, 8),
+    uintBE(data.length, 8)
+  );
+}
+
+// Function to derive the block ciphers and MAC key with a platform's KDF,
+// hash and HKDF, as MTCv3 does with Node's
+export async function deriveKeySetAsync(
+  platform: CryptoPlatform,
+  secret: KdfSecret,
+  params: CipherParams
+): Promise<KeySet> {
+  const { rounds, matrixSize, cipherVersion } = params;
+  const keyLength = rounds * matrixSize;
+  const keyMaterial = await deriveKeyMaterialAsync(
+    platform,
+    secret,
+    params,
+    keyLength
+  );
+  const subkey = (info: string, length: number) =>
+    platform.hkdfSha256(keyMaterial, new Uint8Array(0), info, length);
+
+  const sBox = await createSBoxAsync(
+    platform,
+    params.sBox,
+    await subkey(SUBKEY_INFO.sBox, 32)
+  );
+  const createCipher = async (key: Uint8Array) =>
+    new BlockCipherCore(
+      key,
+      await deriveKeySchedule(platform, key, rounds, matrixSize, cipherVersion),
+      rounds,
+      matrixSize,
+      sBox
+    );
+
+  return {
+    cipher: await createCipher(keyMaterial),
+    aeadCipher: await createCipher(
+      await subkey(SUBKEY_INFO.aeadEncryption, keyLength)
+    ),
+    macKey: await subkey(SUBKEY_INFO.aeadMac, TAG_LENGTH),
+  };
+}
+
+// Function to run the KDF recorded for a ciphertext on a secret
+function deriveKeyMaterialAsync(
+  platform: CryptoPlatform,
+  secret: KdfSecret,
+  { kdf, salt }: CipherParams,
+  keyLength: number
+): Promise<Uint8Array> {
+  switch (kdf.algorithm) {
+    case 'pbkdf2':
+      return platform.pbkdf2(
+        requirePassword(secret),
+        salt,
+        kdf.iterations,
+        kdf.hash,
+        keyLength
+      );
+    case 'scrypt':
+      if (platform.scrypt === undefined) {
+        throw new Error('scrypt is not supported by this platform');
+      }
+      return platform.scrypt(requirePassword(secret), salt, kdf, keyLength);
+    case 'raw':
+      return platform.hkdfSha256(
+        requireRawKey(secret),
+        salt,
+        'MTCv3 raw key',
+        keyLength
+      );
+  }
+}
+
+// Function to identify a set of parameters in the key cache
+function keySetId(params: CipherParams): string {
+  return [
+    params.rounds,
+    params.matrixSize,
+    params.cipherVersion,
+    JSON.stringify(params.kdf),
+    JSON.stringify(params.sBox),
+    encodeBytes(params.salt, 'hex'),
+  ].join(':');
+}
+
+// Function to encrypt data with a block cipher mode, padding it unless the
+// mode is a stream mode
+function encryptPayload(
+  cipher: BlockCipherCore,
+  mode: CipherMode,
+  data: Uint8Array,
+  iv: Uint8Array
+): Uint8Array {
+  const input = isStreamMode(mode) ? data : pad(data, cipher.blockSize);
+  const blockMode = createBlockMode(mode, cipher, iv);
+  return processBlocks(input, cipher.blockSize, (block) =>
+    blockMode.encrypt(block)
+  );
+}
+
+// Function to decrypt data with a block cipher mode, leaving any padding in
+// place
+function decryptPayload(
+  cipher: BlockCipherCore,
+  mode: CipherMode,
+  ciphertext: Uint8Array,
+  iv: Uint8Array
+): Uint8Array {
+  const blockMode = createBlockMode(mode, cipher, iv);
+  return processBlocks(ciphertext, cipher.blockSize, (block) =>
+    blockMode.decrypt(block)
+  );
+}
+
+// Function to check whether a payload length is valid for a mode
+function isValidPayloadLength(
+  mode: CipherMode,
+  length: number,
+  blockSize: number
+): boolean {
+  return isStreamMode(mode)
+    ? true
+    : length >= blockSize && length % blockSize === 0;
+}
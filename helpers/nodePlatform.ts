@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { CryptoPlatform } from './platform';
+
+// CryptoPlatform on Node's crypto module. Unlike WebCrypto it supports
+// scrypt, and runs PBKDF2 and scrypt on the libuv thread pool.
+export const nodeCryptoPlatform: CryptoPlatform = {
+  randomBytes: (size) => new Uint8Array(crypto.randomBytes(size)),
+
+  sha256: async (data) =>
+    new Uint8Array(crypto.createHash('sha256').update(data).digest()),
+
+  hmacSha256: async (key, data) =>
+    new Uint8Array(crypto.createHmac('sha256', key).update(data).digest()),
+
+  hkdfSha256: async (key, salt, info, length) =>
+    new Uint8Array(crypto.hkdfSync('sha256', key, salt, info, length)),
+
+  pbkdf2: (password, salt, iterations, hash, length) =>
+    new Promise((resolve, reject) => {
+      crypto.pbkdf2(password, salt, iterations, length, hash, (error, key) =>
+        error ? reject(error) : resolve(new Uint8Array(key))
+      );
+    }),
+
+  scrypt: (password, salt, { N, r, p }, length) =>
+    new Promise((resolve, reject) => {
+      // scrypt needs roughly 128 * N * r bytes; leave headroom above that
+      crypto.scrypt(
+        password,
+        salt,
+        length,
+        { N, r, p, maxmem: 256 * N * r },
+        (error, key) => (error ? reject(error) : resolve(new Uint8Array(key)))
+      );
+    }),
+};
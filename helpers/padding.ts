@@ -0,0 +1,50 @@
+import { concatBytes } from './bytes.js';
+import { MTCv3DecryptionError } from './errors.js';
+
+// Function to pad plaintext (PKCS#7). A full 256-byte pad, which only
+// occurs with 256-byte blocks, is written as 0x00 bytes.
+export function pad(data: Uint8Array, blockSize: number): Uint8Array {
+  const padding = blockSize - (data.length % blockSize);
+  return concatBytes(data, new Uint8Array(padding).fill(padding & 0xff));
+}
+
+// Function to validate PKCS#7 padding, returning its length or 0 when it is
+// invalid. The same bytes are read and the same operations run whatever the
+// padding contains: only the data length and block size affect the timing.
+export function paddingLength(data: Uint8Array, blockSize: number): number {
+  const length = data.length;
+  if (length === 0) {
+    return 0;
+  }
+
+  const lastByte = data[length - 1];
+  // With 256-byte blocks a zero byte encodes a full block of padding
+  const isZero = (lastByte - 1) >>> 31;
+  const padding = lastByte | ((isZero & (blockSize === 256 ? 1 : 0)) << 8);
+
+  // Each term is 1 when its condition holds: padding is 0, or exceeds the
+  // block size or the data length
+  let invalid =
+    ((padding - 1) >>> 31) |
+    ((blockSize - padding) >>> 31) |
+    ((length - padding) >>> 31);
+
+  const scan = Math.min(blockSize, length);
+  for (let i = 0; i < scan; i++) {
+    const inPadding = (i - padding) >>> 31;
+    const differs = ((data[length - 1 - i] ^ lastByte) + 0xff) >>> 8;
+    invalid |= differs & inPadding;
+  }
+
+  return padding & (invalid - 1);
+}
+
+// Function to unpad plaintext (PKCS#7). Every kind of invalid padding raises
+// the same error. The result is a view of data.
+export function unpad<T extends Uint8Array>(data: T, blockSize: number): T {
+  const padding = paddingLength(data, blockSize);
+  if (padding === 0) {
+    throw new MTCv3DecryptionError();
+  }
+  return data.subarray(0, data.length - padding) as T;
+}
@@ -0,0 +1,31 @@
+import { PbkdfHash } from './kdfParams.js';
+
+// Randomness, hashing and key derivation the platform-independent build
+// relies on. Everything but randomness is asynchronous, as in WebCrypto.
+// Implementations: nodeCryptoPlatform (helpers/nodePlatform) and
+// createWebCryptoPlatform (helpers/webCryptoPlatform).
+export interface CryptoPlatform {
+  randomBytes(size: number): Uint8Array;
+  sha256(data: Uint8Array): Promise<Uint8Array>;
+  hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array>;
+  hkdfSha256(
+    key: Uint8Array,
+    salt: Uint8Array,
+    info: string,
+    length: number
+  ): Promise<Uint8Array>;
+  pbkdf2(
+    password: Uint8Array,
+    salt: Uint8Array,
+    iterations: number,
+    hash: PbkdfHash,
+    length: number
+  ): Promise<Uint8Array>;
+  // Optional: WebCrypto has no scrypt
+  scrypt?(
+    password: Uint8Array,
+    salt: Uint8Array,
+    params: { N: number; r: number; p: number },
+    length: number
+  ): Promise<Uint8Array>;
+}
@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { DecodeOptions, EncryptOptions } from '../MTCV3';
+import { BlockCipher } from './blockCipher';
+import { pad, toBuffer, unpad } from './encryptionUtils';
+import { MTCv3AuthenticationError, MTCv3DecryptionError } from './errors';
+import { CipherMode, isStreamMode } from './modes';
+import { PoolJob, PoolJobResult } from './poolWorker';
+import {
+  ResolvedStreamHeader,
+  STREAM_TAG_LENGTH,
+  StreamParams,
+} from './streams';
+
+export interface PoolOptions {
+  // Number of worker threads (default: os.availableParallelism())
+  workers?: number;
+  // Payload bytes per job, rounded down to whole blocks (default: 1 MiB)
+  segmentSize?: number;
+}
+
+// Supplied by MTCv3.createPool: the parameters and header for new
+// ciphertexts, and the header resolution shared with the decrypt stream
+export interface PoolCipherSource {
+  encryption(
+    authenticated: boolean,
+    associatedData: Buffer,
+    iv?: Buffer
+  ): { params: StreamParams; header: Buffer };
+  resolveHeader(
+    data: Buffer,
+    authenticated: boolean,
+    associatedData: Buffer
+  ): ResolvedStreamHeader | undefined;
+  incompleteHeaderError(data: Buffer): Error;
+}
+
+interface PendingJob {
+  job: PoolJob;
+  resolve: (data: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current?: PendingJob;
+}
+
+const DEFAULT_SEGMENT_SIZE = 1024 * 1024;
+
+// Under ts-node or ts-jest this file is TypeScript, and so is the worker
+const WORKER_FILE = path.join(
+  __dirname,
+  `poolWorker${path.extname(__filename)}`
+);
+const WORKER_EXEC_ARGV =
+  path.extname(__filename) === '.ts'
+    ? ['--require', 'ts-node/register/transpile-only']
+    : [];
+
+// Runs the block cipher of an MTCv3 instance on worker threads. Payloads are
+// split into segments wherever the mode allows it (CTR, and CBC and CFB
+// decryption); other modes run as a single job, which still keeps the event
+// loop free. The output is byte-for-byte that of the synchronous methods.
+// Workers start on first use and do not keep the process alive while idle.
+export class MTCv3Pool {
+  private size: number;
+  private segmentSize: number;
+  private workers: PoolWorker[] = [];
+  private queue: PendingJob[] = [];
+  private cipherIds = new WeakMap<BlockCipher, number>();
+  private nextCipherId = 0;
+  private nextJobId = 0;
+  private closed = false;
+
+  constructor(private source: PoolCipherSource, options: PoolOptions = {}) {
+    this.size = options.workers ?? os.availableParallelism();
+    if (!Number.isInteger(this.size) || this.size < 1) {
+      throw new Error('Worker count must be a positive integer');
+    }
+    this.segmentSize = options.segmentSize ?? DEFAULT_SEGMENT_SIZE;
+    if (!Number.isInteger(this.segmentSize) || this.segmentSize < 1) {
+      throw new Error('Segment size must be a positive integer');
+    }
+  }
+
+  async encrypt(
+    plaintext: string,
+    options: EncryptOptions = {}
+  ): Promise<string> {
+    const ciphertext = await this.encryptBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      options
+    );
+    return Buffer.from(ciphertext).toString(options.encoding ?? 'hex');
+  }
+
+  async decrypt(
+    ciphertext: string,
+    options: DecodeOptions = {}
+  ): Promise<string> {
+    const plaintext = await this.decryptBytes(
+      Buffer.from(ciphertext, options.encoding ?? 'hex')
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
+
+  // Same output as MTCv3.encryptBytes
+  async encryptBytes(
+    data: Uint8Array,
+    options: EncryptOptions = {}
+  ): Promise<Uint8Array> {
+    return this.encryptPayload(toBuffer(data), false, Buffer.alloc(0), options);
+  }
+
+  // Same result as MTCv3.decryptBytes
+  async decryptBytes(data: Uint8Array): Promise<Uint8Array> {
+    return this.decryptPayload(toBuffer(data), false, Buffer.alloc(0));
+  }
+
+  async seal(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): Promise<string> {
+    const sealed = await this.sealBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      associatedData,
+      options
+    );
+    return Buffer.from(sealed).toString(options.encoding ?? 'hex');
+  }
+
+  async open(
+    sealed: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): Promise<string> {
+    const plaintext = await this.openBytes(
+      Buffer.from(sealed, options.encoding ?? 'hex'),
+      associatedData
+    );
+    return Buffer.from(plaintext).toString('utf-8');
+  }
+
+  // Same output as MTCv3.sealBytes
+  async sealBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): Promise<Uint8Array> {
+    return this.encryptPayload(
+      toBuffer(data),
+      true,
+      Buffer.from(associatedData),
+      options
+    );
+  }
+
+  // Same result as MTCv3.openBytes: the tag is checked before any block is
+  // decrypted
+  async openBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Promise<Uint8Array> {
+    return this.decryptPayload(
+      toBuffer(data),
+      true,
+      Buffer.from(associatedData)
+    );
+  }
+
+  // Stop every worker. Pending and later calls are rejected.
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(new Error('Pool is closed'));
+    }
+    const workers = this.workers.splice(0);
+    for (const { current } of workers) {
+      current?.reject(new Error('Pool is closed'));
+    }
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  private async encryptPayload(
+    data: Buffer,
+    authenticated: boolean,
+    associatedData: Buffer,
+    options: EncryptOptions
+  ): Promise<Buffer> {
+    this.assertOpen();
+    const { params, header } = this.source.encryption(
+      authenticated,
+      associatedData,
+      options.iv
+    );
+    const input = isStreamMode(params.mode)
+      ? data
+      : pad(data, params.cipher.blockSize);
+    const ciphertext = await this.process(params, 'encrypt', input);
+
+    if (!params.tagger) {
+      return Buffer.concat([header, ciphertext]);
+    }
+    params.tagger.update(header);
+    params.tagger.update(ciphertext);
+    return Buffer.concat([header, ciphertext, params.tagger.digest()]);
+  }
+
+  private async decryptPayload(
+    data: Buffer,
+    authenticated: boolean,
+    associatedData: Buffer
+  ): Promise<Buffer> {
+    this.assertOpen();
+    const resolved = this.resolveHeader(data, authenticated, associatedData);
+    const { headerLength, ...params } = resolved;
+    const blockSize = params.cipher.blockSize;
+
+    // Length, tag and padding failures raise the same error
+    const failure = (): Error =>
+      authenticated
+        ? new MTCv3AuthenticationError()
+        : new MTCv3DecryptionError();
+    const bodyLength = data.length - (authenticated ? STREAM_TAG_LENGTH : 0);
+    if (bodyLength < headerLength) {
+      throw failure();
+    }
+    const ciphertext = data.slice(headerLength, bodyLength);
+    if (
+      !isStreamMode(params.mode) &&
+      (ciphertext.length === 0 || ciphertext.length % blockSize !== 0)
+    ) {
+      throw failure();
+    }
+
+    if (params.tagger) {
+      params.tagger.update(data.slice(0, bodyLength));
+      if (
+        !crypto.timingSafeEqual(data.slice(bodyLength), params.tagger.digest())
+      ) {
+        throw failure();
+      }
+    }
+
+    const plaintext = await this.process(params, 'decrypt', ciphertext);
+    if (isStreamMode(params.mode)) {
+      return plaintext;
+    }
+    try {
+      return unpad(plaintext, blockSize);
+    } catch (error) {
+      throw authenticated ? failure() : error;
+    }
+  }
+
+  // Resolve the header of a complete ciphertext. Authenticated decryption
+  // reports every malformed header as an authentication failure.
+  private resolveHeader(
+    data: Buffer,
+    authenticated: boolean,
+    associatedData: Buffer
+  ): ResolvedStreamHeader {
+    let resolved: ResolvedStreamHeader | undefined;
+    try {
+      resolved = this.source.resolveHeader(data, authenticated, associatedData);
+    } catch (error) {
+      throw authenticated ? new MTCv3AuthenticationError() : error;
+    }
+
+    if (resolved === undefined) {
+      throw authenticated
+        ? new MTCv3AuthenticationError()
+        : this.source.incompleteHeaderError(data);
+    }
+    return resolved;
+  }
+
+  // Split a payload into jobs wherever the mode allows it and reassemble the
+  // results in order
+  private async process(
+    params: StreamParams,
+    direction: PoolJob['direction'],
+    data: Buffer
+  ): Promise<Buffer> {
+    const { cipher, mode, iv } = params;
+    const blockSize = cipher.blockSize;
+    const blocks = Math.ceil(data.length / blockSize);
+    const segmentBlocks = isParallel(mode, direction)
+      ? Math.max(1, Math.floor(this.segmentSize / blockSize))
+      : Math.max(1, blocks);
+
+    const segments: Promise<Buffer>[] = [];
+    for (let start = 0; start === 0 || start < blocks; start += segmentBlocks) {
+      const offset = start * blockSize;
+      segments.push(
+        this.run({
+          id: this.nextJobId++,
+          cipherId: this.cipherId(cipher),
+          cipher: cipher.params,
+          mode,
+          direction,
+          // CTR seeks to the segment; the chaining modes start from the
+          // ciphertext block before it
+          iv:
+            mode === 'ctr' || start === 0
+              ? iv
+              : data.slice(offset - blockSize, offset),
+          startBlock: mode === 'ctr' ? start : 0,
+          data: data.slice(offset, offset + segmentBlocks * blockSize),
+        })
+      );
+    }
+    return Buffer.concat(await Promise.all(segments));
+  }
+
+  private cipherId(cipher: BlockCipher): number {
+    let id = this.cipherIds.get(cipher);
+    if (id === undefined) {
+      id = this.nextCipherId++;
+      this.cipherIds.set(cipher, id);
+    }
+    return id;
+  }
+
+  private run(job: PoolJob): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  // Hand queued jobs to idle workers, starting workers up to the pool size
+  private dispatch(): void {
+    while (this.queue.length > 0 && !this.closed) {
+      let idle = this.workers.find((entry) => entry.current === undefined);
+      if (idle === undefined) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        idle = this.startWorker();
+      }
+
+      const pending = this.queue.shift()!;
+      idle.current = pending;
+      idle.worker.ref();
+      idle.worker.postMessage(pending.job);
+    }
+  }
+
+  private startWorker(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV }),
+    };
+
+    entry.worker.on('message', (result: PoolJobResult) => {
+      const pending = entry.current;
+      entry.current = undefined;
+      entry.worker.unref();
+      if ('error' in result) {
+        pending?.reject(new Error(result.error));
+      } else {
+        pending?.resolve(
+          Buffer.from(
+            result.data.buffer,
+            result.data.byteOffset,
+            result.data.byteLength
+          )
+        );
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its job and is replaced on the next dispatch
+    const fail = (error: Error) => {
+      const index = this.workers.indexOf(entry);
+      if (index === -1) {
+        return;
+      }
+      this.workers.splice(index, 1);
+      entry.current?.reject(error);
+      entry.current = undefined;
+      this.dispatch();
+    };
+    entry.worker.on('error', fail);
+    entry.worker.on('exit', (code) =>
+      fail(new Error(`Pool worker exited with code ${code}`))
+    );
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('Pool is closed');
+    }
+  }
+}
+
+// Function to check whether a mode can process segments independently
+function isParallel(
+  mode: CipherMode,
+  direction: PoolJob['direction']
+): boolean {
+  return mode === 'ctr' || (direction === 'decrypt' && mode !== 'ofb');
+}
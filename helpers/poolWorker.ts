@@ -0,0 +1,74 @@
+import { parentPort } from 'worker_threads';
+import { BlockCipher, BlockCipherParams } from './blockCipher';
+import { CipherMode, createBlockMode, processBlocks } from './modes';
+
+// Worker thread of MTCv3Pool: runs one segment of a payload through a block
+// cipher mode. The key schedule is rebuilt from the transferred parameters
+// and kept for the following segments of the same cipher.
+
+export interface PoolJob {
+  id: number;
+  cipherId: number;
+  cipher: BlockCipherParams;
+  mode: CipherMode;
+  direction: 'encrypt' | 'decrypt';
+  // Chaining value before the segment: the IV, or the previous ciphertext block
+  iv: Uint8Array;
+  // Index of the segment's first block (CTR only)
+  startBlock: number;
+  data: Uint8Array;
+}
+
+export type PoolJobResult =
+  | { id: number; data: Uint8Array }
+  | { id: number; error: string };
+
+// Ciphers kept per worker; a pool rarely sees more than a few keys at a time
+const MAX_CACHED_CIPHERS = 16;
+const ciphers = new Map<number, BlockCipher>();
+
+// Function to get the cipher for a job, rebuilding its key schedule once
+function cipherFor(job: PoolJob): BlockCipher {
+  let cipher = ciphers.get(job.cipherId);
+  if (cipher === undefined) {
+    const { keyMaterial, rounds, matrixSize, cipherVersion, sBox } = job.cipher;
+    cipher = new BlockCipher(
+      Buffer.from(keyMaterial),
+      rounds,
+      matrixSize,
+      cipherVersion,
+      sBox
+    );
+    if (ciphers.size >= MAX_CACHED_CIPHERS) {
+      ciphers.delete(ciphers.keys().next().value!);
+    }
+    ciphers.set(job.cipherId, cipher);
+  }
+  return cipher;
+}
+
+// Function to process one segment
+function runJob(job: PoolJob): Uint8Array {
+  const cipher = cipherFor(job);
+  const blockMode = createBlockMode(
+    job.mode,
+    cipher,
+    Buffer.from(job.iv),
+    job.startBlock
+  );
+  return processBlocks(
+    Buffer.from(job.data.buffer, job.data.byteOffset, job.data.byteLength),
+    cipher.blockSize,
+    (block) => blockMode[job.direction](block)
+  );
+}
+
+parentPort?.on('message', (job: PoolJob) => {
+  let result: PoolJobResult;
+  try {
+    result = { id: job.id, data: runJob(job) };
+  } catch (error) {
+    result = { id: job.id, error: (error as Error).message };
+  }
+  parentPort!.postMessage(result);
+});
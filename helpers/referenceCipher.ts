@@ -0,0 +1,143 @@
+import {
+  deriveSubkey,
+  generateColumnPermutation,
+  generateInverseColumnPermutation,
+  inverseMixMatrix,
+  inversePermuteBits,
+  inverseShiftRows,
+  inverseSubstituteBytes,
+  mixMatrix,
+  permuteBits,
+  permuteColumns,
+  shiftRows,
+  substituteBytes,
+} from './encryptionUtils';
+import { AES_SBOX, SBox } from './sBox';
+
+// Straightforward composition of the round steps in encryptionUtils. It is
+// the specification the optimized BlockCipher is checked and benchmarked
+// against, and is far too slow for real use.
+export class ReferenceBlockCipher {
+  private keySchedule: Buffer[];
+  private roundKeys: Buffer[];
+  private sBox: number[];
+  private inverseSBox: number[];
+  private rounds: number;
+  private matrixSize: number;
+
+  constructor(
+    keyMaterial: Buffer,
+    rounds: number,
+    matrixSize: number,
+    cipherVersion: number,
+    sBox: SBox = AES_SBOX
+  ) {
+    this.rounds = rounds;
+    this.matrixSize = matrixSize;
+    this.sBox = Array.from(sBox.forward);
+    this.inverseSBox = Array.from(sBox.inverse);
+
+    this.keySchedule = [];
+    for (let r = 0; r < this.rounds; r++) {
+      const start = r * this.matrixSize;
+      const end = start + this.matrixSize;
+      this.keySchedule.push(keyMaterial.slice(start, end));
+    }
+
+    this.roundKeys = [];
+    if (cipherVersion === 2) {
+      for (let r = 0; r <= this.rounds; r++) {
+        this.roundKeys.push(
+          deriveSubkey(
+            keyMaterial,
+            `MTCv3 round key ${r}`,
+            matrixSize * matrixSize
+          )
+        );
+      }
+    }
+  }
+
+  // Encrypt a single block
+  encryptBlock(block: Buffer): Buffer {
+    let data = this.addRoundKey(Array.from(block), 0);
+
+    for (let r = 0; r < this.rounds; r++) {
+      const key = this.keySchedule[r];
+      const shiftAmounts = Array.from(key);
+
+      const matrix = this.reshape(data);
+
+      // Row Shifting
+      const shiftedMatrix = shiftRows(matrix, shiftAmounts);
+
+      // Column Permutation
+      const permutation = generateColumnPermutation(key, r, this.matrixSize);
+      const permutedMatrix = permuteColumns(shiftedMatrix, permutation);
+
+      // S-Box Substitution
+      let flatData = permutedMatrix.flat();
+      flatData = substituteBytes(flatData, this.sBox);
+
+      // Mixing Layer
+      const mixedMatrix = mixMatrix(this.reshape(flatData));
+
+      // Bit-level Permutation
+      flatData = mixedMatrix.flat();
+      flatData = permuteBits(flatData, key, r);
+
+      // Round Key Addition
+      data = this.addRoundKey(flatData, r + 1);
+    }
+
+    return Buffer.from(data);
+  }
+
+  // Decrypt a single block
+  decryptBlock(block: Buffer): Buffer {
+    let data = Array.from(block);
+
+    for (let r = this.rounds - 1; r >= 0; r--) {
+      const key = this.keySchedule[r];
+      const shiftAmounts = Array.from(key);
+
+      // Round Key Addition
+      data = this.addRoundKey(data, r + 1);
+
+      // Inverse Bit-level Permutation
+      data = inversePermuteBits(data, key, r);
+
+      // Inverse Mixing Layer
+      let matrix = inverseMixMatrix(this.reshape(data));
+
+      // Inverse S-Box Substitution
+      const flatData = inverseSubstituteBytes(matrix.flat(), this.inverseSBox);
+      matrix = this.reshape(flatData);
+
+      // Inverse Column Permutation
+      const permutation = generateColumnPermutation(key, r, this.matrixSize);
+      const inversePermutation = generateInverseColumnPermutation(permutation);
+      matrix = permuteColumns(matrix, inversePermutation);
+
+      // Inverse Row Shifting
+      matrix = inverseShiftRows(matrix, shiftAmounts);
+
+      data = matrix.flat();
+    }
+
+    return Buffer.from(this.addRoundKey(data, 0));
+  }
+
+  private addRoundKey(data: number[], index: number): number[] {
+    const roundKey = this.roundKeys[index];
+    return roundKey ? data.map((byte, i) => byte ^ roundKey[i]) : data;
+  }
+
+  // Helper function to reshape flat data into a row-major matrix
+  private reshape(data: number[]): number[][] {
+    const N = this.matrixSize;
+    return Array.from({ length: N }, (_, row) =>
+      data.slice(row * N, (row + 1) * N)
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { DeterministicRandom } from './encryptionUtils';
+import {
+  AES_SBOX,
+  SBox,
+  SBoxParams,
+  SBoxThresholds,
+  searchSBox,
+} from './sBoxCore';
+
+export type {
+  SBox,
+  SBoxMetrics,
+  SBoxOptions,
+  SBoxParams,
+  SBoxThresholds,
+} from './sBoxCore';
+export {
+  AES_SBOX,
+  analyzeSBox,
+  resolveSBoxParams,
+  validateSBoxParams,
+} from './sBoxCore';
+
+// Function to build the S-box selected by params; key-dependent boxes are
+// derived from the seed
+export function createSBox(params: SBoxParams, seed: Buffer): SBox {
+  return params.type === 'aes'
+    ? AES_SBOX
+    : generateKeyDependentSBox(seed, params);
+}
+
+// Function to derive an S-box from a seed: candidate permutations are drawn
+// with a SHA-256 counter-mode PRNG and Fisher-Yates shuffles, and the first
+// one meeting the thresholds is used
+export function generateKeyDependentSBox(
+  seed: Buffer,
+  thresholds: SBoxThresholds
+): SBox {
+  return searchSBox(new DeterministicRandom(seed), thresholds);
+}
@@ -0,0 +1,253 @@
+import {
+  AES_INV_S_BOX,
+  AES_S_BOX,
+  DEFAULT_SBOX_THRESHOLDS,
+  MAX_SBOX_ATTEMPTS,
+  STRICTEST_SBOX_THRESHOLDS,
+} from '../constants/encryptionConstants.js';
+import { concatBytes, uintBE } from './bytes.js';
+import {
+  CounterRandom,
+  PrecomputedRandom,
+  RandomExhaustedError,
+} from './counterRandom.js';
+import { CryptoPlatform } from './platform.js';
+
+// A bijective byte substitution and its inverse
+export interface SBox {
+  forward: Uint8Array;
+  inverse: Uint8Array;
+}
+
+// Quality bar a generated S-box has to meet
+export interface SBoxThresholds {
+  // Largest accepted entry of the difference distribution table
+  maxDifferentialUniformity: number;
+  // Smallest accepted distance to the nearest affine function
+  minNonlinearity: number;
+}
+
+// S-box selection, as recorded in the ciphertext envelope
+export type SBoxParams =
+  | { type: 'aes' }
+  | ({ type: 'key-dependent' } & SBoxThresholds);
+
+// S-box options accepted by MTCv3; omitted thresholds use the defaults
+export type SBoxOptions =
+  | { type: 'aes' }
+  | ({ type: 'key-dependent' } & Partial<SBoxThresholds>);
+
+export interface SBoxMetrics {
+  bijective: boolean;
+  // Largest number of inputs x with S(x) ^ S(x ^ a) = b over all a != 0, b
+  differentialUniformity: number;
+  // Smallest Hamming distance between a non-zero component function and an
+  // affine function
+  nonlinearity: number;
+  fixedPoints: number;
+}
+
+// Hash blocks computed before the first asynchronous search; enough for a
+// few candidates, and the default thresholds usually need fewer
+const INITIAL_SBOX_BLOCKS = 64;
+
+export const AES_SBOX: SBox = {
+  forward: Uint8Array.from(AES_S_BOX),
+  inverse: Uint8Array.from(AES_INV_S_BOX),
+};
+
+// Function to fill in defaults and validate S-box options
+export function resolveSBoxParams(options?: SBoxOptions): SBoxParams {
+  let params: SBoxParams;
+  switch (options?.type ?? 'aes') {
+    case 'aes':
+      params = { type: 'aes' };
+      break;
+    case 'key-dependent': {
+      const thresholds = options as Partial<SBoxThresholds>;
+      params = {
+        type: 'key-dependent',
+        maxDifferentialUniformity:
+          thresholds.maxDifferentialUniformity ??
+          DEFAULT_SBOX_THRESHOLDS.maxDifferentialUniformity,
+        minNonlinearity:
+          thresholds.minNonlinearity ?? DEFAULT_SBOX_THRESHOLDS.minNonlinearity,
+      };
+      break;
+    }
+    default:
+      throw new Error(`Unsupported S-box type: ${options?.type}`);
+  }
+
+  validateSBoxParams(params);
+  return params;
+}
+
+// Function to reject thresholds that are malformed or too strict to be met
+export function validateSBoxParams(params: SBoxParams): void {
+  if (params.type === 'aes') {
+    return;
+  }
+
+  const { maxDifferentialUniformity, minNonlinearity } = params;
+  if (
+    !Number.isInteger(maxDifferentialUniformity) ||
+    maxDifferentialUniformity <
+      STRICTEST_SBOX_THRESHOLDS.maxDifferentialUniformity ||
+    maxDifferentialUniformity > 255
+  ) {
+    throw new Error(
+      `Unsupported S-box differential uniformity threshold: ${maxDifferentialUniformity}`
+    );
+  }
+  if (
+    !Number.isInteger(minNonlinearity) ||
+    minNonlinearity < 0 ||
+    minNonlinearity > STRICTEST_SBOX_THRESHOLDS.minNonlinearity
+  ) {
+    throw new Error(
+      `Unsupported S-box nonlinearity threshold: ${minNonlinearity}`
+    );
+  }
+}
+
+// Function to draw candidate permutations with Fisher-Yates shuffles and
+// return the first one meeting the thresholds
+export function searchSBox(
+  random: CounterRandom,
+  thresholds: SBoxThresholds
+): SBox {
+  for (let attempt = 0; attempt < MAX_SBOX_ATTEMPTS; attempt++) {
+    const forward = Uint8Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const j = random.nextInt(i + 1);
+      [forward[i], forward[j]] = [forward[j], forward[i]];
+    }
+
+    // Nonlinearity is the costlier metric, so it is only computed when needed
+    if (
+      differentialUniformity(forward) <= thresholds.maxDifferentialUniformity &&
+      nonlinearity(forward) >= thresholds.minNonlinearity
+    ) {
+      const inverse = new Uint8Array(256);
+      forward.forEach((value, index) => {
+        inverse[value] = index;
+      });
+      return { forward, inverse };
+    }
+  }
+
+  throw new Error(
+    `No S-box met the thresholds within ${MAX_SBOX_ATTEMPTS} attempts`
+  );
+}
+
+// Function to build the S-box selected by params with a platform's hash.
+// Draws the same SHA-256(seed || counter) stream as the Node build: blocks
+// are hashed in batches, and the search is replayed with twice as many
+// whenever it runs out.
+export async function createSBoxAsync(
+  platform: CryptoPlatform,
+  params: SBoxParams,
+  seed: Uint8Array
+): Promise<SBox> {
+  if (params.type === 'aes') {
+    return AES_SBOX;
+  }
+
+  const blocks: Uint8Array[] = [];
+  for (let batch = INITIAL_SBOX_BLOCKS; ; batch *= 2) {
+    const start = blocks.length;
+    blocks.push(
+      ...(await Promise.all(
+        Array.from({ length: batch - start }, (_, i) =>
+          platform.sha256(concatBytes(seed, uintBE(start + i, 4)))
+        )
+      ))
+    );
+
+    try {
+      return searchSBox(new PrecomputedRandom(blocks), params);
+    } catch (error) {
+      if (!(error instanceof RandomExhaustedError)) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Function to report the cryptographic metrics of an S-box
+export function analyzeSBox(sBox: ArrayLike<number>): SBoxMetrics {
+  const table = Uint8Array.from(sBox as ArrayLike<number>);
+  if (table.length !== 256) {
+    throw new Error('An S-box must have 256 entries');
+  }
+
+  let fixedPoints = 0;
+  table.forEach((value, index) => {
+    if (value === index) {
+      fixedPoints++;
+    }
+  });
+
+  return {
+    bijective: new Set(table).size === 256,
+    differentialUniformity: differentialUniformity(table),
+    nonlinearity: nonlinearity(table),
+    fixedPoints,
+  };
+}
+
+// Function to compute the largest entry of the difference distribution table
+function differentialUniformity(sBox: Uint8Array): number {
+  const counts = new Uint16Array(256);
+  let max = 0;
+  for (let a = 1; a < 256; a++) {
+    counts.fill(0);
+    for (let x = 0; x < 256; x++) {
+      const count = ++counts[sBox[x] ^ sBox[x ^ a]];
+      if (count > max) {
+        max = count;
+      }
+    }
+  }
+  return max;
+}
+
+// Function to compute the nonlinearity from the Walsh spectrum of every
+// component function b . S(x)
+function nonlinearity(sBox: Uint8Array): number {
+  const spectrum = new Int32Array(256);
+  let maxWalsh = 0;
+
+  for (let b = 1; b < 256; b++) {
+    for (let x = 0; x < 256; x++) {
+      spectrum[x] = parity(sBox[x] & b) ? -1 : 1;
+    }
+
+    // Fast Walsh-Hadamard transform
+    for (let half = 1; half < 256; half <<= 1) {
+      for (let i = 0; i < 256; i += half << 1) {
+        for (let j = i; j < i + half; j++) {
+          const sum = spectrum[j];
+          const difference = spectrum[j + half];
+          spectrum[j] = sum + difference;
+          spectrum[j + half] = sum - difference;
+        }
+      }
+    }
+
+    for (let a = 0; a < 256; a++) {
+      maxWalsh = Math.max(maxWalsh, Math.abs(spectrum[a]));
+    }
+  }
+
+  return 128 - maxWalsh / 2;
+}
+
+function parity(byte: number): number {
+  byte ^= byte >> 4;
+  byte ^= byte >> 2;
+  byte ^= byte >> 1;
+  return byte & 1;
+}
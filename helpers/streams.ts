@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { BlockCipher } from './blockCipher';
+import { createTagger, pad, Tagger, unpad } from './encryptionUtils';
+import { MTCv3AuthenticationError, MTCv3DecryptionError } from './errors';
+import { BlockMode, CipherMode, createBlockMode, isStreamMode } from './modes';
+
+export const STREAM_TAG_LENGTH = 32;
+
+// Everything needed to process the payload that follows a header
+export interface StreamParams {
+  cipher: BlockCipher;
+  mode: CipherMode;
+  iv: Buffer;
+  // Present for authenticated (sealed) streams
+  tagger?: Tagger;
+}
+
+// Header resolved from the first bytes of a ciphertext stream
+export interface ResolvedStreamHeader extends StreamParams {
+  headerLength: number;
+}
+
+// Encrypts a plaintext stream: header, then ciphertext blocks as they fill
+// up, then the final (padded) block and tag on flush.
+export class EncryptTransform extends Transform {
+  private blockMode: BlockMode;
+  private pending: Buffer = Buffer.alloc(0);
+
+  constructor(private params: StreamParams, header: Buffer) {
+    super();
+    this.blockMode = createBlockMode(params.mode, params.cipher, params.iv);
+    this.emitCiphertext(header);
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    try {
+      this.pending = Buffer.concat([this.pending, chunk]);
+      const blockSize = this.params.cipher.blockSize;
+      const ready = this.pending.length - (this.pending.length % blockSize);
+      this.encryptBlocks(this.pending.slice(0, ready));
+      this.pending = this.pending.slice(ready);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      const { cipher, mode, tagger } = this.params;
+      const last = isStreamMode(mode)
+        ? this.pending
+        : pad(this.pending, cipher.blockSize);
+      this.encryptBlocks(last);
+
+      if (tagger) {
+        this.push(tagger.digest());
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private encryptBlocks(data: Buffer): void {
+    const blockSize = this.params.cipher.blockSize;
+    for (let offset = 0; offset < data.length; offset += blockSize) {
+      this.emitCiphertext(
+        this.blockMode.encrypt(data.slice(offset, offset + blockSize))
+      );
+    }
+  }
+
+  private emitCiphertext(data: Uint8Array): void {
+    this.params.tagger?.update(data);
+    this.push(data);
+  }
+}
+
+// Decrypts a ciphertext stream. The header is buffered until complete, and
+// the trailing tag and final padded block are held back until flush. For
+// authenticated streams, plaintext is released before the tag is checked:
+// treat the output as untrusted until the stream finishes without error.
+export class DecryptTransform extends Transform {
+  private params?: StreamParams;
+  private blockMode?: BlockMode;
+  private pending: Buffer = Buffer.alloc(0);
+
+  constructor(
+    private resolveHeader: (data: Buffer) => ResolvedStreamHeader | undefined,
+    private incompleteHeaderError: (data: Buffer) => Error
+  ) {
+    super();
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    try {
+      this.pending = Buffer.concat([this.pending, chunk]);
+
+      if (!this.params && !this.startPayload()) {
+        callback();
+        return;
+      }
+
+      const blockSize = this.params!.cipher.blockSize;
+      const available = this.pending.length - this.tagLength();
+
+      // CBC keeps its last block back so the padding can be removed on flush
+      const blocks = isStreamMode(this.params!.mode)
+        ? Math.max(0, Math.floor(available / blockSize))
+        : Math.max(0, Math.ceil(available / blockSize) - 1);
+      const ready = blocks * blockSize;
+
+      this.decryptBlocks(this.pending.slice(0, ready));
+      this.pending = this.pending.slice(ready);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (!this.params) {
+        throw this.incompleteHeaderError(this.pending);
+      }
+
+      const { cipher, mode, tagger } = this.params;
+      const tagLength = this.tagLength();
+      if (this.pending.length < tagLength) {
+        throw new MTCv3AuthenticationError();
+      }
+
+      const ciphertext = this.pending.slice(0, this.pending.length - tagLength);
+      const tag = this.pending.slice(this.pending.length - tagLength);
+
+      if (!isStreamMode(mode) && ciphertext.length !== cipher.blockSize) {
+        throw tagger
+          ? new MTCv3AuthenticationError()
+          : new MTCv3DecryptionError();
+      }
+
+      // The final block is decrypted but only released once the tag checks out
+      const plaintext = this.decryptBlocks(ciphertext, false);
+      if (tagger && !crypto.timingSafeEqual(tag, tagger.digest())) {
+        throw new MTCv3AuthenticationError();
+      }
+
+      if (isStreamMode(mode)) {
+        this.push(plaintext);
+      } else {
+        try {
+          this.push(unpad(plaintext, cipher.blockSize));
+        } catch (error) {
+          throw tagger ? new MTCv3AuthenticationError() : error;
+        }
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  // Resolve the header once enough bytes have arrived
+  private startPayload(): boolean {
+    const resolved = this.resolveHeader(this.pending);
+    if (!resolved) {
+      return false;
+    }
+
+    const { headerLength, ...params } = resolved;
+    params.tagger?.update(this.pending.slice(0, headerLength));
+    this.params = params;
+    this.blockMode = createBlockMode(params.mode, params.cipher, params.iv);
+    this.pending = this.pending.slice(headerLength);
+    return true;
+  }
+
+  private decryptBlocks(data: Buffer, emit: boolean = true): Buffer {
+    const blockSize = this.params!.cipher.blockSize;
+    const output: Uint8Array[] = [];
+
+    for (let offset = 0; offset < data.length; offset += blockSize) {
+      const block = data.slice(offset, offset + blockSize);
+      this.params!.tagger?.update(block);
+      output.push(this.blockMode!.decrypt(block));
+    }
+
+    const plaintext = Buffer.concat(output);
+    if (emit && plaintext.length > 0) {
+      this.push(plaintext);
+    }
+    return plaintext;
+  }
+
+  private tagLength(): number {
+    return this.params?.tagger ? STREAM_TAG_LENGTH : 0;
+  }
+}
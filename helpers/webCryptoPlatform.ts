@@ -0,0 +1,71 @@
+import { utf8Encode } from './bytes.js';
+import { CryptoPlatform } from './platform.js';
+
+const HASH_NAMES = { sha256: 'SHA-256', sha512: 'SHA-512' };
+
+// Function to create a CryptoPlatform on the Web Crypto API, available in
+// browsers, Deno, edge runtimes and Node (globalThis.crypto). WebCrypto has
+// no scrypt, so scrypt ciphertexts need a platform that provides it.
+export function createWebCryptoPlatform(
+  webCrypto: Crypto = globalThis.crypto
+): CryptoPlatform {
+  if (webCrypto?.subtle === undefined) {
+    throw new Error('The Web Crypto API is not available');
+  }
+  const subtle = webCrypto.subtle;
+
+  return {
+    randomBytes: (size) => {
+      // getRandomValues fills at most 65536 bytes per call
+      const bytes = new Uint8Array(size);
+      for (let offset = 0; offset < size; offset += 65536) {
+        webCrypto.getRandomValues(bytes.subarray(offset, offset + 65536));
+      }
+      return bytes;
+    },
+
+    sha256: async (data) =>
+      new Uint8Array(await subtle.digest('SHA-256', data)),
+
+    hmacSha256: async (key, data) => {
+      // HMAC keys may be empty; WebCrypto rejects those, so an empty key is
+      // replaced by its equivalent, a block of zeros
+      const hmacKey = await subtle.importKey(
+        'raw',
+        key.length === 0 ? new Uint8Array(64) : key,
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      return new Uint8Array(await subtle.sign('HMAC', hmacKey, data));
+    },
+
+    hkdfSha256: async (key, salt, info, length) => {
+      const hkdfKey = await subtle.importKey('raw', key, 'HKDF', false, [
+        'deriveBits',
+      ]);
+      const bits = await subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: utf8Encode(info) },
+        hkdfKey,
+        length * 8
+      );
+      return new Uint8Array(bits);
+    },
+
+    pbkdf2: async (password, salt, iterations, hash, length) => {
+      const pbkdf2Key = await subtle.importKey(
+        'raw',
+        password,
+        'PBKDF2',
+        false,
+        ['deriveBits']
+      );
+      const bits = await subtle.deriveBits(
+        { name: 'PBKDF2', hash: HASH_NAMES[hash], salt, iterations },
+        pbkdf2Key,
+        length * 8
+      );
+      return new Uint8Array(bits);
+    },
+  };
+}
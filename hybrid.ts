@@ -0,0 +1,352 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import {
+  HYBRID_MAGIC,
+  HYBRID_VERSION,
+  KEY_WRAP_PARAMS,
+} from './constants/encryptionConstants';
+import { DecodeOptions, MTCv3, MTCv3Options } from './MTCV3';
+import { BlockCipher } from './helpers/blockCipher';
+import { toBuffer } from './helpers/encryptionUtils';
+import { MTCv3AuthenticationError, MTCv3FormatError } from './helpers/errors';
+import { validateRounds } from './helpers/keySchedule';
+import { unwrapKey, wrapKey } from './helpers/keyWrap';
+
+// Public-key encryption: a random data key seals the payload with MTCv3,
+// and is wrapped once per recipient under a key agreed with X25519. Layout:
+//
+//   magic "MTCX" (4) | version (1) | ephemeral public key (32)
+//   recipient count (1) | wrapped data key (40) per recipient
+//   sealed MTCv3 envelope (rest)
+//
+// Each message has its own ephemeral key pair. A recipient's wrapping key is
+// HKDF-SHA256 over the X25519 shared secret, salted with the ephemeral and
+// recipient public keys. Recipients are not named: decryption tries each
+// wrapped key, and the key wrap's integrity check finds the right one. The
+// header is part of the payload's associated data, so no field of it can
+// change without failing authentication.
+
+export interface MTCv3HybridCipherOptions
+  extends Omit<MTCv3Options, 'kdf' | 'keyId'> {
+  rounds?: number;
+  matrixSize?: number;
+}
+
+// A recipient's public key: a KeyObject, SPKI PEM or a public JWK
+export type PublicKeyInput = KeyObject | string | JsonWebKey;
+
+// A private key: a key pair, a KeyObject, PKCS#8 PEM or a private JWK
+export type PrivateKeyInput = X25519KeyPair | KeyObject | string | JsonWebKey;
+
+const PUBLIC_KEY_LENGTH = 32;
+const DATA_KEY_LENGTH = 32;
+// RFC 3394 adds one 8-byte semiblock to the data key
+const WRAPPED_KEY_LENGTH = DATA_KEY_LENGTH + 8;
+const MAX_RECIPIENTS = 0xff;
+// HKDF salt for data keys, which are random and used once
+const DATA_KEY_SALT = 'MTCv3 hybrid data key';
+
+// An X25519 key pair, serializable as PEM (PKCS#8 and SPKI) or JWK
+export class X25519KeyPair {
+  private constructor(
+    readonly publicKey: KeyObject,
+    readonly privateKey: KeyObject
+  ) {}
+
+  static generate(): X25519KeyPair {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+    return new X25519KeyPair(publicKey, privateKey);
+  }
+
+  // Load a private key; the public key is computed from it
+  static fromPrivateKey(key: KeyObject | string | JsonWebKey): X25519KeyPair {
+    const privateKey = importPrivateKey(key);
+    return new X25519KeyPair(crypto.createPublicKey(privateKey), privateKey);
+  }
+
+  exportPublicKey(format: 'pem'): string;
+  exportPublicKey(format: 'jwk'): JsonWebKey;
+  exportPublicKey(format: 'pem' | 'jwk'): string | JsonWebKey {
+    return format === 'pem'
+      ? (this.publicKey.export({ type: 'spki', format: 'pem' }) as string)
+      : this.publicKey.export({ format: 'jwk' });
+  }
+
+  // The private key in the clear; protect it like any other secret
+  exportPrivateKey(format: 'pem'): string;
+  exportPrivateKey(format: 'jwk'): JsonWebKey;
+  exportPrivateKey(format: 'pem' | 'jwk'): string | JsonWebKey {
+    return format === 'pem'
+      ? (this.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string)
+      : this.privateKey.export({ format: 'jwk' });
+  }
+}
+
+export class MTCv3HybridCipher {
+  constructor(private options: MTCv3HybridCipherOptions = {}) {
+    validateRounds(options.rounds ?? 10);
+  }
+
+  encrypt(
+    plaintext: string,
+    recipients: PublicKeyInput | PublicKeyInput[],
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const ciphertext = this.encryptBytes(
+      Buffer.from(plaintext, 'utf-8'),
+      recipients,
+      associatedData
+    );
+    return ciphertext.toString(options.encoding ?? 'hex');
+  }
+
+  decrypt(
+    ciphertext: string,
+    privateKey: PrivateKeyInput,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const plaintext = this.decryptBytes(
+      Buffer.from(ciphertext, options.encoding ?? 'hex'),
+      privateKey,
+      associatedData
+    );
+    return plaintext.toString('utf-8');
+  }
+
+  // Seal data under a fresh data key, wrapped for each recipient
+  encryptBytes(
+    data: Uint8Array,
+    recipients: PublicKeyInput | PublicKeyInput[],
+    associatedData: string | Uint8Array = ''
+  ): Buffer {
+    const publicKeys = (
+      Array.isArray(recipients) ? recipients : [recipients]
+    ).map(importPublicKey);
+    if (publicKeys.length === 0 || publicKeys.length > MAX_RECIPIENTS) {
+      throw new RangeError(`Expected 1 to ${MAX_RECIPIENTS} recipients`);
+    }
+
+    const randomBytes = this.options.randomBytes ?? crypto.randomBytes;
+    const dataKey = Buffer.from(randomBytes(DATA_KEY_LENGTH));
+    const ephemeral = X25519KeyPair.generate();
+    const ephemeralKey = rawPublicKey(ephemeral.publicKey);
+
+    try {
+      const header = Buffer.concat([
+        HYBRID_MAGIC,
+        Buffer.from([HYBRID_VERSION]),
+        ephemeralKey,
+        Buffer.from([publicKeys.length]),
+        ...publicKeys.map((publicKey) =>
+          wrapKey(
+            wrappingCipher(
+              ephemeral.privateKey,
+              publicKey,
+              Buffer.concat([ephemeralKey, rawPublicKey(publicKey)])
+            ),
+            dataKey
+          )
+        ),
+      ]);
+      const payload = this.dataKeyCipher(dataKey).sealBytes(
+        data,
+        Buffer.concat([header, Buffer.from(associatedData)])
+      );
+      return Buffer.concat([header, toBuffer(payload)]);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  // Open data addressed to the private key. The wrong private key, the
+  // wrong associated data or any modification raises
+  // MTCv3AuthenticationError.
+  decryptBytes(
+    data: Uint8Array,
+    privateKey: PrivateKeyInput,
+    associatedData: string | Uint8Array = ''
+  ): Buffer {
+    const input = toBuffer(data);
+    const { ephemeralKey, wrappedKeys, headerLength } =
+      parseHybridHeader(input);
+    const key =
+      privateKey instanceof X25519KeyPair
+        ? privateKey.privateKey
+        : importPrivateKey(privateKey);
+
+    let cipher: BlockCipher;
+    try {
+      cipher = wrappingCipher(
+        key,
+        crypto.createPublicKey({
+          key: {
+            kty: 'OKP',
+            crv: 'X25519',
+            x: ephemeralKey.toString('base64url'),
+          },
+          format: 'jwk',
+        }),
+        Buffer.concat([ephemeralKey, rawPublicKey(crypto.createPublicKey(key))])
+      );
+    } catch (error) {
+      // A low-order ephemeral key gives an all-zero secret, which X25519
+      // rejects
+      throw new MTCv3AuthenticationError();
+    }
+
+    const dataKey = unwrapAny(cipher, wrappedKeys);
+    try {
+      return toBuffer(
+        this.dataKeyCipher(dataKey).openBytes(
+          input.subarray(headerLength),
+          Buffer.concat([
+            input.subarray(0, headerLength),
+            Buffer.from(associatedData),
+          ])
+        )
+      );
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  private dataKeyCipher(dataKey: Buffer): MTCv3 {
+    const { rounds = 10, matrixSize = 4, ...shared } = this.options;
+    return new MTCv3('', DATA_KEY_SALT, rounds, matrixSize, {
+      ...shared,
+      kdf: { algorithm: 'raw', key: dataKey },
+    });
+  }
+}
+
+// Function to load an X25519 public key from a KeyObject, SPKI PEM or JWK
+export function importPublicKey(key: PublicKeyInput): KeyObject {
+  const publicKey =
+    key instanceof KeyObject
+      ? key
+      : parseKey('public', () =>
+          typeof key === 'string'
+            ? crypto.createPublicKey(key)
+            : crypto.createPublicKey({ key, format: 'jwk' })
+        );
+  return checkX25519(publicKey, 'public');
+}
+
+// Function to load an X25519 private key from a KeyObject, PKCS#8 PEM or JWK
+export function importPrivateKey(
+  key: KeyObject | string | JsonWebKey
+): KeyObject {
+  const privateKey =
+    key instanceof KeyObject
+      ? key
+      : parseKey('private', () =>
+          typeof key === 'string'
+            ? crypto.createPrivateKey(key)
+            : crypto.createPrivateKey({ key, format: 'jwk' })
+        );
+  return checkX25519(privateKey, 'private');
+}
+
+// Function to parse a PEM or JWK key. Malformed input raises the same error
+// as a key of the wrong type, not Node's parser error.
+function parseKey(
+  type: 'public' | 'private',
+  parse: () => KeyObject
+): KeyObject {
+  try {
+    return parse();
+  } catch (error) {
+    throw new TypeError(`Expected an X25519 ${type} key`);
+  }
+}
+
+// Function to split the header of a public-key ciphertext
+function parseHybridHeader(data: Buffer): {
+  ephemeralKey: Buffer;
+  wrappedKeys: Buffer[];
+  headerLength: number;
+} {
+  const magicLength = HYBRID_MAGIC.length;
+  if (!data.subarray(0, magicLength).equals(HYBRID_MAGIC)) {
+    throw new MTCv3FormatError('Invalid ciphertext: missing public-key magic');
+  }
+  if (data[magicLength] !== HYBRID_VERSION) {
+    throw new MTCv3FormatError(
+      `Unsupported public-key ciphertext version: ${data[magicLength]}`
+    );
+  }
+
+  const countOffset = magicLength + 1 + PUBLIC_KEY_LENGTH;
+  const count = data[countOffset];
+  const headerLength = countOffset + 1 + count * WRAPPED_KEY_LENGTH;
+  if (countOffset >= data.length || headerLength > data.length) {
+    throw new MTCv3FormatError('Truncated public-key ciphertext');
+  }
+  if (count === 0) {
+    throw new MTCv3FormatError('Invalid ciphertext: no recipients');
+  }
+
+  const wrappedKeys: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = countOffset + 1 + i * WRAPPED_KEY_LENGTH;
+    wrappedKeys.push(data.subarray(offset, offset + WRAPPED_KEY_LENGTH));
+  }
+  return {
+    ephemeralKey: data.subarray(magicLength + 1, countOffset),
+    wrappedKeys,
+    headerLength,
+  };
+}
+
+// Function to derive the key wrapping cipher both sides of an X25519
+// agreement share; the salt is the ephemeral and recipient public keys
+function wrappingCipher(
+  privateKey: KeyObject,
+  publicKey: KeyObject,
+  salt: Buffer
+): BlockCipher {
+  const sharedSecret = crypto.diffieHellman({ privateKey, publicKey });
+  const { rounds, matrixSize, cipherVersion } = KEY_WRAP_PARAMS;
+  const key = Buffer.from(
+    crypto.hkdfSync(
+      'sha256',
+      sharedSecret,
+      salt,
+      'MTCv3 X25519 key wrap',
+      rounds * matrixSize
+    )
+  );
+  sharedSecret.fill(0);
+  return new BlockCipher(key, rounds, matrixSize, cipherVersion);
+}
+
+// Function to unwrap whichever wrapped key the cipher opens
+function unwrapAny(cipher: BlockCipher, wrappedKeys: Buffer[]): Buffer {
+  for (const wrapped of wrappedKeys) {
+    try {
+      return unwrapKey(cipher, wrapped);
+    } catch (error) {
+      if (!(error instanceof MTCv3AuthenticationError)) {
+        throw error;
+      }
+    }
+  }
+  throw new MTCv3AuthenticationError();
+}
+
+// Function to get the 32 raw bytes of an X25519 public key
+function rawPublicKey(publicKey: KeyObject): Buffer {
+  return Buffer.from(
+    publicKey.export({ format: 'jwk' }).x as string,
+    'base64url'
+  );
+}
+
+// Function to reject keys of other types, e.g. Ed25519 or RSA
+function checkX25519(key: KeyObject, type: 'public' | 'private'): KeyObject {
+  if (key.type !== type || key.asymmetricKeyType !== 'x25519') {
+    throw new TypeError(`Expected an X25519 ${type} key`);
+  }
+  return key;
+}
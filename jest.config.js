@@ -4,4 +4,6 @@ module.exports = {
   testEnvironment: 'node',
   testMatch: ['**/__tests__/**/*.test.ts'],
   moduleFileExtensions: ['ts', 'js'],
+  // Imports in the ES module build name the compiled .js files
+  moduleNameMapper: { '^(\\.{1,2}/.*)\\.js$': '$1' },
 };
@@ -0,0 +1,432 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  DecodeOptions,
+  EncryptOptions,
+  MTCv3,
+  MTCv3CreateOptions,
+  MTCv3Options,
+} from './MTCV3';
+import { toBuffer } from './helpers/encryptionUtils';
+import { isEnvelope, parseEnvelope } from './helpers/envelope';
+import {
+  MTCv3AuthenticationError,
+  MTCv3FormatError,
+  MTCv3UnknownKeyError,
+} from './helpers/errors';
+import { KdfOptions } from './helpers/kdf';
+
+// Key material held by a keyring: a raw key, or a password and salt as
+// passed to the MTCv3 constructor
+export type KeyringKey =
+  | { type: 'raw'; key: Uint8Array }
+  | {
+      type: 'password';
+      password: string;
+      salt: string;
+      kdf?: Exclude<KdfOptions, { algorithm: 'raw' }>;
+    };
+
+export interface MTCv3KeyringOptions
+  extends Omit<MTCv3Options, 'kdf' | 'keyId'> {
+  rounds?: number;
+  matrixSize?: number;
+  // Key used for ciphertexts that carry no key ID, such as those written by
+  // a plain MTCv3 instance before the keyring was adopted
+  fallbackKeyId?: string;
+}
+
+export interface ReencryptOptions extends DecodeOptions {
+  // Associated data of a sealed ciphertext, bound again to the new one
+  associatedData?: string | Uint8Array;
+}
+
+export interface KeystoreOptions {
+  // KDF for the master password (default: PBKDF2-HMAC-SHA256, 100000 iterations)
+  kdf?: Exclude<KdfOptions, { algorithm: 'raw' }>;
+}
+
+// Keystore file layout. Each key's material is sealed under the master
+// password, with the format, key ID and active key ID as associated data so
+// that entries cannot be swapped or the active key changed undetected.
+interface Keystore {
+  format: typeof KEYSTORE_FORMAT;
+  version: number;
+  salt: string;
+  active?: string;
+  keys: { id: string; material: string }[];
+}
+
+type SerializedKey =
+  | { type: 'raw'; key: string }
+  | Extract<KeyringKey, { type: 'password' }>;
+
+interface KeyringEntry {
+  key: KeyringKey;
+  cipher: MTCv3;
+}
+
+const KEYSTORE_FORMAT = 'mtcv3-keystore';
+const KEYSTORE_VERSION = 1;
+const KEYSTORE_SALT_LENGTH = 16;
+const GENERATED_KEY_LENGTH = 32;
+// HKDF salt for raw keys; raw keys need no per-key salt
+const RAW_KEY_SALT = 'MTCv3 keyring';
+
+export class MTCv3Keyring {
+  private entries: Map<string, KeyringEntry> = new Map();
+  private activeId?: string;
+
+  constructor(private options: MTCv3KeyringOptions = {}) {}
+
+  // Key ID used for new ciphertexts
+  get activeKeyId(): string | undefined {
+    return this.activeId;
+  }
+
+  keyIds(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  hasKey(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  // Add a named key. The first key added becomes the active key.
+  addKey(id: string, key: KeyringKey): void {
+    this.assertNewKey(id);
+    const [password, salt, options] = this.cipherArguments(id, key);
+    const { rounds = 10, matrixSize = 4 } = this.options;
+    this.addEntry(id, {
+      key,
+      cipher: new MTCv3(password, salt, rounds, matrixSize, options),
+    });
+  }
+
+  // Add a new random raw key
+  generateKey(id: string): void {
+    const randomBytes = this.options.randomBytes ?? crypto.randomBytes;
+    this.addKey(id, { type: 'raw', key: randomBytes(GENERATED_KEY_LENGTH) });
+  }
+
+  // Remove a key. Ciphertexts that name it can no longer be decrypted.
+  removeKey(id: string): void {
+    this.assertKnownKey(id);
+    if (id === this.activeId) {
+      throw new Error(`Cannot remove the active key: ${id}`);
+    }
+    this.entries.delete(id);
+  }
+
+  setActive(id: string): void {
+    this.assertKnownKey(id);
+    this.activeId = id;
+  }
+
+  // Key ID recorded in a ciphertext, or undefined when it carries none
+  keyIdOf(data: Uint8Array): string | undefined {
+    const input = toBuffer(data);
+    return isEnvelope(input) ? parseEnvelope(input).header.keyId : undefined;
+  }
+
+  encrypt(plaintext: string, options: EncryptOptions = {}): string {
+    return this.activeCipher().encrypt(plaintext, options);
+  }
+
+  decrypt(ciphertext: string, options: DecodeOptions = {}): string {
+    const data = Buffer.from(ciphertext, options.encoding ?? 'hex');
+    return this.cipherFor(data).decrypt(ciphertext, options);
+  }
+
+  encryptBytes(data: Uint8Array, options: EncryptOptions = {}): Uint8Array {
+    return this.activeCipher().encryptBytes(data, options);
+  }
+
+  decryptBytes(data: Uint8Array): Uint8Array {
+    return this.cipherFor(data).decryptBytes(data);
+  }
+
+  seal(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): string {
+    return this.activeCipher().seal(plaintext, associatedData, options);
+  }
+
+  open(
+    sealed: string,
+    associatedData: string | Uint8Array = '',
+    options: DecodeOptions = {}
+  ): string {
+    const data = Buffer.from(sealed, options.encoding ?? 'hex');
+    return this.sealedCipherFor(data).open(sealed, associatedData, options);
+  }
+
+  sealBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = '',
+    options: EncryptOptions = {}
+  ): Uint8Array {
+    return this.activeCipher().sealBytes(data, associatedData, options);
+  }
+
+  openBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Uint8Array {
+    return this.sealedCipherFor(data).openBytes(data, associatedData);
+  }
+
+  // Decrypt a ciphertext with whichever key produced it and encrypt it again
+  // under the active key. Sealed ciphertexts stay sealed, with the same
+  // associated data; the output always has a fresh IV.
+  reencrypt(ciphertext: string, options: ReencryptOptions = {}): string {
+    const data = Buffer.from(ciphertext, options.encoding ?? 'hex');
+    const reencrypted = this.reencryptBytes(data, options.associatedData);
+    return Buffer.from(reencrypted).toString(options.encoding ?? 'hex');
+  }
+
+  reencryptBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Uint8Array {
+    const input = toBuffer(data);
+    const sealed = isEnvelope(input) && this.isSealed(input);
+
+    return sealed
+      ? this.sealBytes(this.openBytes(input, associatedData), associatedData)
+      : this.encryptBytes(this.decryptBytes(input));
+  }
+
+  // Serialize every key, sealed under the master password, as keystore JSON
+  async exportKeystore(
+    masterPassword: string,
+    options: KeystoreOptions = {}
+  ): Promise<string> {
+    const randomBytes = this.options.randomBytes ?? crypto.randomBytes;
+    const salt = randomBytes(KEYSTORE_SALT_LENGTH).toString('hex');
+    const master = await MTCv3.create(masterPassword, salt, {
+      kdf: options.kdf,
+      randomBytes: this.options.randomBytes,
+    });
+
+    const ids = [...this.entries.keys()];
+    const keystore: Keystore = {
+      format: KEYSTORE_FORMAT,
+      version: KEYSTORE_VERSION,
+      salt,
+      active: this.activeId,
+      keys: [...this.entries].map(([id, { key }]) => ({
+        id,
+        material: Buffer.from(
+          master.sealBytes(
+            Buffer.from(JSON.stringify(serializeKey(key)), 'utf-8'),
+            keystoreAssociatedData(id, this.activeId, ids)
+          )
+        ).toString('base64'),
+      })),
+    };
+    return `${JSON.stringify(keystore, null, 2)}\n`;
+  }
+
+  // Rebuild a keyring from keystore JSON. A wrong master password or a
+  // modified keystore raises MTCv3AuthenticationError.
+  static async importKeystore(
+    json: string,
+    masterPassword: string,
+    options: MTCv3KeyringOptions = {}
+  ): Promise<MTCv3Keyring> {
+    const keystore = parseKeystore(json);
+    const materials = keystore.keys.map(({ material }) =>
+      Buffer.from(material, 'base64')
+    );
+
+    // Derive the master key once, with the KDF recorded in the entries
+    const recordedKdf =
+      materials.length > 0 && isEnvelope(materials[0])
+        ? parseEnvelope(materials[0]).header.kdf
+        : undefined;
+    const master = await MTCv3.create(masterPassword, keystore.salt, {
+      kdf: recordedKdf?.algorithm === 'raw' ? undefined : recordedKdf,
+    });
+
+    const ids = keystore.keys.map(({ id }) => id);
+    const keyring = new MTCv3Keyring(options);
+    for (const [i, { id }] of keystore.keys.entries()) {
+      const key = deserializeKey(
+        master.openBytes(
+          materials[i],
+          keystoreAssociatedData(id, keystore.active, ids)
+        )
+      );
+      keyring.assertNewKey(id);
+      const [password, salt, cipherOptions] = keyring.cipherArguments(id, key);
+      keyring.addEntry(id, {
+        key,
+        cipher: await MTCv3.create(password, salt, {
+          rounds: options.rounds,
+          matrixSize: options.matrixSize,
+          ...cipherOptions,
+        }),
+      });
+    }
+
+    if (keystore.active !== undefined) {
+      keyring.setActive(keystore.active);
+    }
+    return keyring;
+  }
+
+  // Write the keystore to a file, readable only by its owner
+  async save(
+    path: string,
+    masterPassword: string,
+    options: KeystoreOptions = {}
+  ): Promise<void> {
+    const json = await this.exportKeystore(masterPassword, options);
+    await fs.promises.writeFile(path, json, { mode: 0o600 });
+  }
+
+  static async load(
+    path: string,
+    masterPassword: string,
+    options: MTCv3KeyringOptions = {}
+  ): Promise<MTCv3Keyring> {
+    const json = await fs.promises.readFile(path, 'utf-8');
+    return MTCv3Keyring.importKeystore(json, masterPassword, options);
+  }
+
+  private activeCipher(): MTCv3 {
+    if (this.activeId === undefined) {
+      throw new Error('Keyring has no active key');
+    }
+    return this.entries.get(this.activeId)!.cipher;
+  }
+
+  // The instance holding the key named in a ciphertext, or the fallback key
+  // for ciphertexts that name none
+  private cipherFor(data: Uint8Array): MTCv3 {
+    const id = this.keyIdOf(data) ?? this.options.fallbackKeyId;
+    if (id === undefined) {
+      throw new MTCv3UnknownKeyError();
+    }
+    const entry = this.entries.get(id);
+    if (entry === undefined) {
+      throw new MTCv3UnknownKeyError(id);
+    }
+    return entry.cipher;
+  }
+
+  // Like cipherFor, but a malformed header fails like any other sealed data
+  private sealedCipherFor(data: Uint8Array): MTCv3 {
+    try {
+      return this.cipherFor(data);
+    } catch (error) {
+      if (error instanceof MTCv3FormatError) {
+        throw new MTCv3AuthenticationError();
+      }
+      throw error;
+    }
+  }
+
+  private isSealed(data: Buffer): boolean {
+    try {
+      return parseEnvelope(data).header.authenticated;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private assertNewKey(id: string): void {
+    if (this.entries.has(id)) {
+      throw new Error(`Key already exists: ${id}`);
+    }
+  }
+
+  private assertKnownKey(id: string): void {
+    if (!this.entries.has(id)) {
+      throw new Error(`Unknown key ID: ${id}`);
+    }
+  }
+
+  private addEntry(id: string, entry: KeyringEntry): void {
+    this.entries.set(id, entry);
+    this.activeId ??= id;
+  }
+
+  // Constructor arguments of the MTCv3 instance for a key
+  private cipherArguments(
+    id: string,
+    key: KeyringKey
+  ): [string, string, MTCv3CreateOptions] {
+    const { fallbackKeyId, rounds, matrixSize, ...shared } = this.options;
+    return key.type === 'raw'
+      ? [
+          '',
+          RAW_KEY_SALT,
+          { ...shared, kdf: { algorithm: 'raw', key: key.key }, keyId: id },
+        ]
+      : [key.password, key.salt, { ...shared, kdf: key.kdf, keyId: id }];
+  }
+}
+
+// Every entry binds the whole ordered list of key IDs, so entries cannot be
+// dropped, added or reordered without failing authentication
+function keystoreAssociatedData(
+  id: string,
+  active: string | undefined,
+  ids: string[]
+): string {
+  return JSON.stringify([KEYSTORE_FORMAT, id, active ?? null, ids]);
+}
+
+function serializeKey(key: KeyringKey): SerializedKey {
+  return key.type === 'raw'
+    ? { type: 'raw', key: Buffer.from(key.key).toString('hex') }
+    : key;
+}
+
+function deserializeKey(data: Uint8Array): KeyringKey {
+  const key: SerializedKey = JSON.parse(Buffer.from(data).toString('utf-8'));
+  return key.type === 'raw'
+    ? { type: 'raw', key: Buffer.from(key.key, 'hex') }
+    : key;
+}
+
+// Function to check the structure of keystore JSON before any decryption
+function parseKeystore(json: string): Keystore {
+  let keystore: Keystore;
+  try {
+    keystore = JSON.parse(json);
+  } catch (error) {
+    throw new MTCv3FormatError('Invalid keystore: not JSON');
+  }
+
+  if (keystore?.format !== KEYSTORE_FORMAT) {
+    throw new MTCv3FormatError('Invalid keystore: unknown format');
+  }
+  if (keystore.version !== KEYSTORE_VERSION) {
+    throw new MTCv3FormatError(
+      `Unsupported keystore version: ${keystore.version}`
+    );
+  }
+  if (
+    typeof keystore.salt !== 'string' ||
+    (keystore.active !== undefined && typeof keystore.active !== 'string') ||
+    !Array.isArray(keystore.keys) ||
+    !keystore.keys.every(
+      (entry) =>
+        typeof entry?.id === 'string' && typeof entry?.material === 'string'
+    )
+  ) {
+    throw new MTCv3FormatError('Invalid keystore: malformed entries');
+  }
+  if (
+    keystore.active !== undefined &&
+    !keystore.keys.some(({ id }) => id === keystore.active)
+  ) {
+    throw new MTCv3FormatError('Invalid keystore: unknown active key');
+  }
+  return keystore;
+}
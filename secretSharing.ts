@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import { SHARE_MAGIC, SHARE_VERSION } from './constants/encryptionConstants';
+import { DecodeOptions } from './MTCV3';
+import { gfInterpolate, gfPolyEval } from './helpers/gf256';
+import { MTCv3Error, MTCv3FormatError } from './helpers/errors';
+import { KdfOptions } from './helpers/kdf';
+
+// Shamir secret sharing over GF(2^8): every secret byte is the constant term
+// of its own random polynomial of degree k - 1, and share x holds the value
+// of each polynomial at x. Any k shares reconstruct the secret; fewer reveal
+// nothing about it. A share is encoded as
+//
+//   magic "MTCS" (4) | version (1) | secret type (1) | threshold (1)
+//   index (1) | split ID (4) | share bytes (secret length) | checksum (4)
+//
+// The split ID is random per call, so shares of different secrets are not
+// combined by mistake. The checksum (truncated SHA-256 of the rest) catches
+// transcription errors; it is not a MAC.
+
+export type SecretType = 'bytes' | 'password' | 'key';
+
+export interface SecretSharingOptions extends DecodeOptions {
+  // Source of polynomial coefficients (default: crypto.randomBytes)
+  randomBytes?: (size: number) => Buffer;
+}
+
+export interface SecretShare {
+  type: SecretType;
+  threshold: number;
+  index: number;
+  splitId: Buffer;
+  data: Buffer;
+}
+
+const SECRET_TYPES: SecretType[] = ['bytes', 'password', 'key'];
+const SPLIT_ID_LENGTH = 4;
+const CHECKSUM_LENGTH = 4;
+const HEADER_LENGTH = SHARE_MAGIC.length + 4 + SPLIT_ID_LENGTH;
+const MAX_SHARES = 255;
+const MIN_KEY_LENGTH = 16;
+
+// Function to split a secret into n shares, any k of which reconstruct it.
+// Strings are split as UTF-8.
+export function splitSecret(
+  secret: string | Uint8Array,
+  n: number,
+  k: number,
+  options: SecretSharingOptions = {}
+): string[] {
+  return split(Buffer.from(secret), 'bytes', n, k, options);
+}
+
+// Function to reconstruct a secret from at least threshold shares
+export function combineShares(
+  shares: string[],
+  options: DecodeOptions = {}
+): Buffer {
+  return combine(shares, options).secret;
+}
+
+// Function to split a password, such as a keystore master password
+export function splitPassword(
+  password: string,
+  n: number,
+  k: number,
+  options: SecretSharingOptions = {}
+): string[] {
+  return split(Buffer.from(password, 'utf-8'), 'password', n, k, options);
+}
+
+// Function to reconstruct a password split with splitPassword
+export function combinePassword(
+  shares: string[],
+  options: DecodeOptions = {}
+): string {
+  return expectType(combine(shares, options), 'password').toString('utf-8');
+}
+
+// Function to split a raw MTCv3 key
+export function splitKey(
+  key: Uint8Array,
+  n: number,
+  k: number,
+  options: SecretSharingOptions = {}
+): string[] {
+  if (key.length < MIN_KEY_LENGTH) {
+    throw new Error(`Raw keys must be at least ${MIN_KEY_LENGTH} bytes`);
+  }
+  return split(Buffer.from(key), 'key', n, k, options);
+}
+
+// Function to reconstruct a key split with splitKey, as MTCv3 raw key options
+export function combineKey(
+  shares: string[],
+  options: DecodeOptions = {}
+): KdfOptions {
+  return {
+    algorithm: 'raw',
+    key: expectType(combine(shares, options), 'key'),
+  };
+}
+
+// Function to encode a share
+export function serializeShare(share: SecretShare): Buffer {
+  const body = Buffer.concat([
+    SHARE_MAGIC,
+    Buffer.from([
+      SHARE_VERSION,
+      SECRET_TYPES.indexOf(share.type),
+      share.threshold,
+      share.index,
+    ]),
+    share.splitId,
+    share.data,
+  ]);
+  return Buffer.concat([body, checksum(body)]);
+}
+
+// Function to decode a share and check its checksum
+export function parseShare(data: Buffer): SecretShare {
+  if (!data.subarray(0, SHARE_MAGIC.length).equals(SHARE_MAGIC)) {
+    throw new MTCv3FormatError('Invalid share: missing share magic');
+  }
+  if (data.length <= HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new MTCv3FormatError('Truncated share');
+  }
+  const [version, typeByte, threshold, index] = data.subarray(
+    SHARE_MAGIC.length
+  );
+  if (version !== SHARE_VERSION) {
+    throw new MTCv3FormatError(`Unsupported share version: ${version}`);
+  }
+
+  const body = data.subarray(0, data.length - CHECKSUM_LENGTH);
+  if (!checksum(body).equals(data.subarray(body.length))) {
+    throw new MTCv3FormatError('Invalid share: checksum mismatch');
+  }
+
+  const type = SECRET_TYPES[typeByte];
+  if (type === undefined) {
+    throw new MTCv3FormatError(`Unsupported secret type: ${typeByte}`);
+  }
+  if (threshold < 2 || index === 0) {
+    throw new MTCv3FormatError('Invalid share: malformed header');
+  }
+
+  return {
+    type,
+    threshold,
+    index,
+    splitId: Buffer.from(
+      body.subarray(HEADER_LENGTH - SPLIT_ID_LENGTH, HEADER_LENGTH)
+    ),
+    data: Buffer.from(body.subarray(HEADER_LENGTH)),
+  };
+}
+
+function split(
+  secret: Buffer,
+  type: SecretType,
+  n: number,
+  k: number,
+  options: SecretSharingOptions
+): string[] {
+  if (!Number.isInteger(n) || n < 2 || n > MAX_SHARES) {
+    throw new Error(`Share count must be between 2 and ${MAX_SHARES}`);
+  }
+  if (!Number.isInteger(k) || k < 2 || k > n) {
+    throw new Error('Threshold must be between 2 and the share count');
+  }
+  if (secret.length === 0) {
+    throw new Error('Cannot split an empty secret');
+  }
+
+  const randomBytes = options.randomBytes ?? crypto.randomBytes;
+  const splitId = Buffer.from(randomBytes(SPLIT_ID_LENGTH));
+  const coefficients = Buffer.from(randomBytes(secret.length * (k - 1)));
+  const polynomial = new Uint8Array(k);
+  const shares = Array.from({ length: n }, () => Buffer.alloc(secret.length));
+
+  try {
+    for (let i = 0; i < secret.length; i++) {
+      polynomial[0] = secret[i];
+      polynomial.set(coefficients.subarray(i * (k - 1), (i + 1) * (k - 1)), 1);
+      for (let x = 1; x <= n; x++) {
+        shares[x - 1][i] = gfPolyEval(polynomial, x);
+      }
+    }
+  } finally {
+    coefficients.fill(0);
+    polynomial.fill(0);
+  }
+
+  return shares.map((data, i) =>
+    serializeShare({
+      type,
+      threshold: k,
+      index: i + 1,
+      splitId,
+      data,
+    }).toString(options.encoding ?? 'hex')
+  );
+}
+
+function combine(
+  encoded: string[],
+  options: DecodeOptions
+): { type: SecretType; secret: Buffer } {
+  const shares = encoded.map((share) =>
+    parseShare(Buffer.from(share, options.encoding ?? 'hex'))
+  );
+  if (shares.length === 0) {
+    throw new MTCv3Error('No shares given');
+  }
+
+  const [first] = shares;
+  const byIndex = new Map<number, SecretShare>();
+  for (const share of shares) {
+    if (
+      share.type !== first.type ||
+      share.threshold !== first.threshold ||
+      !share.splitId.equals(first.splitId) ||
+      share.data.length !== first.data.length
+    ) {
+      throw new MTCv3FormatError('Shares belong to different secrets');
+    }
+    const duplicate = byIndex.get(share.index);
+    if (duplicate !== undefined && !duplicate.data.equals(share.data)) {
+      throw new MTCv3FormatError(`Conflicting shares for index ${share.index}`);
+    }
+    byIndex.set(share.index, share);
+  }
+  if (byIndex.size < first.threshold) {
+    throw new MTCv3Error(
+      `Not enough shares: ${first.threshold} required, ${byIndex.size} given`
+    );
+  }
+
+  const selected = [...byIndex.values()].slice(0, first.threshold);
+  const secret = Buffer.alloc(first.data.length);
+  for (let i = 0; i < secret.length; i++) {
+    secret[i] = gfInterpolate(
+      selected.map((share) => [share.index, share.data[i]] as const),
+      0
+    );
+  }
+  return { type: first.type, secret };
+}
+
+function expectType(
+  combined: { type: SecretType; secret: Buffer },
+  type: SecretType
+): Buffer {
+  if (combined.type !== type) {
+    combined.secret.fill(0);
+    throw new MTCv3FormatError(
+      `Shares hold a ${combined.type} secret, not a ${type}`
+    );
+  }
+  return combined.secret;
+}
+
+// Function to compute a share's transcription checksum
+function checksum(body: Buffer): Buffer {
+  return crypto
+    .createHash('sha256')
+    .update(body)
+    .digest()
+    .subarray(0, CHECKSUM_LENGTH);
+}
@@ -0,0 +1,238 @@
+import {
+  BinaryEncoding,
+  concatBytes,
+  decodeBytes,
+  encodeBytes,
+  toBytes,
+  utf8Decode,
+  utf8Encode,
+} from './helpers/bytes.js';
+import { MTCv3AuthenticationError } from './helpers/errors.js';
+import {
+  createKdfSecret,
+  KdfOptions,
+  KdfSecret,
+  resolveKdfParams,
+} from './helpers/kdfParams.js';
+import { CipherMode } from './helpers/modes.js';
+import {
+  deriveKeySetAsync,
+  KeySet,
+  MTCv3Core,
+  tagInput,
+} from './helpers/mtcv3Core.js';
+import { CryptoPlatform } from './helpers/platform.js';
+import { resolveSBoxParams, SBoxOptions } from './helpers/sBoxCore.js';
+import { createWebCryptoPlatform } from './helpers/webCryptoPlatform.js';
+
+// Entry point for browsers, Deno and edge runtimes: no Node built-ins and no
+// Buffer, only Uint8Array and an injectable CryptoPlatform (WebCrypto by
+// default). MTCv3Web reads and writes the same bytes as MTCv3, so either
+// side can decrypt what the other encrypted.
+
+export {
+  MTCv3AuthenticationError,
+  MTCv3DecryptionError,
+  MTCv3Error,
+  MTCv3FormatError,
+  MTCv3UnknownKeyError,
+} from './helpers/errors.js';
+export { createWebCryptoPlatform } from './helpers/webCryptoPlatform.js';
+export type { CryptoPlatform } from './helpers/platform.js';
+export type { KdfOptions } from './helpers/kdfParams.js';
+export type { CipherMode } from './helpers/modes.js';
+export type { SBoxOptions } from './helpers/sBoxCore.js';
+
+export type CiphertextEncoding = BinaryEncoding;
+
+export interface WebDecodeOptions {
+  // Encoding of string ciphertexts (default: hex)
+  encoding?: CiphertextEncoding;
+}
+
+export interface WebEncryptOptions extends WebDecodeOptions {
+  // Explicit IV/nonce (matrixSize * matrixSize bytes), e.g. for deterministic
+  // tests. Reuse is only detected among the instance's last 1024 explicit IVs.
+  iv?: Uint8Array;
+}
+
+export interface MTCv3WebOptions {
+  rounds?: number;
+  matrixSize?: number;
+  // Block cipher mode used for new ciphertexts (default: cbc)
+  mode?: CipherMode;
+  // Cipher version used for new ciphertexts (default: 2)
+  cipherVersion?: number;
+  // Key derivation function (default: PBKDF2-HMAC-SHA256, 100000
+  // iterations). scrypt needs a platform that provides it.
+  kdf?: KdfOptions;
+  // S-box used for new ciphertexts (default: the AES S-box)
+  sBox?: SBoxOptions;
+  // Source of IVs (default: the platform's randomBytes)
+  randomBytes?: (size: number) => Uint8Array;
+  // Key ID recorded in new ciphertexts
+  keyId?: string;
+  // Decrypt ciphertexts whose header records other KDF parameters than
+  // kdf, deriving their keys with the recorded ones (default: false, which
+  // rejects them with MTCv3FormatError)
+  acceptHeaderKdf?: boolean;
+  // Randomness, hashing and KDFs (default: WebCrypto on globalThis.crypto)
+  platform?: CryptoPlatform;
+}
+
+export class MTCv3Web {
+  private core: MTCv3Core<Promise<KeySet>>;
+
+  private constructor(
+    private platform: CryptoPlatform,
+    private secret: KdfSecret,
+    options: MTCv3WebOptions,
+    salt: string
+  ) {
+    const core: MTCv3Core<Promise<KeySet>> = new MTCv3Core(
+      {
+        rounds: options.rounds ?? 10,
+        matrixSize: options.matrixSize ?? 4,
+        mode: options.mode,
+        cipherVersion: options.cipherVersion,
+        kdf: resolveKdfParams(options.kdf),
+        sBox: resolveSBoxParams(options.sBox),
+        salt: utf8Encode(salt),
+        keyId: options.keyId,
+        acceptHeaderKdf: options.acceptHeaderKdf,
+        randomBytes:
+          options.randomBytes ?? ((size) => platform.randomBytes(size)),
+      },
+      (params) => {
+        const keys = deriveKeySetAsync(this.platform, this.secret, params);
+        // A failed derivation is not cached, so that it can be retried
+        keys.catch(() => core.forgetKeys(params));
+        return keys;
+      }
+    );
+    this.core = core;
+  }
+
+  // Validate the options and derive the keys, which needs the asynchronous
+  // platform KDF
+  static async create(
+    password: string,
+    salt: string,
+    options: MTCv3WebOptions = {}
+  ): Promise<MTCv3Web> {
+    const instance = new MTCv3Web(
+      options.platform ?? createWebCryptoPlatform(),
+      createKdfSecret(password, options.kdf),
+      options,
+      salt
+    );
+    await instance.core.keysFor(instance.core.params);
+    return instance;
+  }
+
+  // Encryption Function
+  async encrypt(
+    plaintext: string,
+    options: WebEncryptOptions = {}
+  ): Promise<string> {
+    const ciphertext = await this.encryptBytes(utf8Encode(plaintext), options);
+    return encodeBytes(ciphertext, options.encoding ?? 'hex');
+  }
+
+  // Decryption Function
+  async decrypt(
+    ciphertext: string,
+    options: WebDecodeOptions = {}
+  ): Promise<string> {
+    const plaintext = await this.decryptBytes(
+      decodeBytes(ciphertext, options.encoding ?? 'hex')
+    );
+    return utf8Decode(plaintext);
+  }
+
+  // Binary encryption: returns envelope header || ciphertext
+  async encryptBytes(
+    data: Uint8Array,
+    options: WebEncryptOptions = {}
+  ): Promise<Uint8Array> {
+    const keys = await this.core.keysFor(this.core.params);
+    return this.core.encryptEnvelope(keys.cipher, data, false, options.iv);
+  }
+
+  // Binary decryption of an envelope, or of a legacy IV || CBC ciphertext
+  async decryptBytes(data: Uint8Array): Promise<Uint8Array> {
+    const unpacked = this.core.unpack(data);
+    return this.core.decrypt(
+      await this.core.keysFor(unpacked.params),
+      unpacked
+    );
+  }
+
+  // Authenticated encryption: header || ciphertext || tag over (AD, header, ciphertext)
+  async seal(
+    plaintext: string,
+    associatedData: string | Uint8Array = '',
+    options: WebEncryptOptions = {}
+  ): Promise<string> {
+    const sealed = await this.sealBytes(
+      utf8Encode(plaintext),
+      associatedData,
+      options
+    );
+    return encodeBytes(sealed, options.encoding ?? 'hex');
+  }
+
+  // Authenticated decryption of a string produced by seal
+  async open(
+    sealed: string,
+    associatedData: string | Uint8Array = '',
+    options: WebDecodeOptions = {}
+  ): Promise<string> {
+    const plaintext = await this.openBytes(
+      decodeBytes(sealed, options.encoding ?? 'hex'),
+      associatedData
+    );
+    return utf8Decode(plaintext);
+  }
+
+  // Binary authenticated encryption
+  async sealBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = '',
+    options: WebEncryptOptions = {}
+  ): Promise<Uint8Array> {
+    const keys = await this.core.keysFor(this.core.params);
+    const body = this.core.encryptEnvelope(
+      keys.aeadCipher,
+      data,
+      true,
+      options.iv
+    );
+    const tag = await this.platform.hmacSha256(
+      keys.macKey,
+      tagInput(toBytes(associatedData), body)
+    );
+
+    return concatBytes(body, tag);
+  }
+
+  // Binary authenticated decryption: the tag is verified before any unpadding happens
+  async openBytes(
+    data: Uint8Array,
+    associatedData: string | Uint8Array = ''
+  ): Promise<Uint8Array> {
+    const sealed = this.core.unpackSealed(data);
+    let keys: KeySet;
+    try {
+      keys = await this.core.keysFor(sealed.params);
+    } catch (error) {
+      throw new MTCv3AuthenticationError();
+    }
+
+    const expectedTag = await this.platform.hmacSha256(
+      keys.macKey,
+      tagInput(toBytes(associatedData), sealed.body)
+    );
+    return this.core.open(keys, sealed, expectedTag);
+  }
+}